@@ -1,23 +1,99 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { LayoutDashboard, ShieldCheck, Sparkles, TrendingUp, History } from 'lucide-react';
 import FinancialInputForm from './components/FinancialInputForm';
 import Dashboard from './components/Dashboard';
 import { InvestorDashboard } from './components/InvestorDashboard';
-import { ScenarioData, UserInput } from './types';
+import ModelWorkspace from './components/ModelWorkspace';
+import VersionHistory from './components/VersionHistory';
+import { CachedAnalysis, ChatMessage, ModelVersion, SavedModel, ScenarioData, UserInput } from './types';
+import { createModel, getOpenModelId, loadModel, saveModel, setOpenModelId } from './services/workspaceService';
+import { addVersion, createVersion } from './services/versionService';
+import { DEFAULT_CURRENCY } from './services/currencyService';
 import './styles/InvestorDashboard.css';
 
+// Edits are written to the workspace once they pause for this long
+const AUTOSAVE_DELAY_MS = 500;
+
+// Opening a model is not a change to it; anything set since then is
+const isEdited = (opened: SavedModel, current: SavedModel) =>
+  current.scenarios !== opened.scenarios || current.userInput !== opened.userInput
+  || current.aiAnalysis !== opened.aiAnalysis || current.chatHistory !== opened.chatHistory || current.versions !== opened.versions;
+
 const App: React.FC = () => {
   const [scenarios, setScenarios] = useState<ScenarioData[] | null>(null);
   const [userInput, setUserInput] = useState<UserInput | null>(null);
-  
+  const [activeModel, setActiveModel] = useState<SavedModel | null>(null);
+  const [aiAnalysis, setAiAnalysis] = useState<Record<string, CachedAnalysis>>({});
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [showVersions, setShowVersions] = useState(false);
+
+  const openModel = (model: SavedModel) => {
+    setActiveModel(model);
+    setScenarios(model.scenarios);
+    setUserInput(model.userInput);
+    setAiAnalysis(model.aiAnalysis);
+    setChatHistory(model.chatHistory);
+    setVersions(model.versions ?? []);
+    setOpenModelId(model.id);
+  };
+
+  // A refresh reopens the model that was on screen
+  useEffect(() => {
+    const id = getOpenModelId();
+    if (!id) return;
+    loadModel(id)
+      .then(model => model ? openModel(model) : setOpenModelId(undefined))
+      .catch(error => console.error('Workspace error:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!activeModel || !scenarios || !userInput) return;
+    const model = { ...activeModel, scenarios, userInput, aiAnalysis, chatHistory, versions };
+    if (!isEdited(activeModel, model)) return;
+    const timer = setTimeout(() => {
+      saveModel(model).catch(error => console.error('Workspace error:', error));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeModel, scenarios, userInput, aiAnalysis, chatHistory, versions]);
+
   const handleScenariosGenerated = (generatedScenarios: ScenarioData[], inputData: UserInput) => {
-    setScenarios(generatedScenarios);
-    setUserInput(inputData);
+    const model = createModel(inputData, generatedScenarios);
+    openModel(model);
+    saveModel(model).catch(error => console.error('Workspace error:', error));
   };
-  
-  const handleStartOver = () => {
+
+  const handleAiAnalysisChange = useCallback((scenarioName: string, analysis: CachedAnalysis) => {
+    setAiAnalysis(previous => ({ ...previous, [scenarioName]: analysis }));
+  }, []);
+
+  // The model stays in the workspace; edits still waiting for autosave are written first
+  const handleStartOver = async () => {
+    const model = activeModel && scenarios && userInput ? { ...activeModel, scenarios, userInput, aiAnalysis, chatHistory, versions } : null;
+    if (model && isEdited(activeModel, model)) await saveModel(model).catch(error => console.error('Workspace error:', error));
+    setOpenModelId(undefined);
+    setActiveModel(null);
     setScenarios(null);
     setUserInput(null);
+    setAiAnalysis({});
+    setChatHistory([]);
+    setVersions([]);
+    setShowVersions(false);
+  };
+
+  // Also called just before a roll-forward or an actuals import replaces the numbers on screen
+  const handleSaveVersion = (note: string) => {
+    if (!scenarios || !userInput) return;
+    const version = createVersion(userInput, scenarios, note);
+    setVersions(previous => addVersion(previous, version));
+  };
+
+  // Restoring never loses numbers: the ones on screen are kept as a version first
+  const handleRestoreVersion = (version: ModelVersion) => {
+    if (!scenarios || !userInput) return;
+    setVersions(addVersion(versions, createVersion(userInput, scenarios, `Before restoring "${version.note}"`)));
+    setScenarios(version.scenarios);
+    setUserInput(version.userInput);
   };
 
   return (
@@ -58,27 +134,57 @@ const App: React.FC = () => {
                 Generate scenarios based on YOUR actual financial inputs - no more hardcoded data!
               </p>
             </div>
+            <ModelWorkspace onOpen={openModel} />
             <FinancialInputForm onScenariosGenerated={handleScenariosGenerated} />
           </div>
         ) : (
           <div className="animate-fade-in-up">
             <div className="flex items-center justify-between mb-6">
-               <h2 className="text-2xl font-bold text-slate-800">Your Financial Analysis</h2>
-               <button 
-                 onClick={handleStartOver}
-                 className="text-sm font-medium text-slate-500 hover:text-blue-600 flex items-center gap-1"
-               >
-                 <LayoutDashboard size={16} /> New Analysis
-               </button>
+               <div>
+                 <h2 className="text-2xl font-bold text-slate-800">Your Financial Analysis</h2>
+                 {activeModel && <p className="text-sm text-slate-500">Saved in this browser as {activeModel.name}</p>}
+               </div>
+               <div className="flex items-center gap-4">
+                 <button
+                   onClick={() => setShowVersions(!showVersions)}
+                   className="text-sm font-medium text-slate-500 hover:text-blue-600 flex items-center gap-1"
+                 >
+                   <History size={16} /> Version History ({versions.length})
+                 </button>
+                 <button 
+                   onClick={handleStartOver}
+                   className="text-sm font-medium text-slate-500 hover:text-blue-600 flex items-center gap-1"
+                 >
+                   <LayoutDashboard size={16} /> New Analysis / Saved Models
+                 </button>
+               </div>
             </div>
+            {showVersions && userInput && (
+              <VersionHistory
+                versions={versions}
+                userInput={userInput}
+                scenarios={scenarios}
+                currency={scenarios[0]?.drivers?.currency || userInput.currency || DEFAULT_CURRENCY}
+                onSaveVersion={handleSaveVersion}
+                onRestore={handleRestoreVersion}
+              />
+            )}
             <Dashboard 
+              key={activeModel?.id}
               scenarios={scenarios}
               userInput={userInput}
+              onScenariosChange={setScenarios}
+              onUserInputChange={setUserInput}
+              aiAnalysis={aiAnalysis}
+              onAiAnalysisChange={handleAiAnalysisChange}
+              chatHistory={chatHistory}
+              onChatHistoryChange={setChatHistory}
+              onSaveVersion={handleSaveVersion}
             />
             {userInput && (
               <InvestorDashboard 
                 scenarios={scenarios}
-                currentCash={userInput.availableCash}
+                currentCash={userInput.currentCash}
                 industry={userInput.industry || 'SaaS'}
                 userInputs={userInput}
               />
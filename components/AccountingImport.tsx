@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { BookOpenCheck, FileUp, Trash2 } from 'lucide-react';
+import { HistoricalYear } from '../types';
+import {
+  ACCOUNT_CATEGORIES, AccountCategory, AccountingMapping, AccountingSheet, PeriodColumn, periodOfHeader, readAccountingExport, relistAccounts, summarizeHistory
+} from '../services/accountingImportService';
+
+interface Props {
+  history: HistoricalYear[];
+  currencySymbol: string;
+  onImport: (history: HistoricalYear[]) => void;
+  onRemove: (label: string) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const AccountingImport: React.FC<Props> = ({ history, currencySymbol, onImport, onRemove }) => {
+  const [sheet, setSheet] = useState<AccountingSheet | null>(null);
+
+  const formatAmount = (value: number) => `${currencySymbol}${Math.round(value).toLocaleString()}`;
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    const read = readAccountingExport(await file.text());
+    if (!read) {
+      alert('No amount columns found. Export a Profit and Loss with a column per period, or a Trial Balance with Debit and Credit columns, as CSV.');
+      return;
+    }
+    setSheet(read);
+  };
+
+  const updateMapping = (changes: Partial<AccountingMapping>, relist: boolean = false) => {
+    if (!sheet) return;
+    const mapping = { ...sheet.mapping, ...changes };
+    setSheet({ ...sheet, mapping: relist ? relistAccounts(sheet, mapping) : mapping });
+  };
+
+  const toggleColumn = (index: number, included: boolean) => {
+    if (!sheet) return;
+    const header = sheet.headers[index] || '';
+    const column: PeriodColumn = { index, header, ...(periodOfHeader(header) ?? { label: sheet.mapping.trialBalanceLabel, months: 12 }) };
+    const periodColumns = included
+      ? [...sheet.mapping.periodColumns, column].sort((a, b) => a.index - b.index)
+      : sheet.mapping.periodColumns.filter(other => other.index !== index);
+    updateMapping({ periodColumns }, true);
+  };
+
+  const updateColumn = (index: number, changes: Partial<PeriodColumn>) =>
+    updateMapping({ periodColumns: sheet?.mapping.periodColumns.map(column => column.index === index ? { ...column, ...changes } : column) });
+
+  const updateCategory = (row: number, category: AccountCategory) =>
+    updateMapping({ accounts: sheet?.mapping.accounts.map(account => account.row === row ? { ...account, category } : account) });
+
+  const preview = sheet ? summarizeHistory(sheet) : [];
+  const mapping = sheet?.mapping;
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <BookOpenCheck size={18} className="text-blue-600" />
+          <h3 className="font-semibold text-slate-800">Import from Accounts</h3>
+        </div>
+        <label className="flex items-center gap-1 px-3 py-1.5 bg-white border border-blue-600 text-blue-600 rounded-lg text-sm hover:bg-blue-50 transition-colors cursor-pointer">
+          <FileUp size={16} /> Choose CSV
+          <input
+            type="file"
+            accept=".csv,.txt"
+            className="hidden"
+            onChange={(e) => { readFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        Profit &amp; Loss or Trial Balance exported as CSV from QuickBooks, Xero, Tally (vertical layout), Zoho Books or a
+        spreadsheet. The latest year fills revenue, monthly expenses and cash below; every year is kept as history for
+        the generator and model validation. Import one file per year for trial balances.
+      </p>
+
+      {sheet && mapping && (
+        <div className="space-y-4 mt-4">
+          <p className="text-sm text-slate-600">
+            Read as a <strong>{sheet.format === 'Generic' ? 'spreadsheet' : sheet.format}</strong>{' '}
+            {mapping.layout === 'trialBalance' ? 'trial balance' : 'profit and loss'}. Check the columns and categories before using the figures.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Account Column</label>
+              <select className={inputClass} value={mapping.accountColumn} onChange={(e) => updateMapping({ accountColumn: Number(e.target.value) }, true)}>
+                {sheet.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+              </select>
+            </div>
+            {mapping.layout === 'trialBalance' && (
+              <>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Debit / Credit Columns</label>
+                  <div className="flex gap-2">
+                    <select className={inputClass} value={mapping.debitColumn} onChange={(e) => updateMapping({ debitColumn: Number(e.target.value) }, true)}>
+                      {sheet.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                    </select>
+                    <select className={inputClass} value={mapping.creditColumn} onChange={(e) => updateMapping({ creditColumn: Number(e.target.value) }, true)}>
+                      {sheet.headers.map((header, index) => <option key={index} value={index}>{header || `Column ${index + 1}`}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">Year</label>
+                  <input type="text" className={inputClass} value={mapping.trialBalanceLabel} onChange={(e) => updateMapping({ trialBalanceLabel: e.target.value })} />
+                </div>
+              </>
+            )}
+          </div>
+
+          {mapping.layout === 'periods' && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                  <tr>
+                    <th className="px-2 py-2">Use</th>
+                    <th className="px-2 py-2">Column</th>
+                    <th className="px-2 py-2">Year</th>
+                    <th className="px-2 py-2">Months</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {sheet.headers.map((header, index) => {
+                    if (index === mapping.accountColumn) return null;
+                    const column = mapping.periodColumns.find(other => other.index === index);
+                    return (
+                      <tr key={index}>
+                        <td className="px-2 py-1.5">
+                          <input type="checkbox" checked={!!column} onChange={(e) => toggleColumn(index, e.target.checked)} />
+                        </td>
+                        <td className="px-2 py-1.5 text-slate-700">{header || `Column ${index + 1}`}</td>
+                        <td className="px-2 py-1.5 w-32">
+                          {column && <input type="text" className={inputClass} value={column.label} onChange={(e) => updateColumn(index, { label: e.target.value })} />}
+                        </td>
+                        <td className="px-2 py-1.5 w-24">
+                          {column && <input type="number" min="1" max="12" className={inputClass} value={column.months} onChange={(e) => updateColumn(index, { months: Number(e.target.value) })} />}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                <tr>
+                  <th className="px-2 py-2">Account</th>
+                  <th className="px-2 py-2">Heading</th>
+                  <th className="px-2 py-2">Category</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {mapping.accounts.map(account => (
+                  <tr key={account.row}>
+                    <td className="px-2 py-1.5 text-slate-700">{account.name}</td>
+                    <td className="px-2 py-1.5 text-slate-500">{account.section}</td>
+                    <td className="px-2 py-1.5 w-48">
+                      <select className={inputClass} value={account.category} onChange={(e) => updateCategory(account.row, e.target.value as AccountCategory)}>
+                        {ACCOUNT_CATEGORIES.map(({ category, label }) => <option key={category} value={category}>{label}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                  <tr>
+                    <th className="px-2 py-2">Year</th>
+                    <th className="px-2 py-2 text-right">Revenue</th>
+                    <th className="px-2 py-2 text-right">COGS</th>
+                    <th className="px-2 py-2 text-right">OpEx</th>
+                    <th className="px-2 py-2 text-right">Net Income</th>
+                    <th className="px-2 py-2 text-right">Cash</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.map(year => (
+                    <tr key={year.label}>
+                      <td className="px-2 py-1.5 font-medium text-slate-700">{year.label}{year.months < 12 ? ` (${year.months} mo)` : ''}</td>
+                      <td className="px-2 py-1.5 text-right">{formatAmount(year.revenue)}</td>
+                      <td className="px-2 py-1.5 text-right">{formatAmount(year.cogs)}</td>
+                      <td className="px-2 py-1.5 text-right">{formatAmount(year.opex)}</td>
+                      <td className={`px-2 py-1.5 text-right ${year.netIncome < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatAmount(year.netIncome)}</td>
+                      <td className="px-2 py-1.5 text-right">{year.cashBalance !== undefined ? formatAmount(year.cashBalance) : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setSheet(null)} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => { onImport(preview); setSheet(null); }}
+              disabled={preview.length === 0}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Use These Figures
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!sheet && history.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {history.map(year => (
+            <div key={year.label} className="flex items-center justify-between text-sm text-slate-700">
+              <span>
+                <strong>{year.label}</strong>{year.months < 12 ? ` (${year.months} months)` : ''}: revenue {formatAmount(year.revenue)},
+                net income {formatAmount(year.netIncome)}
+              </span>
+              <button onClick={() => onRemove(year.label)} className="text-slate-400 hover:text-red-600" title="Remove year">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountingImport;
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, FastForward, FileUp, Plus, Sparkles, Trash2 } from 'lucide-react';
+import { ActualPeriod, ScenarioData } from '../types';
+import { calculateVariance, createActualPeriod, mergeActuals, parseActualsCsv } from '../services/varianceService';
+import { analyzeVariances } from '../services/geminiService';
+import { getMonthlyProjections, addMonths } from '../services/projectionEngine';
+import { latestActualMonth } from '../services/rollingForecastService';
+
+interface Props {
+  scenario: ScenarioData;
+  currency: string;
+  formatCurrency: (val: number) => string;
+  onChange: (actuals: ActualPeriod[]) => void;
+  onImport: (actuals: ActualPeriod[]) => void;
+  onRollForward: (useAI: boolean) => Promise<void>;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const AMOUNT_FIELDS: { field: Exclude<keyof ActualPeriod, 'period'>; label: string }[] = [
+  { field: 'revenue', label: 'Revenue' },
+  { field: 'cogs', label: 'COGS' },
+  { field: 'opex', label: 'OpEx' },
+  { field: 'netIncome', label: 'Net Income' },
+  { field: 'cashBalance', label: 'Closing Cash' }
+];
+
+const ActualsTracker: React.FC<Props> = ({ scenario, currency, formatCurrency, onChange, onImport, onRollForward }) => {
+  const [scope, setScope] = useState('total');
+  const [commentary, setCommentary] = useState('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isRolling, setIsRolling] = useState(false);
+
+  const actuals = scenario.actuals || [];
+  const report = calculateVariance(scenario);
+  const views = [
+    ...(report.total ? [{ key: 'total', variance: report.total }] : []),
+    ...report.byYear.map(variance => ({ key: variance.label, variance })),
+    ...report.byMonth.map(variance => ({ key: variance.label, variance }))
+  ];
+  const selected = (views.find(view => view.key === scope) || views[0])?.variance;
+  const latestActual = latestActualMonth(scenario);
+  const forecast = scenario.rollingForecast;
+
+  const updateActual = (index: number, changes: Partial<ActualPeriod>) =>
+    onChange(actuals.map((actual, i) => i === index ? { ...actual, ...changes } : actual));
+
+  // Each new row continues from the latest month entered, or starts at the first projected month
+  const addMonth = () => {
+    const latest = [...actuals].map(actual => actual.period).sort().pop();
+    const period = latest ? addMonths(latest, 1) : getMonthlyProjections(scenario)[0]?.period || '';
+    onChange([...actuals, createActualPeriod(period)]);
+  };
+
+  const importActuals = async (file: File | undefined) => {
+    if (!file) return;
+    const imported = parseActualsCsv(await file.text());
+    if (imported.length === 0) {
+      alert('No months found. Expected a header row with a "Month" column and columns such as "Revenue", "COGS", "OpEx", "Net Income" and "Cash".');
+      return;
+    }
+    onImport(mergeActuals(actuals, imported));
+    if (!imported.some(actual => actual.cashBalance !== undefined)) {
+      alert('No "Cash" column found. Closing cash for these months follows the plan and is left out of the variance.');
+    }
+  };
+
+  const explainVariances = async () => {
+    if (!selected) return;
+    setIsAnalyzing(true);
+    setCommentary(await analyzeVariances(selected, currency));
+    setIsAnalyzing(false);
+  };
+
+  const rollForward = async (useAI: boolean) => {
+    setIsRolling(true);
+    await onRollForward(useAI);
+    setIsRolling(false);
+  };
+
+  const formatPercent = (value: number | null) => value === null ? 'n/a' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Plan vs Actual</h3>
+        </div>
+        <div className="flex gap-2">
+          <label className="flex items-center gap-1 px-3 py-1.5 bg-white border border-blue-600 text-blue-600 rounded-lg text-sm hover:bg-blue-50 transition-colors cursor-pointer">
+            <FileUp size={16} /> Import CSV
+            <input
+              type="file"
+              accept=".csv,.txt"
+              className="hidden"
+              onChange={(e) => { importActuals(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+          <button
+            onClick={addMonth}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Add Month
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Enter or import reported monthly results for the {scenario.name} scenario, in the model currency. Each month is
+        compared with the original plan for the same calendar month; cash compares closing balances where one is entered.
+      </p>
+
+      {actuals.length > 0 && (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Month</th>
+                {AMOUNT_FIELDS.map(({ field, label }) => <th key={field} className="px-2 py-2">{label}</th>)}
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {actuals.map((actual, index) => (
+                <tr key={index}>
+                  <td className="px-2 py-2 w-40">
+                    <input type="month" className={inputClass} value={actual.period} onChange={(e) => updateActual(index, { period: e.target.value })} />
+                  </td>
+                  {AMOUNT_FIELDS.map(({ field }) => (
+                    <td key={field} className="px-2 py-2">
+                      <input
+                        type="number"
+                        className={inputClass}
+                        value={actual[field] ?? ''}
+                        placeholder={field === 'cashBalance' ? 'Not reported' : undefined}
+                        onChange={(e) => updateActual(index, { [field]: field === 'cashBalance' && e.target.value === '' ? undefined : Number(e.target.value) })}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => onChange(actuals.filter((_, i) => i !== index))} className="text-slate-400 hover:text-red-600" title="Remove month">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {report.outsidePlan.length > 0 && (
+        <p className="text-sm text-amber-700 mb-4">
+          Not compared, outside the projection: {report.outsidePlan.join(', ')}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+        <p className="text-sm text-slate-600">
+          {forecast
+            ? <>Forecast closed through <strong>{forecast.closedThrough}</strong> and re-projected from the latest actuals on {new Date(forecast.rolledAt).toLocaleDateString()}.</>
+            : 'Roll forward to lock the months with actuals and re-project the rest from the latest cash and run-rate.'}
+          {latestActual && latestActual !== forecast?.closedThrough && <> Actuals run through {latestActual}.</>}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => rollForward(false)}
+            disabled={!latestActual || !scenario.drivers || isRolling}
+            className="flex items-center gap-1 px-3 py-1.5 bg-white border border-blue-600 text-blue-600 rounded-lg text-sm hover:bg-blue-50 transition-colors disabled:opacity-50"
+          >
+            <FastForward size={16} /> Roll Forward
+          </button>
+          <button
+            onClick={() => rollForward(true)}
+            disabled={!latestActual || !scenario.drivers || isRolling}
+            className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            <Sparkles size={16} /> {isRolling ? 'Re-forecasting...' : 'Roll Forward with AI'}
+          </button>
+        </div>
+      </div>
+
+      {forecast && (
+        <div className="overflow-x-auto mb-6">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-3 py-2">Year</th>
+                <th className="px-3 py-2 text-right">Revenue (Plan)</th>
+                <th className="px-3 py-2 text-right">Revenue (Forecast)</th>
+                <th className="px-3 py-2 text-right">EBITDA (Plan)</th>
+                <th className="px-3 py-2 text-right">EBITDA (Forecast)</th>
+                <th className="px-3 py-2 text-right">Closing Cash (Plan)</th>
+                <th className="px-3 py-2 text-right">Closing Cash (Forecast)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {scenario.projections.map((year, index) => {
+                const plan = forecast.baseline.projections[index];
+                return (
+                  <tr key={year.year}>
+                    <td className="px-3 py-2 font-medium text-slate-700">Year {year.year}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{plan ? formatCurrency(plan.revenue) : '-'}</td>
+                    <td className="px-3 py-2 text-right text-slate-800">{formatCurrency(year.revenue)}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{plan ? formatCurrency(plan.ebitda) : '-'}</td>
+                    <td className="px-3 py-2 text-right text-slate-800">{formatCurrency(year.ebitda)}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{plan ? formatCurrency(plan.cashBalance) : '-'}</td>
+                    <td className={`px-3 py-2 text-right font-semibold ${plan && year.cashBalance < plan.cashBalance ? 'text-red-600' : 'text-green-600'}`}>{formatCurrency(year.cashBalance)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            <select className="px-2 py-1.5 border border-slate-300 rounded-md text-sm" value={scope} onChange={(e) => { setScope(e.target.value); setCommentary(''); }}>
+              {views.map(view => <option key={view.key} value={view.key}>{view.variance.label}</option>)}
+            </select>
+            <button
+              onClick={explainVariances}
+              disabled={isAnalyzing}
+              className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <Sparkles size={16} /> {isAnalyzing ? 'Analyzing...' : 'Explain Variances'}
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-3 py-2">Line</th>
+                  <th className="px-3 py-2 text-right">Plan</th>
+                  <th className="px-3 py-2 text-right">Actual</th>
+                  <th className="px-3 py-2 text-right">Variance</th>
+                  <th className="px-3 py-2 text-right">%</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {selected.lines.map(line => (
+                  <tr key={line.line}>
+                    <td className="px-3 py-2 font-medium text-slate-700">{line.label}</td>
+                    <td className="px-3 py-2 text-right text-slate-600">{formatCurrency(line.plan)}</td>
+                    <td className="px-3 py-2 text-right text-slate-800">{formatCurrency(line.actual)}</td>
+                    <td className={`px-3 py-2 text-right font-semibold ${line.favorable ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(line.variance)}</td>
+                    <td className={`px-3 py-2 text-right ${line.favorable ? 'text-green-600' : 'text-red-600'}`}>{formatPercent(line.variancePercent)}</td>
+                    <td className="px-3 py-2">
+                      <span className={`text-xs px-2 py-1 rounded-full ${line.favorable ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                        {line.favorable ? 'Favorable' : 'Unfavorable'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {commentary && (
+            <div className="mt-4 p-4 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-900 whitespace-pre-line">
+              {commentary.replace(/\*\*/g, '')}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ActualsTracker;
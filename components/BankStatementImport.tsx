@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Landmark, FileUp, Sparkles } from 'lucide-react';
+import { BankTransaction, MeasuredBurn, TransactionCategory } from '../types';
+import { TRANSACTION_CATEGORIES, measureBurn, mergeTransactions, parseBankStatementCsv, selectedBurn } from '../services/bankStatementService';
+import { categorizeTransactionsWithAI } from '../services/geminiService';
+
+interface Props {
+  measuredBurn?: MeasuredBurn;
+  currencySymbol: string;
+  onApply: (measuredBurn: MeasuredBurn | undefined) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// The AI only sees lines no rule recognised, a batch at a time
+const AI_BATCH_SIZE = 80;
+
+const BankStatementImport: React.FC<Props> = ({ measuredBurn, currencySymbol, onApply }) => {
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [basis, setBasis] = useState<MeasuredBurn['basis']>(measuredBurn?.basis ?? 3);
+  const [isCategorizing, setIsCategorizing] = useState(false);
+
+  const formatAmount = (value: number) => `${value < 0 ? '-' : ''}${currencySymbol}${Math.abs(Math.round(value)).toLocaleString()}`;
+  const measured = measureBurn(transactions, basis);
+  const uncategorized = transactions.filter(transaction => transaction.categorizedBy === 'default');
+
+  const importStatements = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    let merged = transactions;
+    for (const file of Array.from(files)) {
+      const imported = parseBankStatementCsv(await file.text());
+      if (imported.length === 0) {
+        alert(`No transactions found in ${file.name}. Expected a header row with a "Date" column and either "Amount" or "Debit"/"Credit" columns.`);
+        continue;
+      }
+      merged = mergeTransactions(merged, imported);
+    }
+    setTransactions(merged);
+  };
+
+  const updateCategory = (index: number, category: TransactionCategory) =>
+    setTransactions(transactions.map((transaction, i) => i === index ? { ...transaction, category, categorizedBy: 'user' } : transaction));
+
+  const categorizeWithAI = async () => {
+    setIsCategorizing(true);
+    const batch = uncategorized.slice(0, AI_BATCH_SIZE);
+    const categories = await categorizeTransactionsWithAI(batch);
+    if (categories) {
+      setTransactions(transactions.map(transaction => {
+        const index = batch.indexOf(transaction);
+        return index >= 0 ? { ...transaction, category: categories[index], categorizedBy: 'ai' } : transaction;
+      }));
+    } else {
+      alert('AI categorization is unavailable right now; the rule-based categories are kept.');
+    }
+    setIsCategorizing(false);
+  };
+
+  return (
+    <div className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Landmark size={18} className="text-blue-600" />
+          <h3 className="font-semibold text-slate-800">Measure Burn from Bank Statements</h3>
+        </div>
+        <label className="flex items-center gap-1 px-3 py-1.5 bg-white border border-blue-600 text-blue-600 rounded-lg text-sm hover:bg-blue-50 transition-colors cursor-pointer">
+          <FileUp size={16} /> Choose CSVs
+          <input
+            type="file"
+            accept=".csv,.txt"
+            multiple
+            className="hidden"
+            onChange={(e) => { importStatements(e.target.files); e.target.value = ''; }}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        Load 3 to 6 months of statements from every operating account. Transactions are sorted into revenue, payroll,
+        vendors, tax and transfers by description; transfers, loans and equity are left out of burn. The measured burn
+        replaces the typed-in monthly expenses and drives runway and the founder scenarios.
+      </p>
+
+      {measuredBurn && transactions.length === 0 && (
+        <div className="flex items-center justify-between text-sm text-slate-700">
+          <span>
+            Using a {measuredBurn.basis}-month net burn of <strong>{formatAmount(selectedBurn(measuredBurn).netBurn)}</strong>
+            {' '}through {measuredBurn.throughMonth}.
+          </span>
+          <button onClick={() => onApply(undefined)} className="text-slate-400 hover:text-red-600 text-xs">Stop using</button>
+        </div>
+      )}
+
+      {transactions.length > 0 && measured && (
+        <div className="space-y-4 mt-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                <tr>
+                  <th className="px-2 py-2">Window</th>
+                  <th className="px-2 py-2 text-right">Revenue / mo</th>
+                  <th className="px-2 py-2 text-right">Gross Burn / mo</th>
+                  <th className="px-2 py-2 text-right">Net Burn / mo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {[measured.trailing3, measured.trailing6].map((burn, index) => (
+                  <tr key={index}>
+                    <td className="px-2 py-1.5 font-medium text-slate-700">Trailing {index === 0 ? 3 : 6} months{burn.months < (index === 0 ? 3 : 6) ? ` (${burn.months} loaded)` : ''}</td>
+                    <td className="px-2 py-1.5 text-right">{formatAmount(burn.revenue)}</td>
+                    <td className="px-2 py-1.5 text-right text-red-600">{formatAmount(burn.grossBurn)}</td>
+                    <td className={`px-2 py-1.5 text-right font-semibold ${burn.netBurn > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatAmount(burn.netBurn)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-600">
+              {transactions.length} transactions through {measured.throughMonth}; {uncategorized.length} matched no rule.
+            </p>
+            <button
+              onClick={categorizeWithAI}
+              disabled={isCategorizing || uncategorized.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <Sparkles size={16} /> {isCategorizing ? 'Categorizing...' : 'Categorize with AI'}
+            </button>
+          </div>
+
+          <div className="overflow-x-auto max-h-72 overflow-y-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                <tr>
+                  <th className="px-2 py-2">Date</th>
+                  <th className="px-2 py-2">Description</th>
+                  <th className="px-2 py-2 text-right">Amount</th>
+                  <th className="px-2 py-2">Category</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {transactions.map((transaction, index) => (
+                  <tr key={index} className={transaction.categorizedBy === 'default' ? 'bg-amber-50' : ''}>
+                    <td className="px-2 py-1.5 text-slate-600 whitespace-nowrap">{transaction.date}</td>
+                    <td className="px-2 py-1.5 text-slate-700">{transaction.description}</td>
+                    <td className={`px-2 py-1.5 text-right ${transaction.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatAmount(transaction.amount)}</td>
+                    <td className="px-2 py-1.5 w-44">
+                      <select className={inputClass} value={transaction.category} onChange={(e) => updateCategory(index, e.target.value as TransactionCategory)}>
+                        {TRANSACTION_CATEGORIES.map(({ category, label }) => <option key={category} value={category}>{label}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <select className="px-2 py-1.5 border border-slate-300 rounded-md text-sm" value={basis} onChange={(e) => setBasis(Number(e.target.value) === 6 ? 6 : 3)}>
+              <option value={3}>Use trailing 3 months</option>
+              <option value={6}>Use trailing 6 months</option>
+            </select>
+            <button onClick={() => setTransactions([])} className="px-3 py-1.5 text-sm text-slate-600 hover:text-slate-800">
+              Clear
+            </button>
+            <button
+              onClick={() => { onApply(measured); setTransactions([]); }}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+            >
+              Use Measured Burn
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BankStatementImport;
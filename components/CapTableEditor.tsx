@@ -0,0 +1,207 @@
+import React from 'react';
+import { PieChart, Plus, Trash2 } from 'lucide-react';
+import { CapTable, ConvertibleInstrument, ConvertibleKind, ProjectionDrivers, Shareholder, ShareholderRole } from '../types';
+import { SHAREHOLDER_ROLES, createDefaultCapTable, createShareholder, ownershipOf, totalShares } from '../services/capTableService';
+import { CONVERTIBLE_KINDS, createConvertible } from '../services/convertibleService';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  defaultIssueMonth: string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-slate-100 disabled:text-slate-400';
+
+const CapTableEditor: React.FC<Props> = ({ drivers, defaultIssueMonth, onChange }) => {
+  const capTable = drivers.capTable || createDefaultCapTable();
+  const ownership = ownershipOf(capTable);
+  const convertibles = capTable.convertibles || [];
+
+  const setCapTable = (updated: CapTable) => onChange({ capTable: updated });
+
+  const setHolders = (holders: Shareholder[]) => setCapTable({ ...capTable, holders });
+
+  const updateHolder = (id: string, changes: Partial<Shareholder>) =>
+    setHolders(capTable.holders.map(holder => holder.id === id ? { ...holder, ...changes } : holder));
+
+  const addHolder = () => setHolders([...capTable.holders, createShareholder({ shareClassId: capTable.shareClasses[0]?.id })]);
+
+  const removeHolder = (id: string) => setHolders(capTable.holders.filter(holder => holder.id !== id));
+
+  const setConvertibles = (updated: ConvertibleInstrument[]) => setCapTable({ ...capTable, convertibles: updated });
+
+  const updateConvertible = (id: string, changes: Partial<ConvertibleInstrument>) =>
+    setConvertibles(convertibles.map(instrument => instrument.id === id ? { ...instrument, ...changes } : instrument));
+
+  const addConvertible = (kind: ConvertibleKind) => setConvertibles([
+    ...convertibles,
+    createConvertible({ issueMonth: defaultIssueMonth, kind, name: kind === 'note' ? 'Convertible Note' : 'SAFE', annualInterestRate: kind === 'note' ? 0.08 : 0 })
+  ]);
+
+  const removeConvertible = (id: string) => setConvertibles(convertibles.filter(instrument => instrument.id !== id));
+
+  const percentInput = (value: number, onValue: (value: number) => void, disabled = false) => (
+    <input
+      type="number"
+      step="1"
+      min="0"
+      disabled={disabled}
+      className={inputClass}
+      value={Math.round(value * 1000) / 10}
+      onChange={(e) => onValue(Number(e.target.value) / 100)}
+    />
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <PieChart size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Cap Table</h3>
+        </div>
+        <button
+          onClick={addHolder}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+        >
+          <Plus size={16} /> Add Shareholder
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Ownership is fully diluted, counting the whole option pool. Recommended funding rounds are priced off this share
+        count, so each round dilutes every holder listed here and every earlier round&apos;s investors.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-2 py-2">Shareholder</th>
+              <th className="px-2 py-2">Role</th>
+              <th className="px-2 py-2">Share Class</th>
+              <th className="px-2 py-2">Shares</th>
+              <th className="px-2 py-2 text-right">Ownership</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {capTable.holders.map((holder, index) => (
+              <tr key={holder.id}>
+                <td className="px-2 py-2">
+                  <input className={inputClass} value={holder.name} onChange={(e) => updateHolder(holder.id, { name: e.target.value })} />
+                </td>
+                <td className="px-2 py-2">
+                  <select className={inputClass} value={holder.role} onChange={(e) => updateHolder(holder.id, { role: e.target.value as ShareholderRole })}>
+                    {SHAREHOLDER_ROLES.map(({ role, label }) => <option key={role} value={role}>{label}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <select className={inputClass} value={holder.shareClassId} onChange={(e) => updateHolder(holder.id, { shareClassId: e.target.value })}>
+                    {capTable.shareClasses.map(shareClass => <option key={shareClass.id} value={shareClass.id}>{shareClass.name}</option>)}
+                  </select>
+                </td>
+                <td className="px-2 py-2">
+                  <input type="number" min="0" className={inputClass} value={holder.shares} onChange={(e) => updateHolder(holder.id, { shares: Number(e.target.value) })} />
+                </td>
+                <td className="px-2 py-2 text-right font-medium text-slate-700">
+                  {ownership[index].percentage.toFixed(1)}%
+                </td>
+                <td className="px-2 py-2 text-right">
+                  <button onClick={() => removeHolder(holder.id)} className="text-slate-400 hover:text-red-600" title="Remove shareholder">
+                    <Trash2 size={16} />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="border-t border-slate-200 font-semibold text-slate-700">
+            <tr>
+              <td className="px-2 py-2" colSpan={3}>Fully diluted shares</td>
+              <td className="px-2 py-2">{totalShares(capTable).toLocaleString()}</td>
+              <td className="px-2 py-2 text-right">100%</td>
+              <td></td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between mt-6 mb-3">
+        <h4 className="font-semibold text-slate-700">SAFEs &amp; Convertible Notes</h4>
+        <div className="flex gap-2">
+          <button
+            onClick={() => addConvertible('postMoneySafe')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> SAFE
+          </button>
+          <button
+            onClick={() => addConvertible('note')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Note
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Outstanding instruments convert into the next priced round at the lower of the cap price and the discounted round
+        price. A cap of 0 means uncapped; notes also convert their accrued interest.
+      </p>
+
+      {convertibles.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No SAFEs or notes outstanding.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Instrument</th>
+                <th className="px-2 py-2">Type</th>
+                <th className="px-2 py-2">Amount</th>
+                <th className="px-2 py-2">Valuation Cap</th>
+                <th className="px-2 py-2">Discount (%)</th>
+                <th className="px-2 py-2">Interest (%)</th>
+                <th className="px-2 py-2">Issued</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {convertibles.map(instrument => (
+                <tr key={instrument.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={instrument.name} onChange={(e) => updateConvertible(instrument.id, { name: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select className={inputClass} value={instrument.kind} onChange={(e) => updateConvertible(instrument.id, { kind: e.target.value as ConvertibleKind })}>
+                      {CONVERTIBLE_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={instrument.amount} onChange={(e) => updateConvertible(instrument.id, { amount: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={instrument.valuationCap} onChange={(e) => updateConvertible(instrument.id, { valuationCap: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    {percentInput(instrument.discount, (discount) => updateConvertible(instrument.id, { discount }))}
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    {percentInput(instrument.annualInterestRate, (annualInterestRate) => updateConvertible(instrument.id, { annualInterestRate }), instrument.kind !== 'note')}
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="month" className={inputClass} value={instrument.issueMonth} onChange={(e) => updateConvertible(instrument.id, { issueMonth: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => removeConvertible(instrument.id)} className="text-slate-400 hover:text-red-600" title="Remove instrument">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapTableEditor;
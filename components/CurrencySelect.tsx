@@ -0,0 +1,28 @@
+import React from 'react';
+import { ProjectionDrivers } from '../types';
+import { DEFAULT_CURRENCY, knownCurrencies } from '../services/currencyService';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  value?: string;
+  className: string;
+  onChange: (currency: string | undefined) => void;
+}
+
+// Currency a driver line is entered in; picking the model currency clears it so the line follows the model
+const CurrencySelect: React.FC<Props> = ({ drivers, value, className, onChange }) => {
+  const modelCurrency = drivers.currency || DEFAULT_CURRENCY;
+  const currencies = knownCurrencies([modelCurrency, ...(value ? [value] : [])], drivers.fxRates);
+
+  return (
+    <select
+      className={className}
+      value={value || modelCurrency}
+      onChange={(e) => onChange(e.target.value === modelCurrency ? undefined : e.target.value)}
+    >
+      {currencies.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+    </select>
+  );
+};
+
+export default CurrencySelect;
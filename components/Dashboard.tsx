@@ -1,28 +1,58 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { 
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   BarChart, Bar, Legend, ComposedChart, Line
 } from 'recharts';
-import { ScenarioData, BenchmarkData } from '../types';
-import { TrendingUp, TrendingDown, AlertCircle, CheckCircle2, Search, HelpCircle, BookOpen, Download, FileText, BarChart3, DollarSign, Target, TrendingUp as Growth } from 'lucide-react';
-import { analyzeRatios } from '../services/geminiService';
+import { ActualPeriod, CachedAnalysis, ChatMessage, ScenarioData, BenchmarkData, PeriodFinancials, ProjectionDrivers, UserInput } from '../types';
+import { TrendingUp, TrendingDown, AlertCircle, CheckCircle2, Search, HelpCircle, BookOpen, Download, FileText, BarChart3, DollarSign, Target, RefreshCw, TrendingUp as Growth } from 'lucide-react';
+import { ANALYSIS_UNAVAILABLE, analyzeRatios, proposeReforecastDrivers } from '../services/geminiService';
 import { exportToCSV, exportToJSON } from '../services/exportService';
 import { generatePDFReport } from '../services/pdfService';
-import { calculateFinancialRatios } from '../services/ratiosService';
+import { calculateFinancialRatios, calculateRevenueCagr } from '../services/ratiosService';
 import { performSensitivityAnalysis } from '../services/sensitivityService';
 import { calculateValuation } from '../services/valuationService';
 import { calculateBreakEven } from '../services/breakEvenService';
-import { calculateFundingRequirements } from '../services/fundingService';
+import { calculateFundingRequirements, compareDebtVsEquity } from '../services/fundingService';
 import { analyzeBudget, BudgetBreakdown } from '../services/budgetService';
 import { getIndustryBenchmarks, compareToMarket } from '../services/marketBenchmarks';
 import { validateFinancialModel } from '../services/validationService';
 import { UserInputs } from '../services/scenarioGenerator';
+import { getMonthlyProjections, recalculateScenario, rollUpToQuarters } from '../services/projectionEngine';
+import { collectStreamNames, streamGrossMargin } from '../services/revenueStreamService';
+import { OPEX_CATEGORIES } from '../services/opexService';
+import { createDefaultCapTable, HolderOwnership, ownershipOf } from '../services/capTableService';
+import { DEFAULT_CURRENCY, convertScenario, exchangeRate, formatMoney } from '../services/currencyService';
+import { homeInflationRate, realTermsScenario } from '../services/inflationService';
+import { sanitizeActuals } from '../services/varianceService';
+import { selectedBurn } from '../services/bankStatementService';
+import { latestActualMonth, rebaseDrivers, rollForward } from '../services/rollingForecastService';
+import { scenarioFingerprint } from '../services/workspaceService';
 import FinancialChatbot from './FinancialChatbot';
+import DriverEditor from './DriverEditor';
+import HeadcountPlanner from './HeadcountPlanner';
+import RevenueStreamsEditor from './RevenueStreamsEditor';
+import OpexLinesEditor from './OpexLinesEditor';
+import FixedAssetsEditor from './FixedAssetsEditor';
+import DebtEditor from './DebtEditor';
+import CapTableEditor from './CapTableEditor';
+import EsopEditor from './EsopEditor';
+import FxRatesEditor from './FxRatesEditor';
+import InflationEditor from './InflationEditor';
+import SeasonalityEditor from './SeasonalityEditor';
+import ActualsTracker from './ActualsTracker';
+import FinancialStatements from './FinancialStatements';
 
 interface Props {
   scenarios: ScenarioData[];
   benchmarkData?: BenchmarkData;
   userInput: UserInputs | null;
+  onScenariosChange?: (scenarios: ScenarioData[]) => void;
+  onUserInputChange?: (userInput: UserInput) => void;
+  aiAnalysis?: Record<string, CachedAnalysis>; // Saved commentary, reused while a scenario's figures are unchanged
+  onAiAnalysisChange?: (scenarioName: string, analysis: CachedAnalysis) => void;
+  chatHistory?: ChatMessage[];
+  onChatHistoryChange?: (messages: ChatMessage[]) => void;
+  onSaveVersion?: (note: string) => void; // Keeps the numbers on screen as a version before an operation replaces them
 }
 
 // Helper component for tooltips
@@ -33,10 +63,20 @@ const MetricWithTooltip: React.FC<{ label: string; tooltip: string; className?:
   </span>
 );
 
-const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) => {
+// Placeholder while the ratio analysis is on its way
+const ANALYZING_MESSAGE = 'Analyzing scenario metrics...';
+
+const STREAM_COLORS = ['#3b82f6', '#06b6d4', '#8b5cf6', '#f97316', '#84cc16', '#e11d48'];
+
+const Dashboard: React.FC<Props> = ({
+  scenarios, benchmarkData, userInput, onScenariosChange, onUserInputChange, aiAnalysis: savedAnalysis, onAiAnalysisChange, chatHistory, onChatHistoryChange,
+  onSaveVersion
+}) => {
   const [activeScenarioIdx, setActiveScenarioIdx] = useState(0);
   const [aiAnalysis, setAiAnalysis] = useState<string>("");
-  const [viewMode, setViewMode] = useState<'annual' | 'quarterly'>('annual');
+  const [analysisFingerprint, setAnalysisFingerprint] = useState<string | undefined>(undefined);
+  const [analysisRequest, setAnalysisRequest] = useState(0);
+  const [viewMode, setViewMode] = useState<'annual' | 'quarterly' | 'monthly'>('annual');
   const [showSensitivity, setShowSensitivity] = useState(false);
   const [showValuation, setShowValuation] = useState(false);
   const [showBreakEven, setShowBreakEven] = useState(false);
@@ -52,6 +92,12 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
     }
   }, [userInput]);
   
+  // Latest scenarios and saved commentary, read by the analysis effect without every edit re-running it
+  const analysisInputs = useRef({ scenarios, savedAnalysis, onAiAnalysisChange });
+  useEffect(() => {
+    analysisInputs.current = { scenarios, savedAnalysis, onAiAnalysisChange };
+  });
+  
   // Safety check for scenarios
   if (!scenarios || !Array.isArray(scenarios) || scenarios.length === 0) {
     return (
@@ -66,48 +112,128 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
   
   const activeScenario = scenarios[activeScenarioIdx] || scenarios[0];
 
-  // Dynamic currency formatter based on user's locale choice
-  const formatCurrency = (val: number) => {
-    try {
-      return new Intl.NumberFormat(undefined, { 
-        style: 'currency', 
-        currency: userInput?.currency || 'INR', 
-        maximumFractionDigits: 0,
-        notation: "compact" 
-      }).format(val);
-    } catch (e) {
-      // Fallback if locale/currency combo is invalid
-      return `$${(val/1000).toFixed(1)}k`;
-    }
+  // Projection views are nominal unless the founder switches them to year-1 prices; analyses always run on nominal figures
+  const homeCountry = userInput?.country || 'India';
+  const realTerms = !!userInput?.realTerms;
+  const shownScenario = realTerms ? realTermsScenario(activeScenario, homeCountry) : activeScenario;
+
+  // Chart periods for the selected granularity; quarters and years are rolled up from months
+  const monthlyProjections = getMonthlyProjections(shownScenario);
+  const periodData = viewMode === 'annual' ?
+    shownScenario.projections.map(p => ({ ...p, label: `Year ${p.year}` })) :
+    viewMode === 'quarterly' ?
+      rollUpToQuarters(monthlyProjections) :
+      monthlyProjections.map(m => ({ ...m, label: m.period }));
+
+  // Revenue is stacked by stream when the scenario has named streams
+  const streamNames = collectStreamNames(shownScenario.projections);
+
+  // Headcount charts only apply once the scenario has a headcount plan
+  const monthsPerPeriod = viewMode === 'annual' ? 12 : viewMode === 'quarterly' ? 3 : 1;
+  const headcountData = monthlyProjections[0]?.headcount === undefined ? [] : periodData.map(p => ({
+    label: p.label,
+    headcount: p.headcount ?? 0,
+    costPerHead: p.headcount ? ((p.payroll ?? 0) * 12) / monthsPerPeriod / p.headcount : 0
+  }));
+
+  const handleDriverChange = (changes: Partial<ProjectionDrivers>) => {
+    if (!onScenariosChange) return;
+    onScenariosChange(scenarios.map(s => s === activeScenario ? recalculateScenario(s, changes) : s));
+  };
+
+  // Actuals belong to the scenario they are tracked against
+  // Once rolled forward, corrected actuals flow straight into the locked months
+  const handleActualsChange = (actuals: ActualPeriod[]) => {
+    if (!onScenariosChange) return;
+    onScenariosChange(scenarios.map(s => {
+      if (s !== activeScenario) return s;
+      const updated = { ...s, actuals: sanitizeActuals(actuals) };
+      return updated.rollingForecast ? recalculateScenario(updated, {}) : updated;
+    }));
+  };
+
+  // An import can overwrite months already entered, so the numbers before it are kept as a version
+  const handleActualsImport = (actuals: ActualPeriod[]) => {
+    onSaveVersion?.(`Before importing actuals into ${activeScenario.name}`);
+    handleActualsChange(actuals);
+  };
+
+  // Locks the months with actuals and re-projects the rest, optionally with growth and margin revised by the AI
+  const handleRollForward = async (useAI: boolean) => {
+    if (!onScenariosChange) return;
+    const closedThrough = latestActualMonth(activeScenario);
+    const rebased = closedThrough ? rebaseDrivers(activeScenario, closedThrough) : undefined;
+    if (!rebased) return;
+    const revisions = useAI ? await proposeReforecastDrivers(activeScenario, rebased, modelCurrency) : {};
+    onSaveVersion?.(`Before rolling ${activeScenario.name} forward to ${closedThrough}`);
+    onScenariosChange(scenarios.map(s => s === activeScenario ? rollForward(s, revisions) : s));
   };
 
+  // Currency, FX, inflation and seasonality settings describe the whole model, so they change in every scenario at once
+  const handleModelChange = (changes: Partial<ProjectionDrivers>) => {
+    if (!onScenariosChange) return;
+    onScenariosChange(scenarios.map(s => recalculateScenario(s, changes)));
+  };
+
+  // Figures are computed in the model currency and restated in the reporting currency as they are rendered
+  const modelCurrency = activeScenario.drivers?.currency || userInput?.currency || DEFAULT_CURRENCY;
+  const reportingCurrency = userInput?.reportingCurrency || modelCurrency;
+  const fxRates = activeScenario.drivers?.fxRates || [];
+  const reportingRate = (scenario: ScenarioData) =>
+    exchangeRate(scenario.drivers?.currency || modelCurrency, reportingCurrency, scenario.drivers?.fxRates || fxRates);
+
+  const formatRatio = (val: number | null, suffix: 'x' | '%') =>
+    val === null ? 'N/A' : suffix === 'x' ? `${val.toFixed(2)}x` : `${val.toFixed(1)}%`;
+
+  const formatCurrency = (val: number) =>
+    formatMoney(val * reportingRate(activeScenario), reportingCurrency, { compact: true });
+
+  const reportingScenarios = () => scenarios.map(s => convertScenario(s, reportingRate(s)));
+
   // Quick Ratio Analysis Effect
+  // The paid AI call runs when the active scenario changes or on refresh; edits only re-run the local engine
   useEffect(() => {
+    const { scenarios, savedAnalysis, onAiAnalysisChange } = analysisInputs.current;
+    const activeScenario = scenarios[activeScenarioIdx] || scenarios[0];
     if (!activeScenario || !activeScenario.projections) return;
     
+    // Commentary saved with the model is reused until the scenario's figures change
+    const fingerprint = scenarioFingerprint(activeScenario);
+    const saved = savedAnalysis?.[activeScenario.name];
+    if (saved?.fingerprint === fingerprint) {
+      setAiAnalysis(saved.text);
+      setAnalysisFingerprint(fingerprint);
+      return;
+    }
+
     let isMounted = true;
     const fetchAnalysis = async () => {
-        setAiAnalysis("Analyzing scenario metrics...");
-        const text = await analyzeRatios(activeScenario, userInput?.currency || 'INR');
-        if(isMounted) setAiAnalysis(text);
+        setAiAnalysis(ANALYZING_MESSAGE);
+        const text = await analyzeRatios(activeScenario, modelCurrency);
+        if (!isMounted) return;
+        setAiAnalysis(text);
+        setAnalysisFingerprint(text === ANALYSIS_UNAVAILABLE ? undefined : fingerprint);
+        if (text !== ANALYSIS_UNAVAILABLE) onAiAnalysisChange?.(activeScenario.name, { fingerprint, text });
     }
     fetchAnalysis();
     return () => { isMounted = false; };
-  }, [activeScenarioIdx, scenarios, userInput, activeScenario]);
+  }, [activeScenarioIdx, analysisRequest, modelCurrency]);
+
+  // Figures edited since the analysis was written; the founder refreshes it when ready
+  const analysisStale = analysisFingerprint !== scenarioFingerprint(activeScenario);
 
   const kpis = useMemo(() => {
-    if (!activeScenario?.projections || activeScenario.projections.length === 0) {
+    if (!shownScenario?.projections || shownScenario.projections.length === 0) {
       return [];
     }
     
-    const lastYear = activeScenario.projections[activeScenario.projections.length - 1];
-    const firstYear = activeScenario.projections[0];
-    const cagr = ((Math.pow(lastYear.revenue / firstYear.revenue, 1/3) - 1) * 100).toFixed(1);
+    const lastYear = shownScenario.projections[shownScenario.projections.length - 1];
+    const cagr = calculateRevenueCagr(shownScenario.projections).toFixed(1);
     const netMargin = ((lastYear.netIncome / lastYear.revenue) * 100).toFixed(1);
     
     return [
       { 
-        label: "Year 3 Revenue", 
+        label: `Year ${lastYear.year} Revenue`, 
         fullForm: "Total projected income in the final year",
         value: formatCurrency(lastYear.revenue), 
         icon: TrendingUp, 
@@ -115,7 +241,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         bg: "bg-emerald-100" 
       },
       { 
-        label: "3-Year CAGR", 
+        label: `${shownScenario.projections.length}-Year CAGR${realTerms ? ' (real)' : ''}`, 
         fullForm: "Compound Annual Growth Rate - The smooth average growth rate per year",
         value: `${cagr}%`, 
         icon: BarChart, 
@@ -123,7 +249,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         bg: "bg-blue-100" 
       },
       { 
-        label: "Net Margin (Y3)", 
+        label: `Net Margin (Y${lastYear.year})`, 
         fullForm: "Net Profit Margin - Percentage of revenue kept as profit",
         value: `${netMargin}%`, 
         icon: CheckCircle2, 
@@ -131,15 +257,15 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         bg: "bg-indigo-100" 
       },
       { 
-        label: "Cash Position (Y3)", 
-        fullForm: "Total cash in bank estimated at the end of Year 3",
+        label: `Cash Position (Y${lastYear.year})`, 
+        fullForm: `Total cash in bank estimated at the end of Year ${lastYear.year}`,
         value: formatCurrency(lastYear.cashBalance), 
         icon: TrendingUp, 
         color: "text-amber-600", 
         bg: "bg-amber-100" 
       }
     ];
-  }, [activeScenario, userInput]); // Re-calc if currency/locale changes
+  }, [shownScenario, realTerms, userInput]); // Re-calc if currency/locale changes
 
   return (
     <div className="space-y-8 animate-fade-in">
@@ -190,14 +316,19 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         <div className="flex items-center gap-3">
           <div className="flex gap-2">
             <button
-              onClick={() => exportToCSV(scenarios)}
+              onClick={() => exportToCSV(reportingScenarios(), reportingCurrency)}
               className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
             >
               <Download size={16} />
               CSV
             </button>
             <button
-              onClick={() => exportToJSON(scenarios, { currency: userInput?.currency || 'INR', exportDate: new Date().toISOString() })}
+              onClick={() => exportToJSON(reportingScenarios(), {
+                currency: reportingCurrency,
+                modelCurrency,
+                fxRates,
+                exportDate: new Date().toISOString()
+              })}
               className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
             >
               <Download size={16} />
@@ -210,13 +341,15 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
                     // Convert UserInputs to UserInput format for PDF service
                     const userInputsForPDF = {
                       companyName: userInput.companyName,
-                      currency: userInput.currency || 'INR',
+                      currency: modelCurrency,
+                      reportingCurrency,
                       currentRevenue: userInput.currentRevenue,
                       currentExpenses: userInput.currentExpenses,
                       currentCash: userInput.currentCash,
                       industry: userInput.industry,
                       country: userInput.country,
-                      businessContext: userInput.businessContext
+                      businessContext: userInput.businessContext,
+                      projectionYears: userInput.projectionYears
                     };
                     await generatePDFReport(scenarios, userInputsForPDF, userInput.currentCash);
                   } catch (e) {
@@ -264,7 +397,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         
         {/* Market Comparison with Scenario Context */}
         {(() => {
-          const marketComparison = compareToMarket(activeScenario, selectedIndustry);
+          const marketComparison = compareToMarket(activeScenario, selectedIndustry, realTerms ? homeInflationRate(activeScenario.drivers, homeCountry) : undefined);
           const benchmarks = getIndustryBenchmarks(selectedIndustry);
           const scenarioName = activeScenario.name;
           const scenarioDesc = activeScenario.description;
@@ -327,7 +460,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
                     </span>
                   </div>
                   <div className="text-lg font-bold text-slate-800">{marketComparison.revenueGrowth.value.toFixed(1)}%</div>
-                  <div className="text-xs text-slate-500">Industry: {benchmarks.metrics.revenueGrowth.avg}%</div>
+                  <div className="text-xs text-slate-500">Industry: {Number(marketComparison.revenueGrowth.industryAverage.toFixed(1))}%</div>
                   <div className="text-xs text-blue-600 mt-1">{marketComparison.revenueGrowth.context}</div>
                 </div>
               </div>
@@ -341,7 +474,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
           <h3 className="text-lg font-bold text-slate-800 mb-4">Financial Model Validation</h3>
           {(() => {
-            const validation = validateFinancialModel(activeScenario, selectedIndustry);
+            const validation = validateFinancialModel(activeScenario, selectedIndustry, userInput?.history);
             const scenarioName = activeScenario.name;
             const scenarioType = scenarioName.toLowerCase().includes('optimistic') ? 'Optimistic' :
                                scenarioName.toLowerCase().includes('pessimistic') ? 'Pessimistic' : 'Base Case';
@@ -432,57 +565,134 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
       {/* Cost Breakdown Analysis */}
       <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
         <h3 className="text-lg font-bold text-slate-800 mb-4">Cost Breakdown Analysis</h3>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-          {(() => {
-            const annualCosts = {
-              totalExpenses: (userInput?.currentExpenses || 0) * 12,
-              cogs: activeScenario.projections[0].cogs,
-              opex: activeScenario.projections[0].opex,
-              grossProfit: activeScenario.projections[0].grossProfit
-            };
-            
-            return [
-              { label: 'Total Annual Costs', value: formatCurrency(annualCosts.totalExpenses), color: 'text-red-600' },
-              { label: 'COGS', value: formatCurrency(annualCosts.cogs), color: 'text-orange-600' },
-              { label: 'Operating Expenses', value: formatCurrency(annualCosts.opex), color: 'text-blue-600' },
-              { label: 'Gross Profit', value: formatCurrency(annualCosts.grossProfit), color: 'text-green-600' }
-            ].map((item, index) => (
-              <div key={index} className="text-center p-4 bg-slate-50 rounded-lg">
-                <p className="text-sm text-slate-600 mb-1">{item.label}</p>
-                <p className={`text-xl font-bold ${item.color}`}>{item.value}</p>
+        {(() => {
+          // Year 1 of the projection, so the split reflects the model rather than a guess from the inputs
+          const year1 = activeScenario.projections[0];
+          const revenue = year1.revenue || 1;
+          const breakdown = year1.opexBreakdown;
+
+          return (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: 'Total Annual Costs', value: formatCurrency(year1.cogs + year1.opex), color: 'text-red-600' },
+                  { label: 'COGS', value: formatCurrency(year1.cogs), color: 'text-orange-600' },
+                  { label: 'Operating Expenses', value: formatCurrency(year1.opex), color: 'text-blue-600' },
+                  { label: 'Gross Profit', value: formatCurrency(year1.grossProfit), color: 'text-green-600' }
+                ].map((item, index) => (
+                  <div key={index} className="text-center p-4 bg-slate-50 rounded-lg">
+                    <p className="text-sm text-slate-600 mb-1">{item.label}</p>
+                    <p className={`text-xl font-bold ${item.color}`}>{item.value}</p>
+                  </div>
+                ))}
               </div>
-            ));
-          })()}
-        </div>
-        
-        <h4 className="text-md font-semibold text-slate-700 mb-3">Cost Efficiency Ratios</h4>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {(() => {
-            const revenue = userInput?.currentRevenue || 1;
-            const annualCosts = {
-              cogs: activeScenario.projections[0].cogs,
-              opex: activeScenario.projections[0].opex,
-              grossProfit: activeScenario.projections[0].grossProfit
-            };
-            
-            const cogsRatio = (annualCosts.cogs / revenue * 100).toFixed(1);
-            const opexRatio = (annualCosts.opex / revenue * 100).toFixed(1);
-            const grossMargin = (annualCosts.grossProfit / revenue * 100).toFixed(1);
-            
-            return [
-              { label: 'COGS Ratio', value: `${cogsRatio}%`, color: 'text-orange-600' },
-              { label: 'OpEx Ratio', value: `${opexRatio}%`, color: 'text-blue-600' },
-              { label: 'Gross Margin', value: `${grossMargin}%`, color: 'text-green-600' }
-            ].map((item, index) => (
-              <div key={index} className="text-center p-4 bg-slate-50 rounded-lg">
-                <p className="text-sm text-slate-600 mb-1">{item.label}</p>
-                <p className={`text-xl font-bold ${item.color}`}>{item.value}</p>
+
+              {breakdown && (
+                <>
+                  <h4 className="text-md font-semibold text-slate-700 mb-3">Operating Expenses by Category (Year 1)</h4>
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6">
+                    {OPEX_CATEGORIES.map(({ category, label }) => (
+                      <div key={category} className="text-center p-4 bg-slate-50 rounded-lg">
+                        <p className="text-sm text-slate-600 mb-1">{label}</p>
+                        <p className="text-lg font-bold text-slate-800">{formatCurrency(breakdown[category])}</p>
+                        <p className="text-xs text-slate-500">{((breakdown[category] / revenue) * 100).toFixed(1)}% of revenue</p>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              <h4 className="text-md font-semibold text-slate-700 mb-3">Cost Efficiency Ratios</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {[
+                  { label: 'COGS Ratio', value: `${(year1.cogs / revenue * 100).toFixed(1)}%`, color: 'text-orange-600' },
+                  { label: 'OpEx Ratio', value: `${(year1.opex / revenue * 100).toFixed(1)}%`, color: 'text-blue-600' },
+                  { label: 'Gross Margin', value: `${(year1.grossProfit / revenue * 100).toFixed(1)}%`, color: 'text-green-600' }
+                ].map((item, index) => (
+                  <div key={index} className="text-center p-4 bg-slate-50 rounded-lg">
+                    <p className="text-sm text-slate-600 mb-1">{item.label}</p>
+                    <p className={`text-xl font-bold ${item.color}`}>{item.value}</p>
+                  </div>
+                ))}
               </div>
-            ));
-          })()}
-        </div>
+            </>
+          );
+        })()}
       </div>
 
+      {/* Projection Drivers */}
+      {activeScenario.drivers && onScenariosChange && (
+        <FxRatesEditor
+          drivers={activeScenario.drivers}
+          reportingCurrency={reportingCurrency}
+          onChange={handleModelChange}
+          onReportingCurrencyChange={(currency) => userInput && onUserInputChange?.({ ...userInput, reportingCurrency: currency })}
+        />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <InflationEditor drivers={activeScenario.drivers} defaultCountry={homeCountry} onChange={handleModelChange} />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <SeasonalityEditor drivers={activeScenario.drivers} industry={userInput?.industry || selectedIndustry} onChange={handleModelChange} />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <DriverEditor drivers={activeScenario.drivers} onChange={handleDriverChange} />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <RevenueStreamsEditor drivers={activeScenario.drivers} onChange={handleDriverChange} />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <OpexLinesEditor drivers={activeScenario.drivers} onChange={handleDriverChange} />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <HeadcountPlanner
+          drivers={activeScenario.drivers}
+          defaultStartMonth={monthlyProjections[0]?.period}
+          homeCountry={userInput?.country || 'India'}
+          formatCurrency={formatCurrency}
+          onChange={(headcount) => handleDriverChange({ headcount })}
+        />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <FixedAssetsEditor
+          drivers={activeScenario.drivers}
+          defaultPurchaseMonth={monthlyProjections[0]?.period}
+          onChange={handleDriverChange}
+        />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <DebtEditor
+          drivers={activeScenario.drivers}
+          defaultStartMonth={monthlyProjections[0]?.period}
+          onChange={handleDriverChange}
+        />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <CapTableEditor
+          drivers={activeScenario.drivers}
+          defaultIssueMonth={monthlyProjections[0]?.period}
+          onChange={handleDriverChange}
+        />
+      )}
+      {activeScenario.drivers && onScenariosChange && (
+        <EsopEditor
+          drivers={activeScenario.drivers}
+          defaultGrantMonth={monthlyProjections[0]?.period}
+          formatCurrency={formatCurrency}
+          onChange={handleDriverChange}
+        />
+      )}
+      {onScenariosChange && (
+        <ActualsTracker
+          scenario={activeScenario}
+          currency={modelCurrency}
+          formatCurrency={formatCurrency}
+          onChange={handleActualsChange}
+          onImport={handleActualsImport}
+          onRollForward={handleRollForward}
+        />
+      )}
+
       {/* Advanced Analytics Toggles */}
       <div className="flex flex-wrap gap-3 mb-6">
         <button
@@ -559,6 +769,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
               const valuation = calculateValuation(activeScenario, { 
                 wacc: 0.12, 
                 terminalGrowthRate: 0.025,
+                country: userInput?.country,
                 industryMultiples: {
                   revenue: benchmarks.valuation.revenueMultiple.avg,
                   ebitda: benchmarks.valuation.ebitdaMultiple.avg,
@@ -604,14 +815,25 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
       {showBreakEven && (
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
           <h3 className="text-lg font-bold text-slate-800 mb-4">Break-Even Analysis</h3>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {(() => {
-              const breakEven = calculateBreakEven(activeScenario, { pricePerUnit: 100, variableCostPerUnit: 40 });
+              const breakEven = calculateBreakEven(activeScenario, { pricePerUnit: 100, variableCostPerUnit: 40, measuredBurn: userInput?.measuredBurn });
+              const measured = userInput?.measuredBurn ? selectedBurn(userInput.measuredBurn) : undefined;
               return [
                 { label: 'Break-Even Revenue', value: formatCurrency(breakEven.breakEvenRevenue), color: 'text-orange-600' },
                 { label: 'Margin of Safety', value: `${breakEven.marginOfSafety.toFixed(1)}%`, color: 'text-green-600' },
-                { label: 'Monthly Burn Rate', value: formatCurrency(breakEven.burnRate), color: 'text-red-600' },
-                { label: 'Cash Runway', value: `${Math.min(breakEven.runway.months, 99).toFixed(0)} months`, color: 'text-blue-600' }
+                { label: breakEven.runwayFromStatements ? 'Monthly Burn Rate (bank)' : 'Monthly Burn Rate', value: formatCurrency(breakEven.burnRate), color: 'text-red-600' },
+                { label: breakEven.runwayFromStatements ? 'Cash Runway (at actual burn)' : 'Cash Runway', value: `${Math.min(breakEven.runway.months, 99).toFixed(0)} months`, color: 'text-blue-600' },
+                { label: 'Cash Runs Out', value: breakEven.runway.zeroCashPeriod || 'Not within projection', color: 'text-red-600' },
+                ...(breakEven.runway.lowPoint ? [{
+                  label: `Cash Low Point (${breakEven.runway.lowPoint.period})`,
+                  value: formatCurrency(breakEven.runway.lowPoint.cashBalance),
+                  color: breakEven.runway.lowPoint.cashBalance < 0 ? 'text-red-600' : 'text-slate-700'
+                }] : []),
+                { label: 'EBITDA Break-Even', value: breakEven.breakEvenPeriod || 'Not within projection', color: 'text-green-600' },
+                ...(measured && breakEven.runwayFromStatements ? [
+                  { label: `Net Burn (bank, ${measured.months}-month avg)`, value: formatCurrency(measured.netBurn), color: measured.netBurn > 0 ? 'text-red-600' : 'text-green-600' }
+                ] : [])
               ].map((item, index) => (
                 <div key={index} className="text-center p-4 bg-slate-50 rounded-lg">
                   <p className="text-sm text-slate-600 mb-1">{item.label}</p>
@@ -807,17 +1029,31 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
                       <span className="font-semibold">{formatCurrency(funding.totalFundingNeeded)}</span>
                     </div>
                     <div className="flex justify-between">
-                      <span className="text-slate-600">ROI Projection:</span>
-                      <span className="font-semibold text-green-600">{funding.roiProjection.toFixed(1)}%</span>
+                      <span className="text-slate-600">Investor ROI at Exit:</span>
+                      <span className={`font-semibold ${funding.roiProjection >= 0 ? 'text-green-600' : 'text-red-600'}`}>{funding.roiProjection.toFixed(1)}%</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">MOIC:</span>
+                      <span className="font-semibold">{funding.moic.toFixed(2)}x</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-slate-600">Payback Period:</span>
-                      <span className="font-semibold">{funding.paybackPeriod} years</span>
+                      <span className="font-semibold">{funding.paybackMonths === null ? 'Beyond projection' : `${funding.paybackMonths.toFixed(1)} months`}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-slate-600">IRR:</span>
-                      <span className="font-semibold text-blue-600">{funding.irr.toFixed(1)}%</span>
+                      <span className="font-semibold text-blue-600">{funding.irr === null ? 'n/a' : `${funding.irr.toFixed(1)}%`}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-600">Cumulative Dilution:</span>
+                      <span className="font-semibold text-orange-600">{funding.dilution.toFixed(1)}%</span>
                     </div>
+                    {funding.conversionDilution > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">From SAFE / Note Conversions:</span>
+                        <span className="font-semibold text-orange-600">{funding.conversionDilution.toFixed(1)}%</span>
+                      </div>
+                    )}
                   </div>
                 );
               })()}
@@ -837,6 +1073,22 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
                         <div className="text-sm text-slate-600 mt-1">
                           Amount: {formatCurrency(round.amount)} | Dilution: {round.dilution.toFixed(1)}%
                         </div>
+                        <div className="text-sm text-slate-600">
+                          Pre-money: {formatCurrency(round.valuation)} | Post-money: {formatCurrency(round.postMoneyValuation)}
+                        </div>
+                        <div className="text-sm text-slate-600">
+                          Price per share: {formatCurrency(round.pricePerShare)} | New shares: {Math.round(round.sharesIssued).toLocaleString()}
+                        </div>
+                        {round.poolTopUpShares > 0 && (
+                          <div className="text-sm text-orange-700">
+                            Option pool top-up: {Math.round(round.poolTopUpShares).toLocaleString()} shares ({round.poolTopUpDilution.toFixed(1)}%)
+                          </div>
+                        )}
+                        {round.conversions.map(conversion => (
+                          <div key={conversion.instrumentId} className="text-sm text-purple-700">
+                            {conversion.name} converts {formatCurrency(conversion.amountConverted)} at {formatCurrency(conversion.conversionPrice)}/share: {conversion.percentage.toFixed(1)}%
+                          </div>
+                        ))}
                       </div>
                     ))}
                   </div>
@@ -846,12 +1098,89 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
               })()}
             </div>
           </div>
+
+          {(() => {
+            const funding = calculateFundingRequirements(activeScenario, { currentValuation: 5000000 });
+            if (funding.recommendedFundingRounds.length === 0) return null;
+            const finalOwnership = funding.recommendedFundingRounds[funding.recommendedFundingRounds.length - 1].ownership;
+            const today = ownershipOf(activeScenario.drivers?.capTable || createDefaultCapTable());
+            const formatStake = (ownership: HolderOwnership[], holderId: string) => {
+              const stake = ownership.find(holder => holder.holderId === holderId);
+              return stake ? `${stake.percentage.toFixed(1)}%` : '-';
+            };
+            return (
+              <div className="mt-6">
+                <h4 className="font-semibold text-slate-700 mb-3">Ownership by Round</h4>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+                      <tr>
+                        <th className="px-3 py-2">Shareholder</th>
+                        <th className="px-3 py-2 text-right">Today</th>
+                        {funding.recommendedFundingRounds.map(round => <th key={round.round} className="px-3 py-2 text-right">After {round.round}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {finalOwnership.map(holder => (
+                        <tr key={holder.holderId}>
+                          <td className="px-3 py-2 font-medium text-slate-700">{holder.name}</td>
+                          <td className="px-3 py-2 text-right">{formatStake(today, holder.holderId)}</td>
+                          {funding.recommendedFundingRounds.map(round => (
+                            <td key={round.round} className="px-3 py-2 text-right">{formatStake(round.ownership, holder.holderId)}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })()}
+
+          {(activeScenario.drivers?.debt || []).length > 0 && (
+            <div className="mt-6">
+              <h4 className="font-semibold text-slate-700 mb-3">Debt vs Equity</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(activeScenario.drivers?.debt || []).map(facility => {
+                  const comparison = compareDebtVsEquity(activeScenario, facility.id, 5000000);
+                  if (!comparison) return null;
+                  const formatRunway = (months: number) => months >= 999 ? 'Cash never runs out' : `${months} months`;
+                  return (
+                    <div key={facility.id} className="bg-slate-50 p-4 rounded-lg space-y-2 text-sm">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-slate-800">{facility.name}</span>
+                        <span className="text-slate-600">{formatCurrency(comparison.equityAmount)} vs equity</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Dilution avoided:</span>
+                        <span className="font-semibold text-green-600">{comparison.dilutionAvoided.toFixed(1)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Interest cost:</span>
+                        <span className="font-semibold text-red-600">{formatCurrency(comparison.interestCost)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Runway (debt / equity):</span>
+                        <span className="font-semibold">{formatRunway(comparison.debtRunway.months)} / {formatRunway(comparison.equityRunway.months)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-slate-600">Ending cash vs equity:</span>
+                        <span className={`font-semibold ${comparison.endingCashDifference < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {comparison.endingCashDifference < 0 ? '-' : '+'}{formatCurrency(Math.abs(comparison.endingCashDifference))}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
       {/* Financial Ratios Dashboard */}
       <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
-        <h3 className="text-lg font-bold text-slate-800 mb-4">Key Financial Ratios (Year 3)</h3>
+        <h3 className="text-lg font-bold text-slate-800 mb-4">Key Financial Ratios (Year {activeScenario.projections.length})</h3>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           {(() => {
             const ratios = calculateFinancialRatios(activeScenario);
@@ -859,7 +1188,11 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
               { label: 'Gross Margin', value: `${ratios.profitabilityRatios.grossMargin.toFixed(1)}%`, color: 'text-green-600' },
               { label: 'EBITDA Margin', value: `${ratios.profitabilityRatios.ebitdaMargin.toFixed(1)}%`, color: 'text-blue-600' },
               { label: 'Net Margin', value: `${ratios.profitabilityRatios.netMargin.toFixed(1)}%`, color: 'text-purple-600' },
-              { label: 'Revenue CAGR', value: `${ratios.growthRatios.revenueGrowth.toFixed(1)}%`, color: 'text-indigo-600' }
+              { label: 'Revenue CAGR', value: `${ratios.growthRatios.revenueGrowth.toFixed(1)}%`, color: 'text-indigo-600' },
+              { label: 'Current Ratio', value: formatRatio(ratios.liquidityRatios.currentRatio, 'x'), color: 'text-teal-600' },
+              { label: 'Cash Ratio', value: formatRatio(ratios.liquidityRatios.cashRatio, 'x'), color: 'text-teal-600' },
+              { label: 'Debt / Equity', value: formatRatio(ratios.leverageRatios.debtToEquity, 'x'), color: 'text-orange-600' },
+              { label: 'Return on Equity', value: formatRatio(ratios.profitabilityRatios.roe, '%'), color: 'text-pink-600' }
             ].map((ratio, index) => (
               <div key={index} className="text-center p-4 bg-slate-50 rounded-lg">
                 <p className="text-sm text-slate-600 mb-1">{ratio.label}</p>
@@ -894,6 +1227,15 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
                 <h4 className="text-lg font-bold text-slate-800">AI Risk & Strength Analysis</h4>
                 <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded-full font-medium">AI Insights</span>
               </div>
+              {analysisStale && aiAnalysis !== ANALYZING_MESSAGE && (
+                <button
+                  onClick={() => setAnalysisRequest(analysisRequest + 1)}
+                  className="ml-auto flex items-center gap-1 text-sm font-medium text-purple-600 hover:text-purple-700"
+                  title="The figures have changed since this analysis was written"
+                >
+                  <RefreshCw size={14} /> Refresh analysis
+                </button>
+              )}
             </div>
             
             {aiAnalysis ? (
@@ -976,31 +1318,59 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
       </div>
 
       {/* Charts */}
+      <div className="flex justify-end gap-3">
+        <div className="flex bg-slate-200 p-1 rounded-lg" title={`Real figures are in year-1 prices, deflated by ${homeCountry} inflation`}>
+          {([false, true] as const).map(real => (
+            <button
+              key={String(real)}
+              onClick={() => userInput && onUserInputChange?.({ ...userInput, realTerms: real })}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                realTerms === real ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {real ? 'Real' : 'Nominal'}
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-slate-200 p-1 rounded-lg">
+          {(['annual', 'quarterly', 'monthly'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setViewMode(mode)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium capitalize transition-all ${
+                viewMode === mode ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+      </div>
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         
         {/* P&L Composition */}
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm min-h-[400px]">
           <h4 className="text-lg font-bold text-slate-800 mb-6">
-            {viewMode === 'annual' ? 'Annual P&L Trajectory' : 'Quarterly Breakdown (Year 1)'}
+            {viewMode === 'annual' ? 'Annual P&L Trajectory' : viewMode === 'quarterly' ? 'Quarterly P&L Trajectory' : 'Monthly P&L Trajectory'}
           </h4>
           <ResponsiveContainer width="100%" height={300}>
-            <ComposedChart data={viewMode === 'annual' ? activeScenario.projections : 
-              Array.from({length: 4}, (_, i) => {
-                const yearData = activeScenario.projections[0];
-                return {
-                  year: `Q${i+1}`,
-                  revenue: yearData.revenue / 4,
-                  ebitda: yearData.ebitda / 4,
-                  netIncome: yearData.netIncome / 4
-                };
-              })
-            }>
+            <ComposedChart data={periodData}>
               <CartesianGrid strokeDasharray="3 3" vertical={false} />
-              <XAxis dataKey="year" />
+              <XAxis dataKey="label" />
               <YAxis tickFormatter={(val) => formatCurrency(val)} width={80} />
               <Tooltip formatter={(value: number) => formatCurrency(value)} />
               <Legend />
-              <Bar dataKey="revenue" name="Revenue" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              {streamNames.length > 0 ? streamNames.map((name, i) => (
+                <Bar
+                  key={name}
+                  stackId="revenue"
+                  dataKey={(p: PeriodFinancials) => p.revenueStreams?.find(line => line.name === name)?.revenue ?? 0}
+                  name={name}
+                  fill={STREAM_COLORS[i % STREAM_COLORS.length]}
+                />
+              )) : (
+                <Bar dataKey="revenue" name="Revenue" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+              )}
               <Line type="monotone" dataKey="ebitda" name="EBITDA" stroke="#10b981" strokeWidth={3} />
               <Line type="monotone" dataKey="netIncome" name="Net Income" stroke="#6366f1" strokeWidth={3} />
             </ComposedChart>
@@ -1011,7 +1381,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm min-h-[400px]">
           <h4 className="text-lg font-bold text-slate-800 mb-6">Cash Position & OpEx</h4>
           <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={activeScenario.projections}>
+            <AreaChart data={periodData}>
               <defs>
                 <linearGradient id="colorCash" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#f59e0b" stopOpacity={0.8}/>
@@ -1019,7 +1389,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
                 </linearGradient>
               </defs>
               <CartesianGrid strokeDasharray="3 3" vertical={false} />
-              <XAxis dataKey="year" />
+              <XAxis dataKey="label" />
               <YAxis tickFormatter={(val) => formatCurrency(val)} width={80} />
               <Tooltip formatter={(value: number) => formatCurrency(value)} />
               <Legend />
@@ -1031,17 +1401,35 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
 
       </div>
 
+      {headcountData.length > 0 && (
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm min-h-[400px]">
+          <h4 className="text-lg font-bold text-slate-800 mb-6">Headcount & Annualized Cost per Head</h4>
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={headcountData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" />
+              <YAxis yAxisId="people" allowDecimals={false} width={50} />
+              <YAxis yAxisId="cost" orientation="right" tickFormatter={(val) => formatCurrency(val)} width={80} />
+              <Tooltip formatter={(value: number, name: string) => name === 'Headcount' ? value : formatCurrency(value)} />
+              <Legend />
+              <Bar yAxisId="people" dataKey="headcount" name="Headcount" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+              <Line yAxisId="cost" type="monotone" dataKey="costPerHead" name="Cost per Head" stroke="#ec4899" strokeWidth={3} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
        {/* Detailed Table */}
        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
         <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
-          <h4 className="font-bold text-slate-700">Detailed Projections</h4>
+          <h4 className="font-bold text-slate-700">Detailed Projections{realTerms && ' (real, year-1 prices)'}</h4>
         </div>
         <div className="overflow-x-auto">
           <table className="w-full text-sm text-left">
             <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
               <tr>
                 <th className="px-6 py-3">Metric</th>
-                {activeScenario.projections.map(p => (
+                {shownScenario.projections.map(p => (
                   <th key={p.year} className="px-6 py-3 text-right">Year {p.year}</th>
                 ))}
               </tr>
@@ -1049,43 +1437,90 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
             <tbody className="divide-y divide-slate-100">
               <tr className="hover:bg-slate-50">
                 <td className="px-6 py-3 font-medium text-slate-900">Revenue</td>
-                {activeScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-slate-700">{formatCurrency(p.revenue)}</td>)}
+                {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-slate-700">{formatCurrency(p.revenue)}</td>)}
               </tr>
+              {streamNames.map(name => (
+                <tr key={name} className="hover:bg-slate-50">
+                  <td className="px-6 py-2 pl-10 text-slate-600">{name}</td>
+                  {shownScenario.projections.map(p => {
+                    const line = p.revenueStreams?.find(l => l.name === name);
+                    return (
+                      <td key={p.year} className="px-6 py-2 text-right text-slate-600">
+                        {line ? `${formatCurrency(line.revenue)} · GM ${streamGrossMargin(line).toFixed(0)}%` : '-'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
               <tr className="hover:bg-slate-50">
                 <td className="px-6 py-3 font-medium text-slate-900">
                   <MetricWithTooltip label="COGS" tooltip="Cost of Goods Sold - Direct costs attributable to the production of goods/services." />
                 </td>
-                {activeScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.cogs)})</td>)}
+                {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.cogs)})</td>)}
               </tr>
               <tr className="hover:bg-slate-50 bg-slate-50/50">
                 <td className="px-6 py-3 font-bold text-slate-900">
                    <MetricWithTooltip label="Gross Profit" tooltip="Revenue minus Cost of Goods Sold. Represents core efficiency." />
                 </td>
-                {activeScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right font-bold text-slate-900">{formatCurrency(p.grossProfit)}</td>)}
+                {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right font-bold text-slate-900">{formatCurrency(p.grossProfit)}</td>)}
               </tr>
               <tr className="hover:bg-slate-50">
                 <td className="px-6 py-3 font-medium text-slate-900">
                   <MetricWithTooltip label="OpEx" tooltip="Operating Expenses - Day-to-day costs like rent, marketing, and salaries." />
                 </td>
-                {activeScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.opex)})</td>)}
+                {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.opex)})</td>)}
               </tr>
+              {shownScenario.projections.some(p => p.stockBasedCompensation !== undefined) && (
+                <tr className="hover:bg-slate-50">
+                  <td className="px-6 py-3 pl-10 text-slate-600">
+                    <MetricWithTooltip label="of which Stock-Based Comp." tooltip="Option grants expensed over their vesting period. Included in OpEx, but non-cash and not tax-deductible until exercise." />
+                  </td>
+                  {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-slate-500">({formatCurrency(p.stockBasedCompensation ?? 0)})</td>)}
+                </tr>
+              )}
               <tr className="hover:bg-slate-50 bg-blue-50/30">
                 <td className="px-6 py-3 font-bold text-blue-900">
                    <MetricWithTooltip label="EBITDA" tooltip="Earnings Before Interest, Taxes, Depreciation, and Amortization. A proxy for operational cash flow." />
                 </td>
-                {activeScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right font-bold text-blue-700">{formatCurrency(p.ebitda)}</td>)}
+                {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right font-bold text-blue-700">{formatCurrency(p.ebitda)}</td>)}
               </tr>
+              {shownScenario.projections.some(p => p.depreciation !== undefined) && (
+                <tr className="hover:bg-slate-50">
+                  <td className="px-6 py-3 font-medium text-slate-900">
+                    <MetricWithTooltip label="Depreciation" tooltip="Cost of fixed assets spread over their useful life. Reduces profit and tax but not cash." />
+                  </td>
+                  {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.depreciation ?? 0)})</td>)}
+                </tr>
+              )}
+              {shownScenario.projections.some(p => p.interest !== undefined) && (
+                <tr className="hover:bg-slate-50">
+                  <td className="px-6 py-3 font-medium text-slate-900">
+                    <MetricWithTooltip label="Interest" tooltip="Interest on term loans and drawn credit lines. Deductible for tax." />
+                  </td>
+                  {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.interest ?? 0)})</td>)}
+                </tr>
+              )}
+              {shownScenario.projections.some(p => p.tax !== undefined) && (
+                <tr className="hover:bg-slate-50">
+                  <td className="px-6 py-3 font-medium text-slate-900">
+                    <MetricWithTooltip label="Tax" tooltip="Corporate tax after carried-forward losses and any startup tax holiday." />
+                  </td>
+                  {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right text-red-600">({formatCurrency(p.tax ?? 0)})</td>)}
+                </tr>
+              )}
                <tr className="hover:bg-slate-50 bg-indigo-50/30">
                 <td className="px-6 py-3 font-bold text-indigo-900">
                    <MetricWithTooltip label="Net Income" tooltip="Also known as Net Profit. The bottom line after all costs, taxes, and interest." />
                 </td>
-                {activeScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right font-bold text-indigo-700">{formatCurrency(p.netIncome)}</td>)}
+                {shownScenario.projections.map(p => <td key={p.year} className="px-6 py-3 text-right font-bold text-indigo-700">{formatCurrency(p.netIncome)}</td>)}
               </tr>
             </tbody>
           </table>
         </div>
       </div>
 
+      <FinancialStatements projections={shownScenario.projections} formatCurrency={formatCurrency} />
+
       {/* Glossary Section */}
       <div className="bg-slate-100 rounded-xl p-6 border border-slate-200">
         <div className="flex items-center gap-2 mb-4 text-slate-800">
@@ -1095,7 +1530,7 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-600">
           <div>
             <span className="font-bold text-slate-900">CAGR (Compound Annual Growth Rate):</span> 
-            <p className="mt-1">The mean annual growth rate of your revenue over the specified time period (3 years).</p>
+            <p className="mt-1">The mean annual growth rate of your revenue over the specified time period ({activeScenario.projections.length} years).</p>
           </div>
           <div>
             <span className="font-bold text-slate-900">EBITDA:</span> 
@@ -1127,6 +1562,8 @@ const Dashboard: React.FC<Props> = ({ scenarios, benchmarkData, userInput }) =>
           ebitdaMargin: (((userInput?.currentRevenue || 0) - ((userInput?.currentExpenses || 0) * 12)) / (userInput?.currentRevenue || 1)) * 100,
           riskLevel: 'Medium'
         }}
+        history={chatHistory}
+        onHistoryChange={onChatHistoryChange}
       />
 
     </div>
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Landmark, Plus, Trash2 } from 'lucide-react';
+import { DebtFacility, DebtRepayment, ProjectionDrivers } from '../types';
+import { DEBT_REPAYMENTS, createDebtFacility } from '../services/debtService';
+import CurrencySelect from './CurrencySelect';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  defaultStartMonth: string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-slate-100 disabled:text-slate-400';
+
+const DebtEditor: React.FC<Props> = ({ drivers, defaultStartMonth, onChange }) => {
+  const facilities = drivers.debt || [];
+
+  const setFacilities = (debt: DebtFacility[]) => onChange({ debt });
+
+  const updateFacility = (id: string, changes: Partial<DebtFacility>) =>
+    setFacilities(facilities.map(facility => facility.id === id ? { ...facility, ...changes } : facility));
+
+  const addFacility = (kind: DebtFacility['kind']) => setFacilities([
+    ...facilities,
+    createDebtFacility({ startMonth: defaultStartMonth, kind, name: kind === 'creditLine' ? 'Credit Line' : 'Term Loan', termMonths: kind === 'creditLine' ? 12 : 36 })
+  ]);
+
+  const removeFacility = (id: string) => setFacilities(facilities.filter(facility => facility.id !== id));
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Landmark size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Debt Financing</h3>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => addFacility('termLoan')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Term Loan
+          </button>
+          <button
+            onClick={() => addFacility('creditLine')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Credit Line
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Interest is charged below EBITDA and reduces taxable profit; drawdowns and repayments flow through financing cash
+        flow. Credit lines draw automatically when cash would go negative and are repaid from surplus cash.
+      </p>
+
+      {facilities.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No borrowings modelled.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Facility</th>
+                <th className="px-2 py-2">Principal / Limit</th>
+                <th className="px-2 py-2">Currency</th>
+                <th className="px-2 py-2">Rate (%)</th>
+                <th className="px-2 py-2">Start</th>
+                <th className="px-2 py-2">Term (months)</th>
+                <th className="px-2 py-2">Repayment</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {facilities.map(facility => (
+                <tr key={facility.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={facility.name} onChange={(e) => updateFacility(facility.id, { name: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={facility.amount} onChange={(e) => updateFacility(facility.id, { amount: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <CurrencySelect drivers={drivers} value={facility.currency} className={inputClass} onChange={(currency) => updateFacility(facility.id, { currency })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <input
+                      type="number"
+                      step="0.5"
+                      min="0"
+                      className={inputClass}
+                      value={Math.round(facility.annualRate * 1000) / 10}
+                      onChange={(e) => updateFacility(facility.id, { annualRate: Number(e.target.value) / 100 })}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="month" className={inputClass} value={facility.startMonth} onChange={(e) => updateFacility(facility.id, { startMonth: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <input type="number" min="1" className={inputClass} value={facility.termMonths} onChange={(e) => updateFacility(facility.id, { termMonths: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select
+                      className={inputClass}
+                      disabled={facility.kind === 'creditLine'}
+                      value={facility.kind === 'creditLine' ? 'bullet' : facility.repayment}
+                      onChange={(e) => updateFacility(facility.id, { repayment: e.target.value as DebtRepayment })}
+                    >
+                      {DEBT_REPAYMENTS.map(({ repayment, label }) => <option key={repayment} value={repayment}>{label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => removeFacility(facility.id)} className="text-slate-400 hover:text-red-600" title="Remove facility">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DebtEditor;
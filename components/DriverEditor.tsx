@@ -0,0 +1,95 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { ProjectionDrivers } from '../types';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+// Drivers edited as percentages in the UI but stored as decimals
+const PERCENT_FIELDS: { key: keyof ProjectionDrivers; label: string; hint: string }[] = [
+  { key: 'revenueGrowthRate', label: 'Revenue Growth', hint: 'Annual growth rate' },
+  { key: 'cogsRatio', label: 'COGS', hint: 'Share of revenue' },
+  { key: 'opexGrowthRate', label: 'OpEx Growth', hint: 'Annual growth rate' },
+  { key: 'taxRate', label: 'Tax Rate', hint: 'On profit after loss relief' }
+];
+
+// Working-capital drivers, in days of monthly activity
+const DAY_FIELDS: { key: 'receivableDays' | 'payableDays' | 'inventoryDays'; label: string; hint: string }[] = [
+  { key: 'receivableDays', label: 'Receivable Days', hint: 'Time customers take to pay' },
+  { key: 'payableDays', label: 'Payable Days', hint: 'Time taken to pay suppliers' },
+  { key: 'inventoryDays', label: 'Inventory Days', hint: 'Days of COGS held as stock' }
+];
+
+// Tax relief drivers, in whole years
+const YEAR_FIELDS: { key: 'taxHolidayYears' | 'lossCarryForwardYears'; label: string; hint: string; placeholder: string }[] = [
+  { key: 'taxHolidayYears', label: 'Tax Holiday (years)', hint: 'Opening years exempt from tax', placeholder: '0' },
+  { key: 'lossCarryForwardYears', label: 'Loss Carry-Forward (years)', hint: 'Blank = losses never expire', placeholder: 'Unlimited' }
+];
+
+const DriverEditor: React.FC<Props> = ({ drivers, onChange }) => (
+  <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+    <div className="flex items-center gap-2 mb-4">
+      <SlidersHorizontal size={20} className="text-blue-600" />
+      <h3 className="text-lg font-bold text-slate-800">Projection Drivers</h3>
+    </div>
+    <p className="text-sm text-slate-500 mb-4">
+      Every figure below is calculated from these assumptions. Change one and the model recalculates instantly.
+    </p>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {PERCENT_FIELDS.map(field => (
+        <label key={field.key} className="block">
+          <span className="block text-sm font-medium text-slate-700 mb-1">{field.label} (%)</span>
+          <input
+            type="number"
+            step="0.5"
+            value={Math.round(drivers[field.key] * 1000) / 10}
+            onChange={(e) => onChange({ [field.key]: Number(e.target.value) / 100 })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-xs text-slate-500">{field.hint}</span>
+        </label>
+      ))}
+      <label className="block">
+        <span className="block text-sm font-medium text-slate-700 mb-1">Starting Cash</span>
+        <input
+          type="number"
+          value={drivers.startingCash}
+          onChange={(e) => onChange({ startingCash: Number(e.target.value) })}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <span className="text-xs text-slate-500">Cash at the start of Year 1</span>
+      </label>
+      {DAY_FIELDS.map(field => (
+        <label key={field.key} className="block">
+          <span className="block text-sm font-medium text-slate-700 mb-1">{field.label}</span>
+          <input
+            type="number"
+            min="0"
+            value={drivers[field.key] ?? 0}
+            onChange={(e) => onChange({ [field.key]: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-xs text-slate-500">{field.hint}</span>
+        </label>
+      ))}
+      {YEAR_FIELDS.map(field => (
+        <label key={field.key} className="block">
+          <span className="block text-sm font-medium text-slate-700 mb-1">{field.label}</span>
+          <input
+            type="number"
+            min="0"
+            value={drivers[field.key] ?? ''}
+            placeholder={field.placeholder}
+            onChange={(e) => onChange({ [field.key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-xs text-slate-500">{field.hint}</span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+export default DriverEditor;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Award, Plus, Trash2 } from 'lucide-react';
+import { EsopPlan, OptionGrant, PoolTopUp, ProjectionDrivers } from '../types';
+import { createDefaultCapTable } from '../services/capTableService';
+import { createEsopPlan, createOptionGrant, createPoolTopUp, grantsFromHeadcount, unallocatedPool } from '../services/esopService';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  defaultGrantMonth: string;
+  formatCurrency: (val: number) => string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const EsopEditor: React.FC<Props> = ({ drivers, defaultGrantMonth, formatCurrency, onChange }) => {
+  const capTable = drivers.capTable || createDefaultCapTable();
+  const plan = capTable.esop || createEsopPlan();
+  const hireGrants = grantsFromHeadcount(drivers.headcount || [], plan);
+  const granted = [...plan.grants, ...hireGrants].reduce((total, grant) => total + grant.options, 0);
+  const pool = unallocatedPool(capTable);
+  const totalExpense = [...plan.grants, ...hireGrants].reduce((total, grant) => total + grant.options * grant.fairValuePerOption, 0);
+
+  const setPlan = (changes: Partial<EsopPlan>) => onChange({ capTable: { ...capTable, esop: { ...plan, ...changes } } });
+
+  const updateGrant = (id: string, changes: Partial<OptionGrant>) =>
+    setPlan({ grants: plan.grants.map(grant => grant.id === id ? { ...grant, ...changes } : grant) });
+
+  const updateTopUp = (id: string, changes: Partial<PoolTopUp>) =>
+    setPlan({ topUps: plan.topUps.map(topUp => topUp.id === id ? { ...topUp, ...changes } : topUp) });
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Award size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Employee Option Pool</h3>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setPlan({ grants: [...plan.grants, createOptionGrant(plan, { grantMonth: defaultGrantMonth })] })}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Grant
+          </button>
+          <button
+            onClick={() => setPlan({ topUps: [...plan.topUps, createPoolTopUp()] })}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Pool Top-up
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Grants come out of the option pool in the cap table and are expensed straight-line over vesting at their fair value.
+        The expense sits in OpEx but is non-cash. Hires in the headcount plan with options per head are granted on these
+        standard terms in their start month.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Fair Value per Option</label>
+          <input type="number" min="0" className={inputClass} value={plan.fairValuePerOption} onChange={(e) => setPlan({ fairValuePerOption: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Vesting (months)</label>
+          <input type="number" min="1" className={inputClass} value={plan.vestingMonths} onChange={(e) => setPlan({ vestingMonths: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Cliff (months)</label>
+          <input type="number" min="0" className={inputClass} value={plan.cliffMonths} onChange={(e) => setPlan({ cliffMonths: Number(e.target.value) })} />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6 mb-4 text-sm text-slate-600">
+        <span>Pool today: <strong>{pool.toLocaleString()}</strong></span>
+        <span>Granted: <strong>{granted.toLocaleString()}</strong>{hireGrants.length > 0 && ` (incl. ${hireGrants.reduce((total, grant) => total + grant.options, 0).toLocaleString()} to planned hires)`}</span>
+        <span className={granted > pool ? 'text-red-600' : ''}>Remaining: <strong>{(pool - granted).toLocaleString()}</strong></span>
+        <span>Total expense: <strong>{formatCurrency(totalExpense)}</strong></span>
+      </div>
+
+      {plan.grants.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Grant</th>
+                <th className="px-2 py-2">Options</th>
+                <th className="px-2 py-2">Granted</th>
+                <th className="px-2 py-2">Vesting</th>
+                <th className="px-2 py-2">Cliff</th>
+                <th className="px-2 py-2">Fair Value</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {plan.grants.map(grant => (
+                <tr key={grant.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={grant.name} onChange={(e) => updateGrant(grant.id, { name: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={grant.options} onChange={(e) => updateGrant(grant.id, { options: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="month" className={inputClass} value={grant.grantMonth} onChange={(e) => updateGrant(grant.id, { grantMonth: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <input type="number" min="1" className={inputClass} value={grant.vestingMonths} onChange={(e) => updateGrant(grant.id, { vestingMonths: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <input type="number" min="0" className={inputClass} value={grant.cliffMonths} onChange={(e) => updateGrant(grant.id, { cliffMonths: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 w-28">
+                    <input type="number" min="0" className={inputClass} value={grant.fairValuePerOption} onChange={(e) => updateGrant(grant.id, { fairValuePerOption: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => setPlan({ grants: plan.grants.filter(other => other.id !== grant.id) })} className="text-slate-400 hover:text-red-600" title="Remove grant">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {plan.topUps.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Top up before round</th>
+                <th className="px-2 py-2">Unallocated pool post-money (%)</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {plan.topUps.map(topUp => (
+                <tr key={topUp.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={topUp.round} placeholder="e.g. Series A" onChange={(e) => updateTopUp(topUp.id, { round: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2 w-48">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className={inputClass}
+                      value={Math.round(topUp.targetPercent * 1000) / 10}
+                      onChange={(e) => updateTopUp(topUp.id, { targetPercent: Number(e.target.value) / 100 })}
+                    />
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => setPlan({ topUps: plan.topUps.filter(other => other.id !== topUp.id) })} className="text-slate-400 hover:text-red-600" title="Remove top-up">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EsopEditor;
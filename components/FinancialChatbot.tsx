@@ -1,12 +1,6 @@
 import React, { useState } from 'react';
 import { MessageCircle, X, Send, Bot, User } from 'lucide-react';
-
-interface ChatMessage {
-  id: string;
-  type: 'user' | 'bot';
-  message: string;
-  timestamp: Date;
-}
+import { ChatMessage } from '../types';
 
 interface FinancialChatbotProps {
   financialData: {
@@ -18,11 +12,13 @@ interface FinancialChatbotProps {
     ebitdaMargin: number;
     riskLevel: string;
   };
+  history?: ChatMessage[]; // Conversation saved with the model, resumed when it is reopened
+  onHistoryChange?: (messages: ChatMessage[]) => void;
 }
 
-const FinancialChatbot: React.FC<FinancialChatbotProps> = ({ financialData }) => {
+const FinancialChatbot: React.FC<FinancialChatbotProps> = ({ financialData, history, onHistoryChange }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
+  const [messages, setMessages] = useState<ChatMessage[]>(history && history.length > 0 ? history : [
     {
       id: '1',
       type: 'bot',
@@ -98,7 +94,9 @@ const FinancialChatbot: React.FC<FinancialChatbotProps> = ({ financialData }) =>
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage, botResponse]);
+    const updated = [...messages, userMessage, botResponse];
+    setMessages(updated);
+    onHistoryChange?.(updated);
     setInputMessage('');
   };
 
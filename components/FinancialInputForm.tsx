@@ -1,7 +1,12 @@
 import React, { useState } from 'react';
 import { Calculator, TrendingUp } from 'lucide-react';
 import { generateFinancialModel, fetchIndustryBenchmarks } from '../services/geminiService';
-import { UserInput, ScenarioData } from '../types';
+import { HistoricalYear, MeasuredBurn, UserInput, ScenarioData } from '../types';
+import { DEFAULT_PROJECTION_YEARS, MAX_PROJECTION_YEARS, MIN_PROJECTION_YEARS } from '../services/projectionEngine';
+import { inputsFromHistory, mergeHistory } from '../services/historyService';
+import { selectedBurn } from '../services/bankStatementService';
+import AccountingImport from './AccountingImport';
+import BankStatementImport from './BankStatementImport';
 
 interface Props {
   onScenariosGenerated: (scenarios: ScenarioData[], inputData: UserInput) => void;
@@ -72,12 +77,38 @@ const FinancialInputForm: React.FC<Props> = ({ onScenariosGenerated }) => {
     currentExpenses: 35000,
     currentCash: 2000000,
     businessContext: '',
+    projectionYears: DEFAULT_PROJECTION_YEARS,
   });
   
   const [isGenerating, setIsGenerating] = useState(false);
   
   const currentCountry = inputs.country as keyof typeof COUNTRY_CONFIG;
   const currencySymbol = COUNTRY_CONFIG[currentCountry]?.currency || '₹';
+
+  // The latest imported year stands in for the figures typed below; all years are kept as history
+  const handleHistoryImport = (imported: HistoricalYear[]) => {
+    const history = mergeHistory(inputs.history || [], imported);
+    setInputs({ ...inputs, ...inputsFromHistory(history), history });
+  };
+
+  // Measured gross burn replaces the typed-in expenses, and the statements' closing balance the typed-in cash
+  const handleBurnApply = (measuredBurn: MeasuredBurn | undefined) => {
+    if (!measuredBurn) {
+      setInputs({ ...inputs, measuredBurn: undefined });
+      return;
+    }
+    setInputs({
+      ...inputs,
+      currentExpenses: Math.round(selectedBurn(measuredBurn).grossBurn),
+      ...(measuredBurn.cashBalance !== undefined && { currentCash: Math.round(measuredBurn.cashBalance) }),
+      measuredBurn
+    });
+  };
+
+  const handleHistoryRemove = (label: string) => {
+    const history = (inputs.history || []).filter(year => year.label !== label);
+    setInputs({ ...inputs, history: history.length > 0 ? history : undefined });
+  };
   
   const handleGenerate = async () => {
     setIsGenerating(true);
@@ -162,6 +193,13 @@ const FinancialInputForm: React.FC<Props> = ({ onScenariosGenerated }) => {
           </select>
         </div>
         
+        <AccountingImport
+          history={inputs.history || []}
+          currencySymbol={currencySymbol}
+          onImport={handleHistoryImport}
+          onRemove={handleHistoryRemove}
+        />
+
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">
             Annual Revenue ({currencySymbol})
@@ -189,6 +227,8 @@ const FinancialInputForm: React.FC<Props> = ({ onScenariosGenerated }) => {
           />
           <p className="text-xs text-slate-500 mt-1">Total monthly operating expenses (COGS + OpEx)</p>
         </div>
+
+        <BankStatementImport measuredBurn={inputs.measuredBurn} currencySymbol={currencySymbol} onApply={handleBurnApply} />
         
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">
@@ -221,6 +261,22 @@ const FinancialInputForm: React.FC<Props> = ({ onScenariosGenerated }) => {
           </select>
         </div>
         
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-2">
+            Projection Horizon
+          </label>
+          <select
+            value={inputs.projectionYears}
+            onChange={(e) => setInputs({...inputs, projectionYears: Number(e.target.value)})}
+            className="w-full px-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {Array.from({ length: MAX_PROJECTION_YEARS - MIN_PROJECTION_YEARS + 1 }, (_, i) => MIN_PROJECTION_YEARS + i).map(years => (
+              <option key={years} value={years}>{years} years</option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">Use 5-7 years for later-stage fundraising plans</p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-slate-700 mb-2">
             Business Context
@@ -258,7 +314,7 @@ const FinancialInputForm: React.FC<Props> = ({ onScenariosGenerated }) => {
         <h4 className="font-semibold text-blue-900 mb-2">What you'll get:</h4>
         <ul className="text-sm text-blue-700 space-y-1">
           <li>• 3 scenarios based on your inputs (Base, Growth, Conservative)</li>
-          <li>• 3-year financial projections</li>
+          <li>• {inputs.projectionYears}-year financial projections</li>
           <li>• Industry benchmarking and validation</li>
           <li>• Cash flow analysis and funding recommendations</li>
         </ul>
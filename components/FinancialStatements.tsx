@@ -0,0 +1,89 @@
+import React from 'react';
+import { BalanceSheet, CashFlowStatement, FinancialYear } from '../types';
+
+interface Props {
+  projections: FinancialYear[];
+  formatCurrency: (val: number) => string;
+}
+
+interface StatementLine<T> {
+  key: keyof T;
+  label: string;
+  total?: boolean;
+}
+
+const BALANCE_SHEET_LINES: StatementLine<BalanceSheet>[] = [
+  { key: 'cash', label: 'Cash' },
+  { key: 'accountsReceivable', label: 'Accounts Receivable' },
+  { key: 'inventory', label: 'Inventory' },
+  { key: 'fixedAssets', label: 'Fixed Assets (net)' },
+  { key: 'totalAssets', label: 'Total Assets', total: true },
+  { key: 'accountsPayable', label: 'Accounts Payable' },
+  { key: 'debt', label: 'Debt' },
+  { key: 'totalLiabilities', label: 'Total Liabilities', total: true },
+  { key: 'paidInCapital', label: 'Paid-in Capital' },
+  { key: 'retainedEarnings', label: 'Retained Earnings' },
+  { key: 'totalEquity', label: 'Total Equity', total: true }
+];
+
+const CASH_FLOW_LINES: StatementLine<CashFlowStatement>[] = [
+  { key: 'netIncome', label: 'Net Income' },
+  { key: 'depreciation', label: 'Depreciation' },
+  { key: 'stockBasedCompensation', label: 'Stock-Based Compensation' },
+  { key: 'changeInWorkingCapital', label: 'Change in Working Capital' },
+  { key: 'operatingCashFlow', label: 'Operating Cash Flow', total: true },
+  { key: 'capex', label: 'Capital Expenditure' },
+  { key: 'investingCashFlow', label: 'Investing Cash Flow', total: true },
+  { key: 'netBorrowing', label: 'Net Borrowing' },
+  { key: 'equityRaised', label: 'Equity Raised' },
+  { key: 'financingCashFlow', label: 'Financing Cash Flow', total: true },
+  { key: 'netChangeInCash', label: 'Net Change in Cash', total: true }
+];
+
+const FinancialStatements: React.FC<Props> = ({ projections, formatCurrency }) => {
+  if (!projections.every(p => p.balanceSheet && p.cashFlow)) return null;
+
+  const renderStatement = <T,>(title: string, lines: StatementLine<T>[], pick: (p: FinancialYear) => T) => (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-6 py-4 border-b border-slate-100 bg-slate-50">
+        <h4 className="font-bold text-slate-700">{title}</h4>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-6 py-3">Line</th>
+              {projections.map(p => (
+                <th key={p.year} className="px-6 py-3 text-right">Year {p.year}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {lines.map(line => (
+              <tr key={String(line.key)} className={line.total ? 'bg-slate-50/50' : 'hover:bg-slate-50'}>
+                <td className={`px-6 py-3 ${line.total ? 'font-bold' : 'font-medium'} text-slate-900`}>{line.label}</td>
+                {projections.map(p => {
+                  const value = Number(pick(p)[line.key]);
+                  return (
+                    <td key={p.year} className={`px-6 py-3 text-right ${line.total ? 'font-bold' : ''} ${value < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                      {value < 0 ? `(${formatCurrency(-value)})` : formatCurrency(value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {renderStatement('Balance Sheet (Year End)', BALANCE_SHEET_LINES, p => p.balanceSheet as BalanceSheet)}
+      {renderStatement('Cash Flow Statement', CASH_FLOW_LINES, p => p.cashFlow as CashFlowStatement)}
+    </div>
+  );
+};
+
+export default FinancialStatements;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { HardDrive, Plus, Trash2 } from 'lucide-react';
+import { DepreciationMethod, FixedAsset, ProjectionDrivers } from '../types';
+import { DEPRECIATION_METHODS, createFixedAsset } from '../services/fixedAssetService';
+import CurrencySelect from './CurrencySelect';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  defaultPurchaseMonth: string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const FixedAssetsEditor: React.FC<Props> = ({ drivers, defaultPurchaseMonth, onChange }) => {
+  const assets = drivers.fixedAssets || [];
+
+  const setAssets = (fixedAssets: FixedAsset[]) => onChange({ fixedAssets });
+
+  const updateAsset = (id: string, changes: Partial<FixedAsset>) =>
+    setAssets(assets.map(asset => asset.id === id ? { ...asset, ...changes } : asset));
+
+  const addAsset = () => setAssets([...assets, createFixedAsset({ purchaseMonth: defaultPurchaseMonth })]);
+
+  const removeAsset = (id: string) => setAssets(assets.filter(asset => asset.id !== id));
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <HardDrive size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Fixed Assets</h3>
+        </div>
+        <button
+          onClick={addAsset}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+        >
+          <Plus size={16} /> Add Asset
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Purchases are paid in cash in their purchase month and depreciated from then on, reducing net income and taxable
+        profit. Assets bought before the projection starts are carried at their remaining book value.
+      </p>
+
+      {assets.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No fixed assets in the register.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Asset</th>
+                <th className="px-2 py-2">Cost</th>
+                <th className="px-2 py-2">Currency</th>
+                <th className="px-2 py-2">Purchased</th>
+                <th className="px-2 py-2">Useful Life (yrs)</th>
+                <th className="px-2 py-2">Method</th>
+                <th className="px-2 py-2">Salvage Value</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {assets.map(asset => (
+                <tr key={asset.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={asset.name} onChange={(e) => updateAsset(asset.id, { name: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={asset.cost} onChange={(e) => updateAsset(asset.id, { cost: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <CurrencySelect drivers={drivers} value={asset.currency} className={inputClass} onChange={(currency) => updateAsset(asset.id, { currency })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="month" className={inputClass} value={asset.purchaseMonth} onChange={(e) => updateAsset(asset.id, { purchaseMonth: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <input type="number" min="1" className={inputClass} value={asset.usefulLifeYears} onChange={(e) => updateAsset(asset.id, { usefulLifeYears: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select className={inputClass} value={asset.method} onChange={(e) => updateAsset(asset.id, { method: e.target.value as DepreciationMethod })}>
+                      {DEPRECIATION_METHODS.map(({ method, label }) => <option key={method} value={method}>{label}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={asset.salvageValue} onChange={(e) => updateAsset(asset.id, { salvageValue: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => removeAsset(asset.id)} className="text-slate-400 hover:text-red-600" title="Remove asset">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FixedAssetsEditor;
@@ -0,0 +1,147 @@
+import React from 'react';
+import { ArrowLeftRight, FileUp, Plus, Trash2 } from 'lucide-react';
+import { FxRate, ProjectionDrivers } from '../types';
+import {
+  DEFAULT_CURRENCY, FX_ANCHOR_CURRENCY, currenciesInUse, exchangeRate, fxRateFor, knownCurrencies, mergeFxRates, missingFxRates, parseFxRatesCsv
+} from '../services/currencyService';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  reportingCurrency: string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+  onReportingCurrencyChange: (currency: string) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const FxRatesEditor: React.FC<Props> = ({ drivers, reportingCurrency, onChange, onReportingCurrencyChange }) => {
+  const modelCurrency = drivers.currency || DEFAULT_CURRENCY;
+  const rates = drivers.fxRates || [];
+  const inUse = currenciesInUse(drivers);
+  const currencies = knownCurrencies([...inUse, reportingCurrency], rates);
+  const missing = missingFxRates([...inUse, reportingCurrency], rates);
+
+  const setRates = (fxRates: FxRate[]) => onChange({ fxRates });
+
+  const updateRate = (index: number, changes: Partial<FxRate>) =>
+    setRates(rates.map((rate, i) => i === index ? { ...rate, ...changes } : rate));
+
+  // Seed new rows with a currency in use that has no rate of its own yet
+  const addRate = () => {
+    const currency = inUse.find(code => code !== FX_ANCHOR_CURRENCY && !rates.some(rate => rate.currency === code)) || '';
+    setRates([...rates, { currency, unitsPerUsd: (currency && fxRateFor(currency)) || 1 }]);
+  };
+
+  const importRates = async (file: File | undefined) => {
+    if (!file) return;
+    const imported = parseFxRatesCsv(await file.text());
+    if (imported.length === 0) {
+      alert('No rates found. Expected one "CODE,units per USD" pair per line, e.g. "INR,83.2".');
+      return;
+    }
+    setRates(mergeFxRates(rates, imported));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ArrowLeftRight size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Currencies &amp; FX Rates</h3>
+        </div>
+        <div className="flex gap-2">
+          <label className="flex items-center gap-1 px-3 py-1.5 bg-white border border-blue-600 text-blue-600 rounded-lg text-sm hover:bg-blue-50 transition-colors cursor-pointer">
+            <FileUp size={16} /> Import CSV
+            <input
+              type="file"
+              accept=".csv,.txt"
+              className="hidden"
+              onChange={(e) => { importRates(e.target.files?.[0]); e.target.value = ''; }}
+            />
+          </label>
+          <button
+            onClick={addRate}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+          >
+            <Plus size={16} /> Add Rate
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Lines entered in another currency are converted into the model currency before projecting; every view, export and
+        the PDF are then restated in the reporting currency. Rates are units per US dollar. Currencies without a rate here
+        use indicative defaults. Changing the model currency relabels amounts without a currency of their own rather than
+        converting them.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Model Currency</label>
+          <select className={inputClass} value={modelCurrency} onChange={(e) => onChange({ currency: e.target.value })}>
+            {currencies.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Reporting Currency</label>
+          <select className={inputClass} value={reportingCurrency} onChange={(e) => onReportingCurrencyChange(e.target.value)}>
+            {currencies.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+          </select>
+        </div>
+        <div className="flex items-end text-sm text-slate-600 pb-2">
+          {reportingCurrency !== modelCurrency && (
+            <span>1 {modelCurrency} = <strong>{exchangeRate(modelCurrency, reportingCurrency, rates).toPrecision(4)}</strong> {reportingCurrency}</span>
+          )}
+        </div>
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-red-600 mb-4">
+          No rate for {missing.join(', ')}: amounts in {missing.length > 1 ? 'these currencies' : 'this currency'} are counted 1:1 until a rate is added.
+        </p>
+      )}
+
+      {rates.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Currency</th>
+                <th className="px-2 py-2">Units per USD</th>
+                <th className="px-2 py-2">Per {modelCurrency}</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rates.map((rate, index) => (
+                <tr key={index}>
+                  <td className="px-2 py-2 w-32">
+                    <input
+                      className={inputClass}
+                      maxLength={3}
+                      value={rate.currency}
+                      placeholder="e.g. EUR"
+                      onChange={(e) => updateRate(index, { currency: e.target.value.toUpperCase() })}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" step="any" className={inputClass} value={rate.unitsPerUsd} onChange={(e) => updateRate(index, { unitsPerUsd: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 text-slate-600">
+                    {rate.currency === modelCurrency ? '1' : exchangeRate(modelCurrency, rate.currency, rates).toPrecision(4)}
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => setRates(rates.filter((_, i) => i !== index))} className="text-slate-400 hover:text-red-600" title="Remove rate">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FxRatesEditor;
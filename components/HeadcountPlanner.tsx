@@ -0,0 +1,148 @@
+import React from 'react';
+import { Users, Plus, Trash2 } from 'lucide-react';
+import { Department, HeadcountRole, ProjectionDrivers } from '../types';
+import { DEPARTMENTS, annualCostPerHead, benchmarkSalary, createRole } from '../services/headcountService';
+import { DEFAULT_CURRENCY } from '../services/currencyService';
+import { SUPPORTED_COUNTRIES } from '../services/scenarioGenerator';
+import CurrencySelect from './CurrencySelect';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  defaultStartMonth: string;
+  homeCountry: string;
+  formatCurrency: (val: number) => string;
+  onChange: (roles: HeadcountRole[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const HeadcountPlanner: React.FC<Props> = ({ drivers, defaultStartMonth, homeCountry, formatCurrency, onChange }) => {
+  const roles = drivers.headcount || [];
+  const currency = drivers.currency || DEFAULT_CURRENCY;
+  const fxRates = drivers.fxRates || [];
+
+  const updateRole = (id: string, changes: Partial<HeadcountRole>) =>
+    onChange(roles.map(role => role.id === id ? { ...role, ...changes } : role));
+
+  const addRole = () =>
+    onChange([...roles, createRole({ startMonth: defaultStartMonth, country: homeCountry })]);
+
+  const removeRole = (id: string) => onChange(roles.filter(role => role.id !== id));
+
+  const totalPeople = roles.reduce((total, role) => total + role.count, 0);
+  const annualPayroll = roles.reduce((total, role) => total + annualCostPerHead(role, currency, fxRates) * role.count, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Users size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Headcount Plan</h3>
+        </div>
+        <button
+          onClick={addRole}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+        >
+          <Plus size={16} /> Add Role
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Planned hires are costed from their start month and added to OpEx as payroll. Leave salary blank to use the
+        department benchmark for the hire&apos;s country, converted into the salary&apos;s currency.
+      </p>
+
+      {roles.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No hires planned yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Role</th>
+                <th className="px-2 py-2">Department</th>
+                <th className="px-2 py-2">Country</th>
+                <th className="px-2 py-2">Count</th>
+                <th className="px-2 py-2">Start</th>
+                <th className="px-2 py-2">Annual Salary</th>
+                <th className="px-2 py-2">Currency</th>
+                <th className="px-2 py-2">Benefits (%)</th>
+                <th className="px-2 py-2">Options / Head</th>
+                <th className="px-2 py-2 text-right">Loaded Cost / Head</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {roles.map(role => (
+                <tr key={role.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={role.role} onChange={(e) => updateRole(role.id, { role: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <select className={inputClass} value={role.department} onChange={(e) => updateRole(role.id, { department: e.target.value as Department })}>
+                      {DEPARTMENTS.map(department => <option key={department} value={department}>{department}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <select className={inputClass} value={role.country} onChange={(e) => updateRole(role.id, { country: e.target.value })}>
+                      {SUPPORTED_COUNTRIES.map(country => <option key={country} value={country}>{country}</option>)}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 w-20">
+                    <input type="number" min="0" className={inputClass} value={role.count} onChange={(e) => updateRole(role.id, { count: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="month" className={inputClass} value={role.startMonth} onChange={(e) => updateRole(role.id, { startMonth: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      className={inputClass}
+                      value={role.annualSalary ?? ''}
+                      placeholder={String(Math.round(benchmarkSalary(role.department, role.country, role.currency || currency, fxRates)))}
+                      onChange={(e) => updateRole(role.id, { annualSalary: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <CurrencySelect drivers={drivers} value={role.currency} className={inputClass} onChange={(salaryCurrency) => updateRole(role.id, { currency: salaryCurrency })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <input
+                      type="number"
+                      min="0"
+                      className={inputClass}
+                      value={Math.round(role.benefitsLoad * 100)}
+                      onChange={(e) => updateRole(role.id, { benefitsLoad: Number(e.target.value) / 100 })}
+                    />
+                  </td>
+                  <td className="px-2 py-2 w-28">
+                    <input
+                      type="number"
+                      min="0"
+                      className={inputClass}
+                      value={role.optionsPerHead ?? ''}
+                      placeholder="0"
+                      onChange={(e) => updateRole(role.id, { optionsPerHead: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    />
+                  </td>
+                  <td className="px-2 py-2 text-right font-medium text-slate-700">{formatCurrency(annualCostPerHead(role, currency, fxRates))}</td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => removeRole(role.id)} className="text-slate-400 hover:text-red-600" title="Remove role">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex justify-end gap-6 mt-3 text-sm text-slate-600">
+            <span>Planned headcount: <strong>{totalPeople}</strong></span>
+            <span>Annual payroll at full strength: <strong>{formatCurrency(annualPayroll)}</strong></span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeadcountPlanner;
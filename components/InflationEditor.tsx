@@ -0,0 +1,96 @@
+import React from 'react';
+import { Percent, RotateCcw } from 'lucide-react';
+import { CountryInflation, InflationAssumptions, ProjectionDrivers } from '../types';
+import { createInflationAssumptions, inflationRateFor } from '../services/inflationService';
+import { getCountryConfig, SUPPORTED_COUNTRIES } from '../services/scenarioGenerator';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  defaultCountry: string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const InflationEditor: React.FC<Props> = ({ drivers, defaultCountry, onChange }) => {
+  const inflation = drivers.inflation || createInflationAssumptions(defaultCountry);
+  const rates = inflation.rates || [];
+  const homeCountry = inflation.country || defaultCountry;
+  // The home country plus every country the team is hired in
+  const countries = [...new Set([homeCountry, ...(drivers.headcount || []).map(role => role.country)])];
+
+  const setInflation = (changes: Partial<InflationAssumptions>) => onChange({ inflation: { ...inflation, ...changes } });
+
+  const setRate = (country: string, annualRate: number) =>
+    setInflation({ rates: [...rates.filter(rate => rate.country !== country), { country, annualRate }] });
+
+  const resetRate = (country: string) => setInflation({ rates: rates.filter(rate => rate.country !== country) });
+
+  const override = (country: string): CountryInflation | undefined => rates.find(rate => rate.country === country);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Percent size={20} className="text-blue-600" />
+        <h3 className="text-lg font-bold text-slate-800">Inflation</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        With indexing on, salaries and growth-driven OpEx are read as today&apos;s prices: each year they rise with inflation
+        in the hire&apos;s country or the home country, and their growth rates become real growth on top. Revenue growth stays
+        as entered. Real-terms views deflate every figure by home-country inflation.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={inflation.enabled} onChange={(e) => setInflation({ enabled: e.target.checked })} />
+          Index salaries and costs to inflation
+        </label>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Home Country</label>
+          <select className={inputClass} value={homeCountry} onChange={(e) => setInflation({ country: e.target.value })}>
+            {SUPPORTED_COUNTRIES.map(country => <option key={country} value={country}>{country}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-2 py-2">Country</th>
+              <th className="px-2 py-2">Indicative</th>
+              <th className="px-2 py-2">Annual Inflation (%)</th>
+              <th className="px-2 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {countries.map(country => (
+              <tr key={country}>
+                <td className="px-2 py-2 text-slate-700">{country}{country === homeCountry && ' (home)'}</td>
+                <td className="px-2 py-2 text-slate-500">{(getCountryConfig(country).inflationRate * 100).toFixed(1)}%</td>
+                <td className="px-2 py-2 w-48">
+                  <input
+                    type="number"
+                    step="0.1"
+                    className={inputClass}
+                    value={Math.round(inflationRateFor(country, rates) * 1000) / 10}
+                    onChange={(e) => setRate(country, Number(e.target.value) / 100)}
+                  />
+                </td>
+                <td className="px-2 py-2 text-right">
+                  {override(country) && (
+                    <button onClick={() => resetRate(country)} className="text-slate-400 hover:text-blue-600" title="Use indicative rate">
+                      <RotateCcw size={16} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default InflationEditor;
@@ -1,12 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { ScenarioData } from '../types';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { CapTable, ScenarioData, ShareClass } from '../types';
 import { calculateSaaSMetrics, SaaSMetrics } from '../services/saasMetricsService';
 import { calculateAIFeatureImpact, AIFeatureImpact } from '../services/aiFeatureService';
 import { compareToBenchmarks, BenchmarkComparison } from '../services/benchmarkService';
 import { calculateRiskScoring, RiskScoring } from '../services/riskScoringService';
 import { analyzeFounderScenarios, FounderScenario } from '../services/founderScenariosService';
+import { selectedBurn } from '../services/bankStatementService';
 import { generatePDFReport } from '../services/pdfService';
 import { UserInputs } from '../services/scenarioGenerator';
+import { calculateFundingRequirements } from '../services/fundingService';
+import { calculateValuation } from '../services/valuationService';
+import { calculateExitWaterfall, waterfallAcrossExits } from '../services/exitWaterfallService';
+import { DEFAULT_CURRENCY, exchangeRate, formatMoney } from '../services/currencyService';
+
+// Formats a model-currency amount in the reporting currency
+type Money = (value: number, compact?: boolean) => string;
 
 interface InvestorDashboardProps {
   scenarios: ScenarioData[];
@@ -24,11 +33,20 @@ export const InvestorDashboard: React.FC<InvestorDashboardProps> = ({
   const [riskScoring, setRiskScoring] = useState<RiskScoring | null>(null);
   
   const baseScenario = scenarios.find(s => s.name === 'Base Case') || scenarios[0];
+  const modelCurrency = baseScenario.drivers?.currency || userInputs?.currency || DEFAULT_CURRENCY;
+  const reportingCurrency = userInputs?.reportingCurrency || modelCurrency;
+  const reportingRate = exchangeRate(modelCurrency, reportingCurrency, baseScenario.drivers?.fxRates);
+  const money: Money = (value, compact = false) => formatMoney(value * reportingRate, reportingCurrency, { compact });
   
   const saasMetrics = calculateSaaSMetrics(baseScenario);
   const aiImpact = calculateAIFeatureImpact(baseScenario, true);
   const benchmarks = compareToBenchmarks(baseScenario);
-  const founderScenarios = analyzeFounderScenarios(baseScenario, currentCash);
+  const measuredBurn = userInputs?.measuredBurn ? selectedBurn(userInputs.measuredBurn) : undefined;
+  const founderScenarios = analyzeFounderScenarios(baseScenario, currentCash, userInputs?.country, true, measuredBurn);
+  const equityValue = calculateValuation(baseScenario, { country: userInputs?.country }).equityValue;
+  const funding = calculateFundingRequirements(baseScenario, { currentValuation: 5000000, exitValue: equityValue });
+  const capTableAtExit = funding.capTable;
+  const invested = funding.recommendedFundingRounds.reduce((total, round) => total + round.amount, 0);
 
   useEffect(() => {
     const loadRiskScoring = async () => {
@@ -63,13 +81,13 @@ export const InvestorDashboard: React.FC<InvestorDashboardProps> = ({
         <div className="metrics-grid">
           <MetricCard 
             title="CAC" 
-            value={`₹${saasMetrics.cac.toLocaleString()}`}
+            value={money(saasMetrics.cac)}
             subtitle="Customer Acquisition Cost"
             status={saasMetrics.cac < 50000 ? 'good' : 'warning'}
           />
           <MetricCard 
             title="LTV" 
-            value={`₹${saasMetrics.ltv.toLocaleString()}`}
+            value={money(saasMetrics.ltv)}
             subtitle="Lifetime Value"
             status="good"
           />
@@ -87,7 +105,7 @@ export const InvestorDashboard: React.FC<InvestorDashboardProps> = ({
           />
           <MetricCard 
             title="ARR" 
-            value={`₹${saasMetrics.arr.toLocaleString()}`}
+            value={money(saasMetrics.arr)}
             subtitle="Annual Recurring Revenue"
             status="good"
           />
@@ -106,21 +124,21 @@ export const InvestorDashboard: React.FC<InvestorDashboardProps> = ({
         <div className="ai-impact-grid">
           <div className="impact-card">
             <h4>Revenue Uplift</h4>
-            <div className="big-number">+₹{aiImpact.revenueUplift.toLocaleString()}</div>
+            <div className="big-number">+{money(aiImpact.revenueUplift)}</div>
             <div className="subtitle">+{aiImpact.revenueUpliftPercent}% increase</div>
           </div>
           <div className="impact-card">
             <h4>Additional Costs</h4>
-            <div className="big-number">₹{aiImpact.additionalCosts.toLocaleString()}</div>
+            <div className="big-number">{money(aiImpact.additionalCosts)}</div>
             <div className="cost-breakdown">
-              <div>Compute: ₹{aiImpact.computeCosts.toLocaleString()}</div>
-              <div>R&D: ₹{aiImpact.rdCosts.toLocaleString()}</div>
+              <div>Compute: {money(aiImpact.computeCosts)}</div>
+              <div>R&D: {money(aiImpact.rdCosts)}</div>
             </div>
           </div>
           <div className="impact-card">
             <h4>Net Impact</h4>
             <div className={`big-number ${aiImpact.netImpact > 0 ? 'positive' : 'negative'}`}>
-              ₹{aiImpact.netImpact.toLocaleString()}
+              {money(aiImpact.netImpact)}
             </div>
             <div className="subtitle">ROI: {aiImpact.roiPercent}%</div>
           </div>
@@ -194,12 +212,65 @@ export const InvestorDashboard: React.FC<InvestorDashboardProps> = ({
         </div>
       </div>
 
+      {/* Investor Returns */}
+      <div className="metrics-section">
+        <h3>📈 Investor Returns</h3>
+        {funding.recommendedFundingRounds.length === 0 ? (
+          <p className="waterfall-note">No funding rounds are needed in this scenario, so there are no investor returns to report.</p>
+        ) : (
+          <div className="metrics-grid">
+            <MetricCard
+              title="Invested"
+              value={money(invested)}
+              subtitle={`Across ${funding.recommendedFundingRounds.length} recommended round${funding.recommendedFundingRounds.length > 1 ? 's' : ''}`}
+              status="good"
+            />
+            <MetricCard
+              title="Exit Proceeds"
+              value={money(funding.investorProceeds)}
+              subtitle={`Waterfall payout at a ${money(funding.exitValue)} exit`}
+              status={funding.investorProceeds >= invested ? 'good' : 'danger'}
+            />
+            <MetricCard
+              title="MOIC"
+              value={`${funding.moic.toFixed(2)}x`}
+              subtitle="Multiple on invested capital"
+              status={funding.moic >= 3 ? 'good' : funding.moic >= 1 ? 'warning' : 'danger'}
+            />
+            <MetricCard
+              title="IRR"
+              value={funding.irr === null ? 'n/a' : `${funding.irr.toFixed(1)}%`}
+              subtitle="From dated round and exit flows"
+              status={funding.irr !== null && funding.irr >= 25 ? 'good' : funding.irr !== null && funding.irr >= 0 ? 'warning' : 'danger'}
+            />
+            <MetricCard
+              title="NPV @ 25%"
+              value={money(funding.npv)}
+              subtitle="Investor flows at a VC hurdle rate"
+              status={funding.npv >= 0 ? 'good' : 'danger'}
+            />
+            <MetricCard
+              title="Payback"
+              value={funding.paybackMonths === null ? 'Beyond plan' : `${funding.paybackMonths.toFixed(1)}mo`}
+              subtitle="Funding earned back from free cash flow"
+              status={funding.paybackMonths === null ? 'danger' : funding.paybackMonths <= 36 ? 'good' : 'warning'}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Exit Waterfall */}
+      <div className="metrics-section">
+        <h3>💰 Exit Waterfall</h3>
+        <ExitWaterfallSection capTable={capTableAtExit} equityValue={equityValue} modelCurrency={modelCurrency} money={money} />
+      </div>
+
       {/* Founder Scenarios */}
       <div className="metrics-section">
         <h3>🤔 Founder-Friendly Scenarios</h3>
         <div className="scenarios-grid">
           {founderScenarios.map((scenario, idx) => (
-            <FounderScenarioCard key={idx} scenario={scenario} />
+            <FounderScenarioCard key={idx} scenario={scenario} money={money} />
           ))}
         </div>
       </div>
@@ -282,14 +353,146 @@ const RiskBar: React.FC<{ label: string; value: number }> = ({ label, value }) =
   </div>
 );
 
-const FounderScenarioCard: React.FC<{ scenario: FounderScenario }> = ({ scenario }) => (
+const WATERFALL_COLORS = ['#2563eb', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b'];
+
+const ExitWaterfallSection: React.FC<{ capTable: CapTable; equityValue: number; modelCurrency: string; money: Money }> = ({ capTable, equityValue, modelCurrency, money }) => {
+  const [exitValue, setExitValue] = useState(Math.max(0, Math.round(equityValue)));
+  const [classTerms, setClassTerms] = useState<Record<string, Partial<ShareClass>>>({});
+
+  const withTerms: CapTable = {
+    ...capTable,
+    shareClasses: capTable.shareClasses.map(shareClass => ({ ...shareClass, ...classTerms[shareClass.id] }))
+  };
+  const preferredClasses = withTerms.shareClasses.filter(shareClass => shareClass.kind === 'preferred');
+  const updateTerms = (classId: string, changes: Partial<ShareClass>) =>
+    setClassTerms({ ...classTerms, [classId]: { ...classTerms[classId], ...changes } });
+
+  const waterfall = calculateExitWaterfall(withTerms, exitValue);
+  const chartData = waterfallAcrossExits(withTerms, Math.max(exitValue, equityValue, 1) * 2).map(point => ({
+    exitValue: point.exitValue,
+    ...Object.fromEntries(point.holders.map(holder => [holder.holderId, Math.round(holder.payout)]))
+  }));
+
+  return (
+    <div className="waterfall-section">
+      <div className="waterfall-controls">
+        <label>
+          Exit value ({modelCurrency})
+          <input type="number" min="0" value={exitValue} onChange={(e) => setExitValue(Math.max(0, Number(e.target.value)))} />
+        </label>
+        <button onClick={() => setExitValue(Math.max(0, Math.round(equityValue)))}>
+          Use equity value ({money(equityValue)})
+        </button>
+      </div>
+
+      {preferredClasses.length === 0 ? (
+        <p className="waterfall-note">No preferred shares yet: proceeds are split pro rata by shareholding.</p>
+      ) : (
+        <table className="waterfall-table">
+          <thead>
+            <tr>
+              <th>Share class</th>
+              <th>Invested</th>
+              <th>Multiple</th>
+              <th>Participating</th>
+              <th>Seniority</th>
+              <th>Preference</th>
+              <th>Participation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preferredClasses.map(shareClass => {
+              const payout = waterfall.classes.find(item => item.shareClassId === shareClass.id);
+              return (
+                <tr key={shareClass.id}>
+                  <td>{shareClass.name}{payout?.convertedToCommon ? ' (converts)' : ''}</td>
+                  <td>{money(shareClass.investedAmount || 0)}</td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={shareClass.preferenceMultiple ?? 1}
+                      onChange={(e) => updateTerms(shareClass.id, { preferenceMultiple: Math.max(0, Number(e.target.value)) })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={!!shareClass.participating}
+                      onChange={(e) => updateTerms(shareClass.id, { participating: e.target.checked })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      value={shareClass.seniority ?? 0}
+                      onChange={(e) => updateTerms(shareClass.id, { seniority: Number(e.target.value) })}
+                    />
+                  </td>
+                  <td>{money(payout?.preference || 0)}</td>
+                  <td>{money(payout?.participation || 0)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="waterfall-payouts">
+        {waterfall.holders.map(holder => (
+          <div key={holder.holderId} className="waterfall-payout">
+            <h4>{holder.name}</h4>
+            <div className="metric-value">{money(holder.payout)}</div>
+            <div className="metric-subtitle">{holder.percentage.toFixed(1)}% of proceeds</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="waterfall-chart">
+        <ResponsiveContainer width="100%" height={320}>
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="exitValue" tickFormatter={(value) => money(value, true)} />
+            <YAxis tickFormatter={(value) => money(value, true)} />
+            <Tooltip
+              formatter={(value: number) => money(value)}
+              labelFormatter={(value: number) => `Exit at ${money(value)}`}
+            />
+            <Legend />
+            {waterfall.holders.map((holder, index) => (
+              <Line
+                key={holder.holderId}
+                type="linear"
+                dataKey={holder.holderId}
+                name={holder.name}
+                stroke={WATERFALL_COLORS[index % WATERFALL_COLORS.length]}
+                dot={false}
+                strokeWidth={2}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+const FounderScenarioCard: React.FC<{ scenario: FounderScenario; money: Money }> = ({ scenario, money }) => (
   <div className={`scenario-card ${scenario.urgency.toLowerCase()}`}>
     <h4>{scenario.scenario}</h4>
     <div className="scenario-impact">
-      <div>Burn: +₹{scenario.impact.monthlyBurnIncrease.toLocaleString()}/mo</div>
+      <div>Burn: +{money(scenario.impact.monthlyBurnIncrease)}/mo</div>
       <div>Runway: -{scenario.impact.runwayReduction.toFixed(1)} months</div>
       {scenario.impact.revenueImpact > 0 && (
-        <div>Revenue: +₹{scenario.impact.revenueImpact.toLocaleString()}</div>
+        <div>Revenue: +{money(scenario.impact.revenueImpact)}</div>
+      )}
+      {scenario.equityGrant && (
+        <div>
+          Equity: {scenario.equityGrant.options.toLocaleString()} options ({scenario.equityGrant.ownershipPercent.toFixed(2)}%),
+          SBC {money(scenario.equityGrant.monthlyStockCompensation)}/mo
+        </div>
       )}
     </div>
     <div className="scenario-recommendation">{scenario.recommendation}</div>
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import { SavedModel } from '../types';
+import { deleteModel, duplicateModel, listModels, renameModel } from '../services/workspaceService';
+
+interface Props {
+  onOpen: (model: SavedModel) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const ModelWorkspace: React.FC<Props> = ({ onOpen }) => {
+  const [models, setModels] = useState<SavedModel[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  // Every change goes to IndexedDB first, then the list is read back
+  const refresh = async (change?: Promise<unknown>) => {
+    try {
+      await change;
+      setModels(await listModels());
+    } catch (error) {
+      console.error('Workspace error:', error);
+      alert('The local model workspace is unavailable in this browser.');
+    }
+  };
+
+  // Without IndexedDB the list simply stays hidden
+  useEffect(() => {
+    listModels().then(setModels).catch(error => console.error('Workspace error:', error));
+  }, []);
+
+  const startRename = (model: SavedModel) => {
+    setEditingId(model.id);
+    setDraftName(model.name);
+  };
+
+  const finishRename = (model: SavedModel) => {
+    setEditingId(null);
+    refresh(renameModel(model, draftName));
+  };
+
+  const remove = (model: SavedModel) => {
+    if (window.confirm(`Delete "${model.name}"? Its scenarios, AI analysis and chat history will be lost.`)) {
+      refresh(deleteModel(model.id));
+    }
+  };
+
+  if (models.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6 max-w-4xl mx-auto">
+      <div className="flex items-center gap-2 mb-2">
+        <FolderOpen size={20} className="text-blue-600" />
+        <h3 className="font-semibold text-slate-800">Saved Models</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Models are kept in this browser with their scenarios, AI analysis and chat, so reopening one costs no regeneration.
+      </p>
+
+      <div className="divide-y divide-slate-100">
+        {models.map(model => (
+          <div key={model.id} className="flex items-center justify-between gap-4 py-2">
+            <div className="flex-1 min-w-0">
+              {editingId === model.id ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={draftName}
+                    autoFocus
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') finishRename(model); if (e.key === 'Escape') setEditingId(null); }}
+                  />
+                  <button onClick={() => finishRename(model)} className="text-green-600 hover:text-green-700" title="Save name">
+                    <Check size={16} />
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-slate-400 hover:text-slate-600" title="Cancel">
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <button onClick={() => onOpen(model)} className="text-left w-full">
+                  <p className="font-medium text-slate-800 truncate hover:text-blue-600">{model.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {model.userInput.industry} · {model.scenarios.length} scenarios · updated {new Date(model.updatedAt).toLocaleString()}
+                  </p>
+                </button>
+              )}
+            </div>
+            {editingId !== model.id && (
+              <div className="flex items-center gap-3 text-slate-400">
+                <button onClick={() => onOpen(model)} className="text-sm font-medium text-blue-600 hover:text-blue-700">Open</button>
+                <button onClick={() => startRename(model)} className="hover:text-blue-600" title="Rename">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => refresh(duplicateModel(model))} className="hover:text-blue-600" title="Duplicate">
+                  <Copy size={16} />
+                </button>
+                <button onClick={() => remove(model)} className="hover:text-red-600" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModelWorkspace;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Receipt } from 'lucide-react';
+import { OpexLine, ProjectionDrivers } from '../types';
+import { defaultOpexLines, opexCategoryLabel } from '../services/opexService';
+import CurrencySelect from './CurrencySelect';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-slate-100 disabled:text-slate-400';
+
+const OpexLinesEditor: React.FC<Props> = ({ drivers, onChange }) => {
+  const lines = drivers.opexLines || [];
+
+  const updateLine = (line: OpexLine, changes: Partial<OpexLine>) =>
+    onChange({ opexLines: lines.map(l => l.category === line.category ? { ...l, ...changes } : l) });
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Receipt size={20} className="text-blue-600" />
+        <h3 className="text-lg font-bold text-slate-800">Operating Expense Lines</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Each category grows from its current annual amount or scales with revenue. Leave growth blank to follow the
+        scenario&apos;s OpEx growth. Payroll from the headcount plan is added to the payroll line.
+      </p>
+
+      {lines.length === 0 ? (
+        <button
+          onClick={() => onChange({ opexLines: defaultOpexLines(drivers.baseOpex) })}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+        >
+          Split OpEx into categories
+        </button>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Category</th>
+                <th className="px-2 py-2">Driver</th>
+                <th className="px-2 py-2">Current Annual Amount</th>
+                <th className="px-2 py-2">Currency</th>
+                <th className="px-2 py-2">Growth (%)</th>
+                <th className="px-2 py-2">% of Revenue</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {lines.map(line => {
+                const isGrowth = line.method === 'growth';
+                return (
+                  <tr key={line.category}>
+                    <td className="px-2 py-2 font-medium text-slate-700">{opexCategoryLabel(line.category)}</td>
+                    <td className="px-2 py-2">
+                      <select
+                        className={inputClass}
+                        value={line.method}
+                        onChange={(e) => updateLine(line, { method: e.target.value as OpexLine['method'] })}
+                      >
+                        <option value="growth">Annual growth</option>
+                        <option value="percentOfRevenue">% of revenue</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        min="0"
+                        disabled={!isGrowth}
+                        className={inputClass}
+                        value={Math.round(line.baseAmount)}
+                        onChange={(e) => updateLine(line, { baseAmount: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-2 py-2 w-24">
+                      <CurrencySelect drivers={drivers} value={line.currency} className={inputClass} onChange={(currency) => updateLine(line, { currency })} />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        step="0.5"
+                        disabled={!isGrowth}
+                        className={inputClass}
+                        value={line.growthRate === undefined ? '' : Math.round(line.growthRate * 1000) / 10}
+                        placeholder={String(Math.round(drivers.opexGrowthRate * 1000) / 10)}
+                        onChange={(e) => updateLine(line, { growthRate: e.target.value === '' ? undefined : Number(e.target.value) / 100 })}
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        step="0.5"
+                        min="0"
+                        disabled={isGrowth}
+                        className={inputClass}
+                        value={Math.round(line.revenueShare * 1000) / 10}
+                        onChange={(e) => updateLine(line, { revenueShare: Number(e.target.value) / 100 })}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpexLinesEditor;
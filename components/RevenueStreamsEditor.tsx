@@ -0,0 +1,110 @@
+import React from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { ProjectionDrivers, RevenueStream } from '../types';
+import { createRevenueStream } from '../services/revenueStreamService';
+import CurrencySelect from './CurrencySelect';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const RevenueStreamsEditor: React.FC<Props> = ({ drivers, onChange }) => {
+  const streams = drivers.revenueStreams || [];
+
+  const setStreams = (revenueStreams: RevenueStream[]) => onChange({ revenueStreams });
+
+  const updateStream = (id: string, changes: Partial<RevenueStream>) =>
+    setStreams(streams.map(stream => stream.id === id ? { ...stream, ...changes } : stream));
+
+  // The first stream takes over the single revenue line so totals don't jump when splitting
+  const addStream = () => setStreams([
+    ...streams,
+    streams.length === 0
+      ? createRevenueStream({ name: 'Core', baseRevenue: drivers.baseRevenue, growthRate: drivers.revenueGrowthRate, cogsRatio: drivers.cogsRatio })
+      : createRevenueStream()
+  ]);
+
+  const removeStream = (id: string) => setStreams(streams.filter(stream => stream.id !== id));
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Layers size={20} className="text-blue-600" />
+          <h3 className="text-lg font-bold text-slate-800">Revenue Streams</h3>
+        </div>
+        <button
+          onClick={addStream}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+        >
+          <Plus size={16} /> Add Stream
+        </button>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        {streams.length === 0
+          ? 'Revenue is modelled as a single line. Add streams (e.g. subscription, services, usage) to give each its own growth and COGS.'
+          : 'Streams replace the single revenue growth and COGS drivers; their totals feed every statement.'}
+      </p>
+
+      {streams.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-2 py-2">Stream</th>
+                <th className="px-2 py-2">Current Annual Revenue</th>
+                <th className="px-2 py-2">Currency</th>
+                <th className="px-2 py-2">Growth (%)</th>
+                <th className="px-2 py-2">COGS (%)</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {streams.map(stream => (
+                <tr key={stream.id}>
+                  <td className="px-2 py-2">
+                    <input className={inputClass} value={stream.name} onChange={(e) => updateStream(stream.id, { name: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input type="number" min="0" className={inputClass} value={stream.baseRevenue} onChange={(e) => updateStream(stream.id, { baseRevenue: Number(e.target.value) })} />
+                  </td>
+                  <td className="px-2 py-2 w-24">
+                    <CurrencySelect drivers={drivers} value={stream.currency} className={inputClass} onChange={(currency) => updateStream(stream.id, { currency })} />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      step="0.5"
+                      className={inputClass}
+                      value={Math.round(stream.growthRate * 1000) / 10}
+                      onChange={(e) => updateStream(stream.id, { growthRate: Number(e.target.value) / 100 })}
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      step="0.5"
+                      className={inputClass}
+                      value={Math.round(stream.cogsRatio * 1000) / 10}
+                      onChange={(e) => updateStream(stream.id, { cogsRatio: Number(e.target.value) / 100 })}
+                    />
+                  </td>
+                  <td className="px-2 py-2 text-right">
+                    <button onClick={() => removeStream(stream.id)} className="text-slate-400 hover:text-red-600" title="Remove stream">
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevenueStreamsEditor;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { CalendarRange } from 'lucide-react';
+import { ProjectionDrivers } from '../types';
+import { CUSTOM_SEASONALITY, MONTH_NAMES, SEASONALITY_PRESETS, seasonalityPreset } from '../services/seasonalityService';
+
+interface Props {
+  drivers: ProjectionDrivers;
+  industry: string;
+  onChange: (changes: Partial<ProjectionDrivers>) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const NO_SEASONALITY = '';
+
+const SeasonalityEditor: React.FC<Props> = ({ drivers, industry, onChange }) => {
+  const profile = drivers.seasonality;
+  const suggested = seasonalityPreset(industry);
+
+  const choosePreset = (name: string) => {
+    const preset = SEASONALITY_PRESETS.find(candidate => candidate.name === name);
+    onChange({ seasonality: preset ? { name: preset.name, weights: [...preset.weights] } : undefined });
+  };
+
+  const updateWeight = (index: number, weight: number) => {
+    if (!profile) return;
+    onChange({ seasonality: { name: CUSTOM_SEASONALITY, weights: profile.weights.map((current, i) => i === index ? weight : current) } });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarRange size={20} className="text-blue-600" />
+        <h3 className="text-lg font-bold text-slate-800">Seasonality</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Shapes each year&apos;s revenue across calendar months; COGS and revenue-linked OpEx follow it while fixed costs stay
+        smooth. Annual totals are unchanged, but quarterly and monthly views, working capital and the cash low point reflect
+        the troughs. Weights are relative to an average month of 1.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Profile</label>
+          <select className={inputClass} value={profile?.name ?? NO_SEASONALITY} onChange={(e) => choosePreset(e.target.value)}>
+            <option value={NO_SEASONALITY}>None (even months)</option>
+            {SEASONALITY_PRESETS.map(preset => (
+              <option key={preset.name} value={preset.name}>
+                {preset.name}{preset.name === suggested.name && preset.name !== 'Flat' ? ' (your industry)' : ''}
+              </option>
+            ))}
+            {profile?.name === CUSTOM_SEASONALITY && <option value={CUSTOM_SEASONALITY}>{CUSTOM_SEASONALITY}</option>}
+          </select>
+        </div>
+      </div>
+
+      {profile && (
+        <div className="grid grid-cols-3 md:grid-cols-6 lg:grid-cols-12 gap-2">
+          {MONTH_NAMES.map((month, index) => (
+            <div key={month}>
+              <label className="block text-xs font-medium text-slate-500 mb-1">{month}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                className={inputClass}
+                value={profile.weights[index]}
+                onChange={(e) => updateWeight(index, Number(e.target.value))}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeasonalityEditor;
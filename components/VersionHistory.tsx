@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, Save } from 'lucide-react';
+import { ModelVersion, ScenarioData, UserInput } from '../types';
+import { ScenarioDiff, diffVersions, isCellChanged } from '../services/versionService';
+import { formatMoney } from '../services/currencyService';
+
+interface Props {
+  versions: ModelVersion[];
+  userInput: UserInput;
+  scenarios: ScenarioData[];
+  currency: string;
+  onSaveVersion: (note: string) => void;
+  onRestore: (version: ModelVersion) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Compare against the numbers on screen, which may not be saved as a version yet
+const CURRENT = 'current';
+
+const STATUS_STYLES: Record<ScenarioDiff['status'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-amber-100 text-amber-700',
+  unchanged: 'bg-slate-100 text-slate-500'
+};
+
+const VersionHistory: React.FC<Props> = ({ versions, userInput, scenarios, currency, onSaveVersion, onRestore }) => {
+  const [note, setNote] = useState('');
+  const [fromId, setFromId] = useState(versions[versions.length - 1]?.id ?? CURRENT);
+  const [toId, setToId] = useState(CURRENT);
+  const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
+
+  const formatAmount = (value: number) => formatMoney(value, currency, { compact: true });
+  const formatDelta = (value: number, format: (value: number) => string) => `${value >= 0 ? '+' : '-'}${format(Math.abs(value))}`;
+  const formatRunway = (months: number) => months >= 999 ? 'Cash never runs out' : `${months} months`;
+
+  const snapshot = (id: string) => id === CURRENT ? { userInput, scenarios } : versions.find(version => version.id === id);
+  const from = snapshot(fromId);
+  const to = snapshot(toId);
+  const diff = from && to && fromId !== toId ? diffVersions(from, to) : null;
+  const shown = diff?.scenarios.find(scenario => scenario.name === selectedScenario)
+    ?? diff?.scenarios.find(scenario => scenario.status !== 'unchanged')
+    ?? diff?.scenarios[0];
+
+  const versionLabel = (version: ModelVersion) => `${version.note} · ${new Date(version.createdAt).toLocaleString()}`;
+  const versionOptions = (
+    <>
+      <option value={CURRENT}>Current numbers</option>
+      {[...versions].reverse().map(version => <option key={version.id} value={version.id}>{versionLabel(version)}</option>)}
+    </>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <History size={20} className="text-blue-600" />
+        <h3 className="text-lg font-bold text-slate-800">Version History</h3>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Save a version before making big edits, then compare any two to see which assumptions and annual figures moved
+        and what that did to runway and valuation. Rolling the forecast forward and importing actuals save one first
+        on their own.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          className={inputClass}
+          placeholder="Note, e.g. Before hiring plan v2"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <button
+          onClick={() => { onSaveVersion(note); setNote(''); }}
+          className="flex items-center gap-1 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors whitespace-nowrap"
+        >
+          <Save size={16} /> Save Version
+        </button>
+      </div>
+
+      {versions.length > 0 && (
+        <div className="max-h-48 overflow-y-auto divide-y divide-slate-100 mb-6">
+          {[...versions].reverse().map(version => (
+            <div key={version.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="font-medium text-slate-700">{version.note}</p>
+                <p className="text-xs text-slate-500">{new Date(version.createdAt).toLocaleString()} · {version.scenarios.length} scenarios</p>
+              </div>
+              <button
+                onClick={() => onRestore(version)}
+                className="flex items-center gap-1 text-slate-500 hover:text-blue-600"
+                title="Restore; the current numbers are saved as a version first"
+              >
+                <RotateCcw size={14} /> Restore
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Compare</label>
+          <select className={inputClass} value={fromId} onChange={(e) => setFromId(e.target.value)}>{versionOptions}</select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">With</label>
+          <select className={inputClass} value={toId} onChange={(e) => setToId(e.target.value)}>{versionOptions}</select>
+        </div>
+      </div>
+
+      {!diff && <p className="text-sm text-slate-500">Pick two different versions to compare.</p>}
+
+      {diff && (
+        <div className="space-y-6">
+          {diff.inputs.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-slate-700 mb-2">Inputs</h4>
+              <table className="w-full text-sm text-left">
+                <tbody className="divide-y divide-slate-100">
+                  {diff.inputs.map(change => (
+                    <tr key={change.label}>
+                      <td className="px-2 py-1.5 font-medium text-slate-700 w-48">{change.label}</td>
+                      <td className="px-2 py-1.5 text-slate-500">{change.before}</td>
+                      <td className="px-2 py-1.5 text-slate-800">{change.after}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {diff.scenarios.map(scenario => (
+              <button
+                key={scenario.name}
+                onClick={() => setSelectedScenario(scenario.name)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm ${shown?.name === scenario.name ? 'border-blue-600 text-blue-700' : 'border-slate-200 text-slate-600'}`}
+              >
+                {scenario.name}
+                <span className={`px-1.5 py-0.5 rounded text-xs ${STATUS_STYLES[scenario.status]}`}>{scenario.status}</span>
+              </button>
+            ))}
+          </div>
+
+          {shown && (
+            <>
+              {shown.impact && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {[
+                    {
+                      title: 'Runway',
+                      before: formatRunway(shown.impact.runwayBefore),
+                      after: formatRunway(shown.impact.runwayAfter),
+                      change: shown.impact.runwayAfter - shown.impact.runwayBefore,
+                      delta: formatDelta(shown.impact.runwayAfter - shown.impact.runwayBefore, value => `${Math.round(value * 10) / 10} months`)
+                    },
+                    {
+                      title: 'DCF Valuation',
+                      before: formatAmount(shown.impact.valuationBefore),
+                      after: formatAmount(shown.impact.valuationAfter),
+                      change: shown.impact.valuationAfter - shown.impact.valuationBefore,
+                      delta: formatDelta(shown.impact.valuationAfter - shown.impact.valuationBefore, formatAmount)
+                    }
+                  ].map(card => (
+                    <div key={card.title} className="p-4 bg-slate-50 rounded-lg border border-slate-200">
+                      <p className="text-sm text-slate-500">{card.title}</p>
+                      <p className="text-lg font-bold text-slate-800">{card.before} → {card.after}</p>
+                      <p className={`text-sm font-medium ${card.change > 0 ? 'text-green-600' : card.change < 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                        {card.change === 0 ? 'No change' : card.delta}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {shown.assumptions.length > 0 && (
+                <div>
+                  <h4 className="font-semibold text-slate-700 mb-2">Assumptions</h4>
+                  <table className="w-full text-sm text-left">
+                    <tbody className="divide-y divide-slate-100">
+                      {shown.assumptions.map((change, index) => (
+                        <tr key={index}>
+                          <td className="px-2 py-1.5 font-medium text-slate-700 w-48">{change.label}</td>
+                          <td className="px-2 py-1.5 text-slate-500">{change.before}</td>
+                          <td className="px-2 py-1.5 text-slate-800">{change.after}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-500 uppercase border-b border-slate-200">
+                    <tr>
+                      <th className="px-2 py-2">Line</th>
+                      {shown.years.map(year => <th key={year.year} className="px-2 py-2 text-right">Year {year.year}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {(shown.years[0]?.cells ?? []).map((first, row) => (
+                      <tr key={first.field}>
+                        <td className="px-2 py-1.5 font-medium text-slate-700">{first.label}</td>
+                        {shown.years.map(year => {
+                          const cell = year.cells[row];
+                          const format = (value: number) => cell.field === 'headcount' ? Math.round(value).toLocaleString() : formatAmount(value);
+                          const changed = isCellChanged(cell);
+                          return (
+                            <td
+                              key={year.year}
+                              className={`px-2 py-1.5 text-right ${changed ? 'bg-amber-50' : ''}`}
+                              title={changed ? `Was ${format(cell.before)}` : undefined}
+                            >
+                              <div className={changed ? 'font-semibold text-slate-900' : 'text-slate-600'}>{format(cell.after)}</div>
+                              {changed && (
+                                <div className="text-xs text-amber-700">
+                                  {formatDelta(cell.after - cell.before, format)}
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,247 @@
+import { HistoricalYear } from '../types';
+import { normalizeHeader, parseAmount, parseCsvRows, usesDecimalComma } from './csvUtils';
+import { parseMonth } from './periodUtils';
+import { sortHistory } from './historyService';
+
+export type AccountingFormat = 'QuickBooks' | 'Xero' | 'Tally' | 'Zoho Books' | 'Generic';
+
+// What an account contributes to the history; subtotals and balance sheet lines other than cash are ignored
+export type AccountCategory = 'revenue' | 'cogs' | 'opex' | 'otherIncome' | 'otherExpense' | 'cash' | 'ignore';
+
+export const ACCOUNT_CATEGORIES: { category: AccountCategory; label: string }[] = [
+  { category: 'revenue', label: 'Revenue' },
+  { category: 'cogs', label: 'COGS' },
+  { category: 'opex', label: 'OpEx' },
+  { category: 'otherIncome', label: 'Other Income' },
+  { category: 'otherExpense', label: 'Other Expense / Tax' },
+  { category: 'cash', label: 'Cash / Bank' },
+  { category: 'ignore', label: 'Ignore' }
+];
+
+// An amount column of a profit and loss export and the financial year it belongs to
+export interface PeriodColumn {
+  index: number;
+  header: string;
+  label: string; // Year the figures are counted in, e.g. "FY2025"; columns sharing a label are added up
+  months: number; // Months the column covers
+}
+
+export interface ImportedAccount {
+  row: number; // Index into the sheet's rows
+  name: string;
+  section: string; // Heading the account sits under in the export, e.g. "Cost of Sales"
+  category: AccountCategory;
+}
+
+// Column mapping of an export: a profit and loss has an amount column per period, a trial balance
+// has debit and credit columns for a single period
+export interface AccountingMapping {
+  layout: 'periods' | 'trialBalance';
+  accountColumn: number;
+  periodColumns: PeriodColumn[];
+  debitColumn: number;
+  creditColumn: number;
+  trialBalanceLabel: string; // Year a trial balance closes, e.g. "FY2025"
+  accounts: ImportedAccount[];
+}
+
+export interface AccountingSheet {
+  format: AccountingFormat;
+  headers: string[];
+  rows: string[][]; // Rows below the header
+  decimalComma: boolean; // Amounts are written "1.234,56"
+  mapping: AccountingMapping;
+}
+
+// Text that gives away which package wrote the export, checked in order
+const FORMAT_SIGNATURES: { format: AccountingFormat; markers: string[] }[] = [
+  { format: 'Tally', markers: ['tally', 'sales accounts', 'indirect expenses', 'indirect incomes', 'nett profit'] },
+  { format: 'Zoho Books', markers: ['zoho', 'total for operating income', 'total for cost of goods sold', 'net profit loss'] },
+  { format: 'Xero', markers: ['xero', 'total trading income', 'total operating expenses', 'total cost of sales'] },
+  { format: 'QuickBooks', markers: ['quickbooks', 'net operating income', 'total cost of goods sold', 'total income'] }
+];
+
+// Headings and account names mapped to a category, most specific first; matched against normalized text
+const CATEGORY_KEYWORDS: { category: AccountCategory; keywords: string[] }[] = [
+  { category: 'otherIncome', keywords: ['other income', 'indirect income', 'non operating income', 'interest income', 'interest received'] },
+  { category: 'otherExpense', keywords: ['other expense', 'non operating expense', 'income tax', 'tax expense', 'provision for tax', 'interest paid', 'interest expense', 'finance cost'] },
+  { category: 'cogs', keywords: ['cost of goods sold', 'cost of sales', 'cost of revenue', 'direct cost', 'direct expense', 'purchase', 'cogs'] },
+  { category: 'cash', keywords: ['bank', 'cash'] },
+  { category: 'revenue', keywords: ['income', 'revenue', 'sales', 'turnover', 'fees'] },
+  { category: 'opex', keywords: ['expense', 'overhead', 'salar', 'wage', 'payroll', 'rent', 'marketing', 'advertising', 'software', 'subscription', 'utilit', 'travel', 'insurance', 'professional', 'depreciation', 'office', 'admin', 'repairs', 'telephone', 'internet'] }
+];
+
+// Lines that add up other lines; counting them too would double the figures
+const SUBTOTAL_PATTERN = /^(total|net |nett |gross profit|operating profit|net income|ebitda|profit before|profit after|profit for|net profit|net loss)/;
+
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/g;
+
+// Heading of the one amount column in a single-period report
+const SINGLE_AMOUNT_PATTERN = /^(total|amount|balance)$/i;
+
+// Dates with a day in them, which exports use to head the period ending on that day
+const FULL_DATE_PATTERN = /^(\d{1,2}[-\s/.]+[a-z]|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}$|\d{4}[-/.]\d{1,2}[-/.]\d{1,2})/i;
+
+const matchCategory = (text: string): AccountCategory | undefined => {
+  const normalized = normalizeHeader(text);
+  // Keywords match from the start of a word, so "indirect expenses" is not read as "direct expense"
+  return normalized === '' ? undefined : CATEGORY_KEYWORDS.find(({ keywords }) => keywords.some(keyword => ` ${normalized}`.includes(` ${keyword}`)))?.category;
+};
+
+/**
+ * Category an account most likely belongs to: subtotals are ignored, otherwise the heading it sits under decides
+ * and the account's own name is the fallback
+ */
+export const suggestCategory = (name: string, section: string): AccountCategory => {
+  if (SUBTOTAL_PATTERN.test(normalizeHeader(name) + ' ')) return 'ignore';
+  return matchCategory(section) ?? matchCategory(name) ?? 'ignore';
+};
+
+/**
+ * Financial year a column heading refers to and how many months it covers: "Jan - Dec 2024", a period-end date
+ * such as "31 Mar 2025" and "FY 2024-25" count as a full year ending in the last year named; a month without a
+ * day ("Mar 2025") covers one month. Undefined when the heading names no year.
+ */
+export const periodOfHeader = (header: string): { label: string; months: number } | undefined => {
+  const text = header.trim();
+  const month = parseMonth(text);
+  if (month) return { label: `FY${month.slice(0, 4)}`, months: FULL_DATE_PATTERN.test(text) ? 12 : 1 };
+  const fiscal = text.match(/\b((?:19|20)\d{2})\s*[-/]\s*(\d{2})\b/);
+  if (fiscal) return { label: `FY${fiscal[1].slice(0, 2)}${fiscal[2]}`, months: 12 };
+  const years = text.match(YEAR_PATTERN);
+  if (years) return { label: `FY${years[years.length - 1]}`, months: 12 };
+  // Tally writes dates with two-digit years: "1-Apr-24 to 31-Mar-25"
+  const shortYears = [...text.matchAll(/[a-z]{3}[-\s'](\d{2})\b/gi)];
+  return shortYears.length > 0 ? { label: `FY20${shortYears[shortYears.length - 1][1]}`, months: 12 } : undefined;
+};
+
+const hasAmount = (cells: string[], columns: number[]) => columns.some(column => Number.isFinite(parseAmount(cells[column])));
+
+/**
+ * Accounts listed in the export, each with the heading it sits under and a suggested category. Rows without
+ * an amount are headings.
+ */
+export const listAccounts = (rows: string[][], accountColumn: number, amountColumns: number[]): ImportedAccount[] => {
+  let section = '';
+  return rows.flatMap((cells, row) => {
+    const name = (cells[accountColumn] || '').trim();
+    if (name === '') return [];
+    if (!hasAmount(cells, amountColumns)) {
+      section = name;
+      return [];
+    }
+    return [{ row, name, section, category: suggestCategory(name, section) }];
+  });
+};
+
+/**
+ * Read a profit and loss or trial balance exported as CSV from QuickBooks, Xero, Tally (vertical layout),
+ * Zoho Books or a spreadsheet. Title rows above the column headings are skipped, and the mapping is a
+ * best guess for the user to review. Undefined when no amount columns can be found.
+ */
+export const readAccountingExport = (text: string): AccountingSheet | undefined => {
+  const allRows = parseCsvRows(text);
+  const signature = normalizeHeader(allRows.flat().join(' '));
+  const format = FORMAT_SIGNATURES.find(({ markers }) => markers.some(marker => signature.includes(marker)))?.format ?? 'Generic';
+
+  // The heading row is the first naming periods, debit and credit columns or a single amount column
+  const headerIndex = allRows.findIndex(cells => cells.slice(1).some(cell => periodOfHeader(cell) || /debit|credit/i.test(cell) || SINGLE_AMOUNT_PATTERN.test(cell)));
+  if (headerIndex < 0) return undefined;
+  const headers = allRows[headerIndex];
+  const rows = allRows.slice(headerIndex + 1);
+  // Single-period reports name the period in the title rows instead, e.g. "January - December 2024"
+  const titleYear = allRows.slice(0, headerIndex).map(cells => periodOfHeader(cells.join(' '))).find(Boolean)
+    ?? { label: `FY${new Date().getFullYear()}`, months: 12 };
+
+  const debitColumn = headers.findIndex(header => /debit/i.test(header));
+  const creditColumn = headers.findIndex(header => /credit/i.test(header));
+  const layout = debitColumn >= 0 && creditColumn >= 0 ? 'trialBalance' : 'periods';
+  // Totals and "% of income" columns repeat the period columns
+  const datedColumns: PeriodColumn[] = layout === 'periods'
+    ? headers.flatMap((header, index) => {
+      const period = index > 0 && !/total|%/i.test(header) ? periodOfHeader(header) : undefined;
+      return period ? [{ index, header, ...period }] : [];
+    })
+    : [];
+  const singleColumn = headers.findIndex((header, index) => index > 0 && SINGLE_AMOUNT_PATTERN.test(header));
+  const periodColumns = datedColumns.length > 0 || layout === 'trialBalance' || singleColumn < 0
+    ? datedColumns
+    : [{ index: singleColumn, header: headers[singleColumn], ...titleYear }];
+  if (layout === 'periods' && periodColumns.length === 0) return undefined;
+
+  const amountColumns = layout === 'trialBalance' ? [debitColumn, creditColumn] : periodColumns.map(column => column.index);
+  return {
+    format,
+    headers,
+    rows,
+    decimalComma: usesDecimalComma(text),
+    mapping: {
+      layout,
+      accountColumn: 0,
+      periodColumns,
+      debitColumn,
+      creditColumn,
+      trialBalanceLabel: titleYear.label,
+      accounts: listAccounts(rows, 0, amountColumns)
+    }
+  };
+};
+
+/**
+ * Mapping with its accounts listed afresh after the account or amount columns change; categories already
+ * chosen are kept for accounts still listed
+ */
+export const relistAccounts = (sheet: AccountingSheet, mapping: AccountingMapping): AccountingMapping => {
+  const amountColumns = mapping.layout === 'trialBalance' ? [mapping.debitColumn, mapping.creditColumn] : mapping.periodColumns.map(column => column.index);
+  return {
+    ...mapping,
+    accounts: listAccounts(sheet.rows, mapping.accountColumn, amountColumns).map(account => {
+      const previous = mapping.accounts.find(other => other.row === account.row && other.name === account.name);
+      return previous ? { ...account, category: previous.category } : account;
+    })
+  };
+};
+
+// Amounts an account adds to a category: a P&L shows income and expenses as positive figures, a trial balance
+// has credits for income and debits for expenses and cash
+const accountAmount = (cells: string[], category: AccountCategory, sheet: AccountingSheet, column?: number): number => {
+  const { mapping } = sheet;
+  const value = (index: number) => {
+    const amount = parseAmount(cells[index], sheet.decimalComma);
+    return Number.isFinite(amount) ? amount : 0;
+  };
+  if (mapping.layout === 'periods') return column === undefined ? 0 : value(column);
+  const credit = value(mapping.creditColumn) - value(mapping.debitColumn);
+  return category === 'revenue' || category === 'otherIncome' ? credit : -credit;
+};
+
+/**
+ * Years of history from the mapped export; columns sharing a year are added up, with cash at the last of them
+ */
+export const summarizeHistory = (sheet: AccountingSheet): HistoricalYear[] => {
+  const { mapping } = sheet;
+  const columns: (PeriodColumn | undefined)[] = mapping.layout === 'periods' ? mapping.periodColumns : [undefined];
+  const years = new Map<string, HistoricalYear & { otherIncome: number; otherExpense: number }>();
+
+  columns.forEach(column => {
+    const label = column?.label || mapping.trialBalanceLabel;
+    const year = years.get(label) ?? { label, months: 0, revenue: 0, cogs: 0, opex: 0, netIncome: 0, otherIncome: 0, otherExpense: 0 };
+    let cash: number | undefined;
+    mapping.accounts.forEach(account => {
+      if (account.category === 'ignore') return;
+      const amount = accountAmount(sheet.rows[account.row] || [], account.category, sheet, column?.index);
+      if (account.category === 'cash') cash = (cash ?? 0) + amount;
+      else year[account.category] += amount;
+    });
+    years.set(label, {
+      ...year,
+      months: Math.min(12, year.months + (column?.months ?? 12)),
+      ...(cash !== undefined && { cashBalance: cash })
+    });
+  });
+
+  return sortHistory([...years.values()].map(({ otherIncome, otherExpense, ...year }) => ({
+    ...year,
+    netIncome: year.revenue + otherIncome - year.cogs - year.opex - otherExpense
+  })));
+};
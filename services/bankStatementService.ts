@@ -0,0 +1,171 @@
+import { BankTransaction, BurnMeasure, MeasuredBurn, TransactionCategory } from '../types';
+import { normalizeHeader, parseAmount, parseCsvRows, usesDecimalComma } from './csvUtils';
+import { parseMonth } from './periodUtils';
+import { addMonths } from './projectionEngine';
+
+export const TRANSACTION_CATEGORIES: { category: TransactionCategory; label: string }[] = [
+  { category: 'revenue', label: 'Revenue' },
+  { category: 'payroll', label: 'Payroll' },
+  { category: 'vendors', label: 'Vendors' },
+  { category: 'tax', label: 'Tax' },
+  { category: 'transfer', label: 'Transfers & Financing' }
+];
+
+// Categories whose outflows are burn; transfers move cash without spending it
+const BURN_CATEGORIES: TransactionCategory[] = ['payroll', 'vendors', 'tax'];
+
+// Description rules, checked in order; the first match wins. Money in that matches none is revenue, money out is a vendor.
+const CATEGORY_RULES: { category: TransactionCategory; pattern: RegExp }[] = [
+  { category: 'transfer', pattern: /\b(transfer to self|own account|self transfer|sweep|fixed deposit|fd booking|fd closure|between accounts|internal transfer|loan|emi|disburs|investment|share capital|share application|equity|safe note|convertible|capital infusion)\b/i },
+  { category: 'payroll', pattern: /\b(salary|salaries|payroll|wages|stipend|bonus|gusto|deel|rippling|adp|justworks|epf|esic|provident fund|pension|reimbursement)\b/i },
+  { category: 'tax', pattern: /\b(gst|tds|income tax|advance tax|tax payment|cbdt|irs|hmrc|vat|eftps|sales tax|payroll tax|professional tax|challan)\b/i },
+  { category: 'revenue', pattern: /\b(stripe|razorpay|paypal|payu|cashfree|square|invoice|inv[-\s]?\d|customer|subscription payment|sales receipt|settlement)\b/i }
+];
+
+// Column names recognised in bank statement exports
+const STATEMENT_COLUMNS = {
+  date: ['date', 'transaction date', 'txn date', 'value date', 'posting date', 'posted date', 'booking date'],
+  description: ['description', 'narration', 'particulars', 'details', 'memo', 'payee', 'transaction details', 'remarks', 'reference'],
+  amount: ['amount', 'transaction amount', 'amount inr', 'amount usd', 'net amount'],
+  debit: ['debit', 'withdrawal', 'withdrawals', 'withdrawal amt', 'withdrawal amount', 'debit amount', 'paid out', 'money out', 'dr'],
+  credit: ['credit', 'deposit', 'deposits', 'deposit amt', 'deposit amount', 'credit amount', 'paid in', 'money in', 'cr'],
+  balance: ['balance', 'closing balance', 'running balance', 'available balance'],
+  direction: ['type', 'dr cr', 'cr dr', 'transaction type', 'debit credit']
+};
+
+// Month of a statement date; two-digit years are read day-first ("01/04/25"), and month-first dates
+// ("03/31/2025") when day-first makes no sense
+const statementMonth = (text: string): string | undefined => {
+  const month = parseMonth(text);
+  if (month) return month;
+  const numeric = text.trim().match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (!numeric) return undefined;
+  const year = Number(numeric[3]) < 100 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+  return parseMonth(`${year}-${numeric[3].length === 2 && Number(numeric[2]) <= 12 ? numeric[2] : numeric[1]}`);
+};
+
+/**
+ * Category of a transaction from its description and direction, and whether a rule decided it
+ */
+export const categorizeTransaction = (description: string, amount: number): Pick<BankTransaction, 'category' | 'categorizedBy'> => {
+  const rule = CATEGORY_RULES.find(({ pattern }) => pattern.test(description));
+  if (rule) return { category: rule.category, categorizedBy: 'rule' };
+  return { category: amount >= 0 ? 'revenue' : 'vendors', categorizedBy: 'default' };
+};
+
+// Statements exported newest first are turned round, judged by which order the running balance adds up in
+// or, without balances, by the months
+const chronological = (transactions: BankTransaction[]): BankTransaction[] => {
+  const adds = (earlier: BankTransaction, later: BankTransaction) =>
+    earlier.balance !== undefined && later.balance !== undefined && Math.abs(earlier.balance + later.amount - later.balance) < 0.01;
+  const pairs = transactions.slice(1).map((transaction, i) => [transactions[i], transaction]);
+  const oldestFirst = pairs.filter(([previous, next]) => adds(previous, next)).length;
+  const newestFirst = pairs.filter(([previous, next]) => adds(next, previous)).length;
+  const reversed = oldestFirst === newestFirst
+    ? (transactions[0]?.month ?? '') > (transactions[transactions.length - 1]?.month ?? '')
+    : newestFirst > oldestFirst;
+  return reversed ? [...transactions].reverse() : transactions;
+};
+
+/**
+ * Read a bank statement exported as CSV. Columns are matched by name: a date, a description and either one
+ * amount column (signed, or with a Dr/Cr marker) or separate debit and credit columns, plus an optional running
+ * balance. Title rows above the headings and lines without a date or amount (opening balances, totals) are skipped.
+ * Lines come back oldest first.
+ */
+export const parseBankStatementCsv = (text: string): BankTransaction[] => {
+  const rows = parseCsvRows(text);
+  const decimalComma = usesDecimalComma(text);
+  const columnIn = (headers: string[], names: string[]) => headers.findIndex(header => names.includes(header));
+  const headerIndex = rows.findIndex(cells => {
+    const headers = cells.map(normalizeHeader);
+    return columnIn(headers, STATEMENT_COLUMNS.date) >= 0
+      && (columnIn(headers, STATEMENT_COLUMNS.amount) >= 0 || columnIn(headers, STATEMENT_COLUMNS.debit) >= 0);
+  });
+  if (headerIndex < 0) return [];
+
+  const headers = rows[headerIndex].map(normalizeHeader);
+  const column = Object.fromEntries(
+    Object.entries(STATEMENT_COLUMNS).map(([field, names]) => [field, columnIn(headers, names)])
+  ) as Record<keyof typeof STATEMENT_COLUMNS, number>;
+  const value = (cells: string[], index: number) => {
+    const amount = index >= 0 ? parseAmount(cells[index], decimalComma) : NaN;
+    return Number.isFinite(amount) ? amount : 0;
+  };
+
+  // A single amount column may be unsigned, with the direction in its own column or written after the figure
+  const signedAmount = (cells: string[]) => {
+    const amount = value(cells, column.amount);
+    const direction = `${cells[column.direction] ?? ''} ${cells[column.amount] ?? ''}`.trim();
+    return /^(dr|debit|withdrawal)\b|\bdr\.?$/i.test(direction) ? -Math.abs(amount) : amount;
+  };
+
+  const transactions = rows.slice(headerIndex + 1).flatMap(cells => {
+    const date = cells[column.date] || '';
+    const month = statementMonth(date);
+    // Debit and credit columns both hold positive figures
+    const amount = column.amount >= 0
+      ? signedAmount(cells)
+      : value(cells, column.credit) - Math.abs(value(cells, column.debit));
+    if (!month || amount === 0) return [];
+    const description = column.description >= 0 ? cells[column.description] || '' : '';
+    const balance = column.balance >= 0 ? parseAmount(cells[column.balance], decimalComma) : NaN;
+    return [{
+      date,
+      month,
+      description,
+      amount,
+      ...(Number.isFinite(balance) && { balance }),
+      ...categorizeTransaction(description, amount)
+    }];
+  });
+  return chronological(transactions);
+};
+
+/**
+ * Statements merged in date order; lines already loaded (same date, description and amount) are not added twice
+ */
+export const mergeTransactions = (existing: BankTransaction[], imported: BankTransaction[]): BankTransaction[] => {
+  const key = (transaction: BankTransaction) => `${transaction.date}|${transaction.description}|${transaction.amount}`;
+  const seen = new Set(existing.map(key));
+  // Sorting is stable, so lines within a month keep their statement order
+  return [...existing, ...imported.filter(transaction => !seen.has(key(transaction)))]
+    .sort((a, b) => a.month.localeCompare(b.month));
+};
+
+/**
+ * Average monthly revenue and burn over the `months` calendar months up to `throughMonth`; months without
+ * transactions count as zero
+ */
+export const trailingBurn = (transactions: BankTransaction[], throughMonth: string, months: number): BurnMeasure => {
+  const firstMonth = transactions.reduce((earliest, transaction) => transaction.month < earliest ? transaction.month : earliest, throughMonth);
+  const window = Array.from({ length: months }, (_, i) => addMonths(throughMonth, -i)).filter(month => month >= firstMonth);
+  const inWindow = transactions.filter(transaction => window.includes(transaction.month));
+  const count = Math.max(1, window.length);
+  // Refunds net off within their category
+  const revenue = inWindow.filter(transaction => transaction.category === 'revenue').reduce((total, transaction) => total + transaction.amount, 0) / count;
+  const grossBurn = -inWindow.filter(transaction => BURN_CATEGORIES.includes(transaction.category)).reduce((total, transaction) => total + transaction.amount, 0) / count;
+  return { months: window.length, revenue, grossBurn, netBurn: grossBurn - revenue };
+};
+
+/**
+ * Trailing 3- and 6-month burn of the statements up to their latest month; undefined without transactions
+ */
+export const measureBurn = (transactions: BankTransaction[], basis: MeasuredBurn['basis'] = 3): MeasuredBurn | undefined => {
+  if (transactions.length === 0) return undefined;
+  const throughMonth = transactions.reduce((latest, transaction) => transaction.month > latest ? transaction.month : latest, transactions[0].month);
+  const withBalance = transactions.filter(transaction => transaction.balance !== undefined);
+  return {
+    throughMonth,
+    trailing3: trailingBurn(transactions, throughMonth, 3),
+    trailing6: trailingBurn(transactions, throughMonth, 6),
+    basis,
+    ...(withBalance.length > 0 && { cashBalance: withBalance[withBalance.length - 1].balance })
+  };
+};
+
+/**
+ * Window of the measured burn that runway and the founder scenarios use
+ */
+export const selectedBurn = (measured: MeasuredBurn): BurnMeasure =>
+  measured.basis === 6 ? measured.trailing6 : measured.trailing3;
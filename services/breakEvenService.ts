@@ -1,15 +1,22 @@
-import { ScenarioData } from '../types';
-import { calculateRunway, RunwayStatus } from './runwayUtils';
+import { MeasuredBurn, ScenarioData } from '../types';
+import { calculateRunway, calculateRunwayFromBurn, calculateScenarioRunway, RunwayStatus } from './runwayUtils';
+import { selectedBurn } from './bankStatementService';
+import { addMonths, getMonthlyProjections } from './projectionEngine';
+
+// Fewest statement months a measured burn must cover before runway relies on it over the typed-in expenses
+const MIN_MEASURED_MONTHS = 3;
 
 export interface BreakEvenAnalysis {
   breakEvenRevenue: number;
   breakEvenUnits: number;
   marginOfSafety: number;
   operatingLeverage: number;
-  runway: RunwayStatus;
+  runway: RunwayStatus; // At the burn measured from bank statements when they cover enough months, else as planned
+  runwayFromStatements: boolean; // Runway and burn rate come from the bank statements
   burnRate: number;
   breakEvenMonth: number;
   monthsToBreakEven: number;
+  breakEvenPeriod: string | null; // "YYYY-MM" of the first month with positive EBITDA
   requiredGrowthRate: number;
   probability: number;
   strategy: string[];
@@ -23,18 +30,38 @@ export const calculateBreakEven = (scenario: ScenarioData, assumptions: {
   variableCostPerUnit?: number;
   currentCash?: number;
   userInputs?: { monthlyExpenses: number; availableCash: number };
+  measuredBurn?: MeasuredBurn;
 }): BreakEvenAnalysis => {
   const firstYear = scenario.projections[0];
-  const secondYear = scenario.projections[1];
-  const currentCash = assumptions.currentCash || assumptions.userInputs?.availableCash || firstYear.cashBalance;
+  const months = getMonthlyProjections(scenario);
+  const firstMonth = months[0];
+  const openingCash = scenario.drivers?.startingCash ?? firstMonth.cashBalance - firstMonth.netIncome;
+  const currentCash = assumptions.currentCash || assumptions.userInputs?.availableCash || openingCash;
   
   // Use actual user monthly expenses instead of hardcoded values
   const userMonthlyExpenses = assumptions.userInputs?.monthlyExpenses || 0;
-  const actualMonthlyCosts = Math.max(userMonthlyExpenses, (firstYear.cogs + firstYear.opex) / 12);
+  const actualMonthlyCosts = Math.max(userMonthlyExpenses, firstMonth.cogs + firstMonth.opex);
   const monthlyRevenue = firstYear.revenue / 12;
   
-  // Calculate runway using utility (prevents negative values)
-  const runway = calculateRunway(currentCash, actualMonthlyCosts, monthlyRevenue);
+  // Runway walks the projected months still ahead until cash runs out; an explicit cash override falls back to a
+  // flat burn plus the average monthly cash absorbed by working capital in year 1
+  const monthlyWorkingCapitalOutflow = -(firstYear.cashFlow?.changeInWorkingCapital ?? 0) / 12;
+  const plannedRunway = currentCash === openingCash ?
+    calculateScenarioRunway(scenario) :
+    calculateRunway(currentCash, actualMonthlyCosts, firstMonth.revenue, monthlyWorkingCapitalOutflow);
+  // Statements show what the company actually spends today, against the cash they close with; cash runs out
+  // that many months after the latest statement month
+  const measured = assumptions.measuredBurn && selectedBurn(assumptions.measuredBurn).months >= MIN_MEASURED_MONTHS
+    ? assumptions.measuredBurn
+    : undefined;
+  const measuredRunway = measured
+    ? calculateRunwayFromBurn(measured.cashBalance ?? currentCash, selectedBurn(measured))
+    : undefined;
+  const runway: RunwayStatus = measured && measuredRunway ? {
+    ...measuredRunway,
+    zeroCashPeriod: measuredRunway.months < 999 ? addMonths(measured.throughMonth, Math.ceil(measuredRunway.months)) : null,
+    lowPoint: plannedRunway.lowPoint
+  } : plannedRunway;
   
   // Calculate break-even using proper cost structure
   const fixedCosts = firstYear.opex;
@@ -52,15 +79,9 @@ export const calculateBreakEven = (scenario: ScenarioData, assumptions: {
   
   const breakEvenMonth = monthlyRevenue > 0 ? breakEvenRevenue / monthlyRevenue : 0;
   
-  // Calculate months to break-even
-  let monthsToBreakEven: number;
-  if (firstYear.revenue >= breakEvenRevenue) {
-    monthsToBreakEven = 0;
-  } else {
-    const revenueGap = breakEvenRevenue - firstYear.revenue;
-    const monthlyGrowth = (secondYear.revenue - firstYear.revenue) / 12;
-    monthsToBreakEven = monthlyGrowth > 0 ? Math.min(36, revenueGap / monthlyGrowth) : runway.months;
-  }
+  // Months to break-even: first projected month whose EBITDA turns positive (horizon length if none does)
+  const breakEvenMonthData = months.find(month => month.ebitda >= 0);
+  const monthsToBreakEven = breakEvenMonthData ? breakEvenMonthData.month - 1 : months.length;
   
   // Required growth rate
   const requiredGrowthRate = firstYear.revenue > 0 ? 
@@ -79,7 +100,10 @@ export const calculateBreakEven = (scenario: ScenarioData, assumptions: {
     'Optimize unit economics and reduce CAC',
     runway.months < 6 ? 'URGENT: Secure emergency funding' : 'Plan next funding round',
     'Focus on customer retention and upselling',
-    'Monitor burn rate weekly'
+    'Monitor burn rate weekly',
+    ...(measuredRunway && measuredRunway.months < plannedRunway.months - 3
+      ? [`Actual spend is ahead of plan: runway at today's burn is ${measuredRunway.months} months, against ${plannedRunway.months} as planned`]
+      : [])
   ];
 
   return {
@@ -88,9 +112,11 @@ export const calculateBreakEven = (scenario: ScenarioData, assumptions: {
     marginOfSafety,
     operatingLeverage,
     runway,
-    burnRate: actualMonthlyCosts,
+    runwayFromStatements: !!measured,
+    burnRate: measured ? selectedBurn(measured).grossBurn : actualMonthlyCosts,
     breakEvenMonth,
     monthsToBreakEven: Math.round(monthsToBreakEven),
+    breakEvenPeriod: breakEvenMonthData?.period ?? null,
     requiredGrowthRate: Math.round(requiredGrowthRate * 10) / 10,
     probability: Math.round(probability),
     strategy
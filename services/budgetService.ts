@@ -67,7 +67,22 @@ export const analyzeBudget = (scenario: ScenarioData, currentBudget: number): Bu
     };
   }
   
-  const workingCapitalNeeds = firstYear.revenue * workingCapitalRate;
+  // With categorized opex the plan's own spend mix replaces the rule-of-thumb split; only reserves stay scenario-driven
+  const breakdown = firstYear.opexBreakdown;
+  if (breakdown && annualOperatingCosts > 0) {
+    const investable = 1 - allocationRules.reserves;
+    allocationRules = {
+      operations: investable * (annualOperatingCosts - breakdown.marketing - breakdown.rnd) / annualOperatingCosts,
+      marketing: investable * breakdown.marketing / annualOperatingCosts,
+      development: investable * breakdown.rnd / annualOperatingCosts,
+      reserves: allocationRules.reserves
+    };
+  }
+  
+  // Modelled receivables, stock and payables replace the rule-of-thumb share of revenue
+  const workingCapitalNeeds = firstYear.cashFlow ?
+    Math.max(0, -firstYear.cashFlow.changeInWorkingCapital) :
+    firstYear.revenue * workingCapitalRate;
   const contingencyBuffer = annualOperatingCosts * contingencyRate;
   const recommendedBudget = annualOperatingCosts + workingCapitalNeeds + contingencyBuffer;
   
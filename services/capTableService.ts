@@ -0,0 +1,235 @@
+import { CapTable, ConvertibleKind, ShareClass, Shareholder, ShareholderRole } from '../types';
+import { conversionAmount, conversionPrice, convertsAt, sanitizeConvertibles } from './convertibleService';
+import { allocateGrants, sanitizeEsopPlan, topUpPool, unallocatedPool } from './esopService';
+
+export const SHAREHOLDER_ROLES: { role: ShareholderRole; label: string }[] = [
+  { role: 'founder', label: 'Founder' },
+  { role: 'employee', label: 'Employee' },
+  { role: 'investor', label: 'Investor' },
+  { role: 'esop', label: 'Option Pool' }
+];
+
+const COMMON_CLASS: ShareClass = { id: 'common', name: 'Common', kind: 'common' };
+
+export interface HolderOwnership {
+  holderId: string;
+  name: string;
+  role: ShareholderRole;
+  shareClass: string;
+  shares: number;
+  percentage: number; // Fully diluted, including the unallocated option pool
+}
+
+export interface PricedRound {
+  round: string;
+  amount: number;
+  preMoneyValuation: number;
+  month?: string; // "YYYY-MM" the round closes; SAFEs and notes issued later stay outstanding
+}
+
+export interface ConversionResult {
+  instrumentId: string;
+  name: string;
+  kind: ConvertibleKind;
+  amountConverted: number; // Including accrued note interest
+  conversionPrice: number;
+  shares: number;
+  percentage: number; // Of the company after the round
+}
+
+export interface RoundResult extends PricedRound {
+  postMoneyValuation: number;
+  pricePerShare: number;
+  sharesIssued: number;
+  investorHolderId: string; // Cap table line of the round's new investors
+  dilution: number; // % of the company sold in this round
+  conversions: ConversionResult[]; // SAFEs and notes converted into this round
+  conversionDilution: number; // % of the company issued to converting instruments
+  poolTopUpShares: number; // Added to the option pool ahead of the round
+  poolTopUpDilution: number; // % of the company added to the option pool
+  ownership: HolderOwnership[]; // Every holder after the round
+  capTable: CapTable;
+}
+
+const newId = () => `${Date.now()}-${Math.round(Math.random() * 1e6)}`;
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+/**
+ * Starting cap table for a company that hasn't entered one: founders with a 10% option pool
+ */
+export const createDefaultCapTable = (): CapTable => ({
+  shareClasses: [COMMON_CLASS],
+  holders: [
+    { id: 'founders', name: 'Founders', role: 'founder', shareClassId: COMMON_CLASS.id, shares: 900000 },
+    { id: 'esop', name: 'Option Pool', role: 'esop', shareClassId: COMMON_CLASS.id, shares: 100000 }
+  ]
+});
+
+/**
+ * New holder of common shares
+ */
+export const createShareholder = (overrides: Partial<Shareholder> = {}): Shareholder => ({
+  id: newId(),
+  name: 'New Shareholder',
+  role: 'founder',
+  shareClassId: COMMON_CLASS.id,
+  shares: 0,
+  ...overrides
+});
+
+/**
+ * Fully diluted share count
+ */
+export const totalShares = (capTable: CapTable): number =>
+  capTable.holders.reduce((total, holder) => total + holder.shares, 0);
+
+/**
+ * Each holder's fully diluted stake
+ */
+export const ownershipOf = (capTable: CapTable): HolderOwnership[] => {
+  const total = totalShares(capTable);
+  return capTable.holders.map(holder => ({
+    holderId: holder.id,
+    name: holder.name,
+    role: holder.role,
+    shareClass: capTable.shareClasses.find(shareClass => shareClass.id === holder.shareClassId)?.name || holder.shareClassId,
+    shares: holder.shares,
+    percentage: total > 0 ? (holder.shares / total) * 100 : 0
+  }));
+};
+
+/**
+ * Issue a priced round: options granted so far come out of the pool, outstanding SAFEs and notes convert,
+ * any pool top-up for the round is added, then new preferred shares are sold at pre-money valuation / fully
+ * diluted shares. Converted shares and the top-up count towards the pre-money share count, which in turn sets
+ * the discount price the instruments convert at and the size of the top-up, so they are solved together.
+ */
+export const applyPricedRound = (existing: CapTable, round: PricedRound): RoundResult => {
+  const capTable = allocateGrants(existing, round.month);
+  const sharesBefore = totalShares(capTable);
+  const poolBefore = unallocatedPool(capTable);
+  const topUp = capTable.esop?.topUps.find(candidate => candidate.round === round.round);
+  const outstanding = capTable.convertibles || [];
+  const converting = outstanding.filter(instrument => convertsAt(instrument, round.month));
+
+  let conversionShares = converting.map(() => 0);
+  let poolTopUpShares = 0;
+  let pricePerShare = 0;
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sharesAfterConversion = sharesBefore + conversionShares.reduce((total, shares) => total + shares, 0);
+    const preMoneyShares = sharesAfterConversion + poolTopUpShares;
+    pricePerShare = preMoneyShares > 0 ? round.preMoneyValuation / preMoneyShares : 0;
+    const next = converting.map(instrument => {
+      const price = conversionPrice(instrument, pricePerShare, sharesBefore, sharesAfterConversion);
+      return price > 0 ? conversionAmount(instrument, round.month) / price : 0;
+    });
+    // The unallocated pool must reach the target share of the post-money company
+    const nextTopUp = topUp && pricePerShare > 0
+      ? Math.max(0, topUp.targetPercent * (preMoneyShares + round.amount / pricePerShare) - poolBefore)
+      : 0;
+    const converged = Math.abs(nextTopUp - poolTopUpShares) < 0.01 &&
+      next.every((shares, index) => Math.abs(shares - conversionShares[index]) < 0.01);
+    conversionShares = next;
+    poolTopUpShares = nextTopUp;
+    if (converged) break;
+  }
+
+  const totalConverted = conversionShares.reduce((total, shares) => total + shares, 0);
+  const sharesIssued = pricePerShare > 0 ? round.amount / pricePerShare : 0;
+  const sharesAfter = sharesBefore + poolTopUpShares + totalConverted + sharesIssued;
+  const percentOf = (shares: number) => sharesAfter > 0 ? (shares / sharesAfter) * 100 : 0;
+  const shareClass: ShareClass = {
+    id: slug(round.round),
+    name: `${round.round} Preferred`,
+    kind: 'preferred',
+    investedAmount: round.amount + converting.reduce((total, instrument) => total + conversionAmount(instrument, round.month), 0),
+    preferenceMultiple: 1,
+    participating: false,
+    seniority: capTable.shareClasses.filter(existing => existing.kind === 'preferred').length + 1 // Later rounds rank ahead
+  };
+  const updated: CapTable = {
+    shareClasses: [...capTable.shareClasses, shareClass],
+    holders: [
+      ...topUpPool(capTable, poolTopUpShares).holders,
+      ...converting.map((instrument, index): Shareholder => ({
+        id: instrument.id,
+        name: instrument.name,
+        role: 'investor',
+        shareClassId: shareClass.id,
+        shares: conversionShares[index]
+      })),
+      { id: `${shareClass.id}-investors`, name: `${round.round} Investors`, role: 'investor', shareClassId: shareClass.id, shares: sharesIssued }
+    ],
+    convertibles: outstanding.filter(instrument => !converting.includes(instrument)),
+    ...(capTable.esop && { esop: { ...capTable.esop, topUps: capTable.esop.topUps.filter(candidate => candidate !== topUp) } })
+  };
+
+  return {
+    ...round,
+    postMoneyValuation: round.preMoneyValuation + round.amount,
+    pricePerShare,
+    sharesIssued,
+    investorHolderId: `${shareClass.id}-investors`,
+    dilution: percentOf(sharesIssued),
+    conversions: converting.map((instrument, index) => ({
+      instrumentId: instrument.id,
+      name: instrument.name,
+      kind: instrument.kind,
+      amountConverted: conversionAmount(instrument, round.month),
+      conversionPrice: conversionShares[index] > 0 ? conversionAmount(instrument, round.month) / conversionShares[index] : 0,
+      shares: conversionShares[index],
+      percentage: percentOf(conversionShares[index])
+    })),
+    conversionDilution: percentOf(totalConverted),
+    poolTopUpShares,
+    poolTopUpDilution: percentOf(poolTopUpShares),
+    ownership: ownershipOf(updated),
+    capTable: updated
+  };
+};
+
+/**
+ * Apply rounds in order, each one diluting everyone who came before it
+ */
+export const simulateRounds = (capTable: CapTable, rounds: PricedRound[]): RoundResult[] => {
+  const results: RoundResult[] = [];
+  rounds.reduce((current, round) => {
+    const result = applyPricedRound(current, round);
+    results.push(result);
+    return result.capTable;
+  }, capTable);
+  return results;
+};
+
+/**
+ * Combined % given up by existing holders across rounds, counting new money, conversions and pool top-ups:
+ * 1 - product of (1 - each round's dilution)
+ */
+export const cumulativeDilution = (results: RoundResult[]): number =>
+  (1 - results.reduce((retained, result) =>
+    retained * (1 - (result.dilution + result.conversionDilution + result.poolTopUpDilution) / 100), 1)) * 100;
+
+/**
+ * Clamp share counts to whole shares and make sure every holder's share class exists
+ */
+export const sanitizeCapTable = (capTable: CapTable | undefined): CapTable | undefined => {
+  if (!capTable || !Array.isArray(capTable.holders)) return undefined;
+
+  const shareClasses = Array.isArray(capTable.shareClasses) && capTable.shareClasses.length > 0
+    ? capTable.shareClasses.filter(Boolean)
+    : [COMMON_CLASS];
+  const fallbackClassId = shareClasses[0].id;
+  return {
+    shareClasses,
+    holders: capTable.holders.filter(Boolean).map((holder, index) => ({
+      id: String(holder.id || `holder-${index + 1}`),
+      name: String(holder.name || `Shareholder ${index + 1}`),
+      role: SHAREHOLDER_ROLES.some(({ role }) => role === holder.role) ? holder.role : 'founder',
+      shareClassId: shareClasses.some(shareClass => shareClass.id === holder.shareClassId) ? holder.shareClassId : fallbackClassId,
+      shares: Math.max(0, Math.round(Number(holder.shares) || 0))
+    })),
+    convertibles: sanitizeConvertibles(capTable.convertibles),
+    esop: sanitizeEsopPlan(capTable.esop)
+  };
+};
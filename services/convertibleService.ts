@@ -0,0 +1,73 @@
+import { ConvertibleInstrument, ConvertibleKind } from '../types';
+import { MONTH_PATTERN, monthsBetween } from './periodUtils';
+
+export const CONVERTIBLE_KINDS: { kind: ConvertibleKind; label: string }[] = [
+  { kind: 'postMoneySafe', label: 'Post-money SAFE' },
+  { kind: 'preMoneySafe', label: 'Pre-money SAFE' },
+  { kind: 'note', label: 'Convertible note' }
+];
+
+/**
+ * Whether an instrument is outstanding when a round closes in `month`; every instrument converts when the month is unknown
+ */
+export const convertsAt = (instrument: ConvertibleInstrument, month?: string): boolean =>
+  !month || !MONTH_PATTERN.test(instrument.issueMonth) || instrument.issueMonth <= month;
+
+/**
+ * Amount that converts into shares: the investment, plus simple interest up to `month` for notes
+ */
+export const conversionAmount = (instrument: ConvertibleInstrument, month?: string): number => {
+  if (instrument.kind !== 'note' || !month || !MONTH_PATTERN.test(instrument.issueMonth)) return instrument.amount;
+  const years = Math.max(0, monthsBetween(instrument.issueMonth, month)) / 12;
+  return instrument.amount * (1 + instrument.annualInterestRate * years);
+};
+
+/**
+ * Price per share an instrument converts at: the better of its discounted round price and its cap price.
+ * A post-money SAFE's cap is spread over the capitalization including every converting instrument;
+ * pre-money SAFEs and notes spread theirs over the shares outstanding before anything converts.
+ */
+export const conversionPrice = (
+  instrument: ConvertibleInstrument,
+  roundPrice: number,
+  sharesBeforeConversion: number,
+  sharesAfterConversion: number
+): number => {
+  const discountedPrice = roundPrice * (1 - instrument.discount);
+  if (instrument.valuationCap <= 0) return discountedPrice;
+
+  const capShares = instrument.kind === 'postMoneySafe' ? sharesAfterConversion : sharesBeforeConversion;
+  return capShares > 0 ? Math.min(discountedPrice, instrument.valuationCap / capShares) : discountedPrice;
+};
+
+/**
+ * New instrument with sensible defaults
+ */
+export const createConvertible = (overrides: Partial<ConvertibleInstrument> & Pick<ConvertibleInstrument, 'issueMonth'>): ConvertibleInstrument => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  name: 'SAFE',
+  kind: 'postMoneySafe',
+  amount: 0,
+  valuationCap: 0,
+  discount: 0.2,
+  annualInterestRate: 0,
+  ...overrides
+});
+
+/**
+ * Clamp instruments into range; instruments with an invalid issue month convert at the first round without interest
+ */
+export const sanitizeConvertibles = (instruments: ConvertibleInstrument[] | undefined): ConvertibleInstrument[] | undefined => {
+  if (!Array.isArray(instruments)) return undefined;
+
+  return instruments.filter(Boolean).map((instrument, index) => ({
+    id: String(instrument.id || `convertible-${index + 1}`),
+    name: String(instrument.name || `Convertible ${index + 1}`),
+    kind: CONVERTIBLE_KINDS.some(({ kind }) => kind === instrument.kind) ? instrument.kind : 'postMoneySafe',
+    amount: Math.max(0, Number(instrument.amount) || 0),
+    valuationCap: Math.max(0, Number(instrument.valuationCap) || 0),
+    discount: Math.min(0.9, Math.max(0, Number(instrument.discount) || 0)),
+    annualInterestRate: Math.min(1, Math.max(0, Number(instrument.annualInterestRate) || 0)),
+    issueMonth: String(instrument.issueMonth ?? '')
+  }));
+};
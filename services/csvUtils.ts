@@ -0,0 +1,92 @@
+/**
+ * Helpers for reading spreadsheet and accounting exports saved as CSV
+ */
+
+// A comma unless the first line has more semicolons or tabs
+const csvDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return [';', '\t'].reduce((best, candidate) => count(candidate) > count(best) ? candidate : best, ',');
+};
+
+/**
+ * Whether an export writes amounts the continental way, "1.234,56"; semicolon-delimited exports do
+ */
+export const usesDecimalComma = (text: string): boolean => csvDelimiter(text) === ';';
+
+/**
+ * Rows of cells; quoted cells may contain delimiters, doubled quotes and line breaks. The delimiter is a
+ * comma unless the first line has more semicolons or tabs. Blank lines are dropped.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const delimiter = csvDelimiter(text);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+};
+
+/**
+ * Amount written the way accounts show it: currency symbols, thousands separators and trailing "Dr"/"Cr"
+ * are ignored, and parentheses or a trailing minus mean negative. The decimal separator is the last of "." and
+ * "," when both appear; a lone separator followed by three digits is a thousands separator when `decimalComma`
+ * says the export writes "1.234,56", and a decimal point otherwise. NaN when the cell holds no number.
+ */
+export const parseAmount = (cell: string | undefined, decimalComma: boolean = false): number => {
+  const text = String(cell ?? '').trim();
+  if (text === '') return NaN;
+  const negative = /^\(.*\)$/.test(text) || /-$/.test(text) || /^-/.test(text.replace(/^[^\d(-]+/, ''));
+  // Separators left over from "Rs." or a sentence-ending full stop are not part of the number
+  const number = text.replace(/(dr|cr)\.?$/i, '').replace(/[^\d.,]/g, '').replace(/^[.,]+|[.,]+$/g, '');
+  if (number === '') return NaN;
+
+  const lastComma = number.lastIndexOf(',');
+  const lastDot = number.lastIndexOf('.');
+  const separator = lastComma > lastDot ? ',' : '.';
+  const occurrences = number.split(separator).length - 1;
+  const decimals = number.length - Math.max(lastComma, lastDot) - 1;
+  const isDecimal = lastComma >= 0 && lastDot >= 0
+    ? true
+    : occurrences === 1 && (decimals !== 3 || (separator === ',') === decimalComma);
+  const thousands = isDecimal ? (separator === ',' ? '.' : ',') : separator;
+  const value = Number(number.split(thousands).join('').replace(',', '.'));
+  if (!Number.isFinite(value)) return NaN;
+  return negative ? -value : value;
+};
+
+/**
+ * Header text reduced to lower-case words, for matching column names across exports
+ */
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
@@ -0,0 +1,175 @@
+import { FinancialYear, FxRate, MonthlyPeriod, PeriodFinancials, ProjectionDrivers, ScenarioData } from '../types';
+
+// Models without a currency of their own are in the app's home currency
+export const DEFAULT_CURRENCY = 'INR';
+
+// FX rates are quoted as units of each currency per US dollar
+export const FX_ANCHOR_CURRENCY = 'USD';
+
+// Indicative rates used when the model's FX table has no entry for a currency; enter or import current rates to override
+export const DEFAULT_FX_RATES: FxRate[] = [
+  { currency: 'USD', unitsPerUsd: 1 },
+  { currency: 'INR', unitsPerUsd: 83 },
+  { currency: 'EUR', unitsPerUsd: 0.92 },
+  { currency: 'GBP', unitsPerUsd: 0.79 },
+  { currency: 'SGD', unitsPerUsd: 1.35 },
+  { currency: 'AUD', unitsPerUsd: 1.52 },
+  { currency: 'CAD', unitsPerUsd: 1.36 },
+  { currency: 'JPY', unitsPerUsd: 150 },
+  { currency: 'CNY', unitsPerUsd: 7.2 },
+  { currency: 'AED', unitsPerUsd: 3.67 },
+  { currency: 'CHF', unitsPerUsd: 0.88 }
+];
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+// Period fields that are counts, labels or indices rather than money
+const NON_MONETARY_FIELDS = new Set(['year', 'month', 'quarter', 'period', 'label', 'headcount', 'streamId', 'name']);
+
+/**
+ * ISO 4217 code in upper case, or undefined when the value is not one
+ */
+export const sanitizeCurrencyCode = (value: unknown): string | undefined => {
+  const code = String(value ?? '').trim().toUpperCase();
+  return CURRENCY_CODE.test(code) ? code : undefined;
+};
+
+const isUsable = (rate: FxRate) => CURRENCY_CODE.test(rate.currency) && rate.unitsPerUsd > 0;
+
+/**
+ * Units of `currency` per US dollar: the model's table first, then the indicative defaults; undefined when neither knows it
+ */
+export const fxRateFor = (currency: string, fxRates: FxRate[] = []): number | undefined => {
+  if (currency === FX_ANCHOR_CURRENCY) return 1;
+  return (fxRates.find(rate => rate.currency === currency && isUsable(rate)) || DEFAULT_FX_RATES.find(rate => rate.currency === currency))?.unitsPerUsd;
+};
+
+/**
+ * Currencies in `currencies` that no rate is known for
+ */
+export const missingFxRates = (currencies: string[], fxRates: FxRate[] = []): string[] =>
+  [...new Set(currencies)].filter(currency => fxRateFor(currency, fxRates) === undefined);
+
+/**
+ * Units of `to` one unit of `from` buys; 1 when either rate is unknown (see missingFxRates)
+ */
+export const exchangeRate = (from: string, to: string, fxRates: FxRate[] = []): number => {
+  if (from === to) return 1;
+  const fromRate = fxRateFor(from, fxRates);
+  const toRate = fxRateFor(to, fxRates);
+  return fromRate && toRate ? toRate / fromRate : 1;
+};
+
+/**
+ * Convert an amount between currencies
+ */
+export const convertAmount = (amount: number, from: string, to: string, fxRates: FxRate[] = []): number =>
+  amount * exchangeRate(from, to, fxRates);
+
+/**
+ * Format a whole amount in any ISO currency; codes the browser does not recognise are written as a prefix
+ */
+export const formatMoney = (value: number, currency: string, options: { compact?: boolean; display?: 'symbol' | 'code' } = {}): string => {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      currencyDisplay: options.display || 'symbol',
+      maximumFractionDigits: 0,
+      ...(options.compact && { notation: 'compact' as const })
+    }).format(value);
+  } catch {
+    return `${currency} ${Math.round(value).toLocaleString()}`;
+  }
+};
+
+/**
+ * Clamp an FX table into shape; rows with an unfinished code or rate are kept but not used
+ */
+export const sanitizeFxRates = (rates: FxRate[] | undefined): FxRate[] | undefined => {
+  if (!Array.isArray(rates)) return undefined;
+
+  return rates.filter(Boolean).map(rate => ({
+    currency: String(rate.currency ?? '').trim().toUpperCase().slice(0, 3),
+    unitsPerUsd: Math.max(0, Number(rate.unitsPerUsd) || 0)
+  }));
+};
+
+/**
+ * Read an FX table from CSV text with one "CODE,units per USD" pair per line; headers and unreadable lines are skipped
+ */
+export const parseFxRatesCsv = (text: string): FxRate[] => {
+  const byCurrency = new Map<string, number>();
+  text.split(/\r?\n/).forEach(line => {
+    const [code, rate] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const currency = sanitizeCurrencyCode(code);
+    const unitsPerUsd = Number(rate);
+    if (currency && Number.isFinite(unitsPerUsd) && unitsPerUsd > 0) byCurrency.set(currency, unitsPerUsd);
+  });
+  return [...byCurrency].map(([currency, unitsPerUsd]) => ({ currency, unitsPerUsd }));
+};
+
+/**
+ * Imported rates replace existing rows for the same currency; other rows are kept
+ */
+export const mergeFxRates = (existing: FxRate[], imported: FxRate[]): FxRate[] => [
+  ...existing.filter(rate => !imported.some(other => other.currency === rate.currency)),
+  ...imported
+];
+
+// Multiply every money field of a period, including its nested breakdowns and statements
+const scaleFigures = <T>(value: T, factor: number): T => {
+  if (Array.isArray(value)) return value.map(item => scaleFigures(item, factor)) as unknown as T;
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    typeof field === 'number' && !NON_MONETARY_FIELDS.has(key) ? field * factor : scaleFigures(field, factor)
+  ])) as T;
+};
+
+/**
+ * Period figures with every money field multiplied by `factor`, e.g. an exchange rate or a price deflator
+ */
+export const convertPeriod = <T extends PeriodFinancials>(period: T, factor: number): T =>
+  factor === 1 ? period : scaleFigures(period, factor);
+
+/**
+ * Scenario with its projections, actuals and any baseline plan restated in another currency for reporting. Drivers stay in the model
+ * currency, so the result is for display and export only, not for recalculation.
+ */
+export const convertScenario = (scenario: ScenarioData, factor: number): ScenarioData => factor === 1 ? scenario : {
+  ...scenario,
+  projections: scenario.projections.map(year => convertPeriod<FinancialYear>(year, factor)),
+  ...(scenario.monthlyProjections && { monthlyProjections: scenario.monthlyProjections.map(month => convertPeriod<MonthlyPeriod>(month, factor)) }),
+  ...(scenario.actuals && { actuals: scaleFigures(scenario.actuals, factor) }),
+  ...(scenario.rollingForecast && {
+    rollingForecast: {
+      ...scenario.rollingForecast,
+      baseline: {
+        ...scenario.rollingForecast.baseline,
+        projections: scenario.rollingForecast.baseline.projections.map(year => convertPeriod<FinancialYear>(year, factor)),
+        monthlyProjections: scenario.rollingForecast.baseline.monthlyProjections?.map(month => convertPeriod<MonthlyPeriod>(month, factor))
+      }
+    }
+  })
+};
+
+/**
+ * Currencies to offer in pickers: every currency a rate is known for plus any in use
+ */
+export const knownCurrencies = (inUse: string[] = [], fxRates: FxRate[] = []): string[] =>
+  [...new Set([...DEFAULT_FX_RATES, ...fxRates.filter(isUsable)].map(rate => rate.currency).concat(inUse))].sort();
+
+/**
+ * Model currency plus every currency a driver line is entered in
+ */
+export const currenciesInUse = (drivers: ProjectionDrivers): string[] => {
+  const lines: { currency?: string }[] = [
+    ...(drivers.revenueStreams || []),
+    ...(drivers.opexLines || []),
+    ...(drivers.headcount || []),
+    ...(drivers.fixedAssets || []),
+    ...(drivers.debt || [])
+  ];
+  return [...new Set([drivers.currency || DEFAULT_CURRENCY, ...lines.map(line => line.currency).filter((code): code is string => !!code)])];
+};
@@ -0,0 +1,105 @@
+import { DebtFacility, DebtRepayment } from '../types';
+import { sanitizeCurrencyCode } from './currencyService';
+import { MONTH_PATTERN, monthsBetween } from './periodUtils';
+
+export const DEBT_REPAYMENTS: { repayment: DebtRepayment; label: string }[] = [
+  { repayment: 'amortizing', label: 'Equal instalments' },
+  { repayment: 'straightLine', label: 'Equal principal' },
+  { repayment: 'bullet', label: 'Bullet at maturity' }
+];
+
+export interface DebtMonth {
+  drawdown: number;
+  repayment: number;
+  interest: number;
+  closingBalance: number;
+}
+
+/**
+ * One month's interest on a facility's opening balance
+ */
+export const monthlyInterest = (facility: DebtFacility, openingBalance: number): number =>
+  openingBalance * (facility.annualRate / 12);
+
+// Principal still owed on a term loan after the given number of monthly repayments
+const balanceAfter = (loan: DebtFacility, repayments: number): number => {
+  if (repayments <= 0) return loan.amount;
+  if (repayments >= loan.termMonths) return 0;
+  if (loan.repayment === 'bullet') return loan.amount;
+  if (loan.repayment === 'straightLine') return loan.amount * (1 - repayments / loan.termMonths);
+
+  const monthlyRate = loan.annualRate / 12;
+  if (monthlyRate === 0) return loan.amount * (1 - repayments / loan.termMonths);
+  const instalment = (loan.amount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -loan.termMonths));
+  const growth = Math.pow(1 + monthlyRate, repayments);
+  return loan.amount * growth - (instalment * (growth - 1)) / monthlyRate;
+};
+
+/**
+ * Drawdown, repayment, interest and closing balance of a term loan in one calendar month ("YYYY-MM").
+ * The loan is drawn in its start month; interest and repayments run over the following `termMonths` months.
+ */
+export const termLoanMonth = (loan: DebtFacility, period: string): DebtMonth => {
+  const elapsed = MONTH_PATTERN.test(loan.startMonth) ? monthsBetween(loan.startMonth, period) : -1;
+  if (elapsed < 0 || elapsed > loan.termMonths) return { drawdown: 0, repayment: 0, interest: 0, closingBalance: 0 };
+
+  const openingBalance = elapsed === 0 ? 0 : balanceAfter(loan, elapsed - 1);
+  const closingBalance = balanceAfter(loan, elapsed);
+  return {
+    drawdown: elapsed === 0 ? loan.amount : 0,
+    repayment: elapsed === 0 ? 0 : openingBalance - closingBalance,
+    interest: monthlyInterest(loan, openingBalance),
+    closingBalance
+  };
+};
+
+/**
+ * Move a credit line for one month: draw to cover a cash shortfall, sweep surplus cash into repayment,
+ * and repay in full at maturity. `cash` is the balance before the line moves.
+ */
+export const creditLineMonth = (line: DebtFacility, period: string, openingBalance: number, cash: number): DebtMonth => {
+  const elapsed = MONTH_PATTERN.test(line.startMonth) ? monthsBetween(line.startMonth, period) : -1;
+  const interest = monthlyInterest(line, openingBalance);
+  if (elapsed < 0) return { drawdown: 0, repayment: 0, interest: 0, closingBalance: 0 };
+  if (elapsed >= line.termMonths) return { drawdown: 0, repayment: openingBalance, interest, closingBalance: 0 };
+
+  const drawdown = cash < 0 ? Math.min(-cash, line.amount - openingBalance) : 0;
+  const repayment = cash > 0 ? Math.min(openingBalance, cash) : 0;
+  return { drawdown, repayment, interest, closingBalance: openingBalance + drawdown - repayment };
+};
+
+/**
+ * New facility with sensible defaults
+ */
+export const createDebtFacility = (overrides: Partial<DebtFacility> & Pick<DebtFacility, 'startMonth'>): DebtFacility => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  name: 'Term Loan',
+  kind: 'termLoan',
+  amount: 0,
+  annualRate: 0.12,
+  termMonths: 36,
+  repayment: 'amortizing',
+  ...overrides
+});
+
+/**
+ * Clamp facilities into range; facilities with an invalid start month are kept but not drawn
+ */
+export const sanitizeDebtFacilities = (facilities: DebtFacility[] | undefined): DebtFacility[] | undefined => {
+  if (!Array.isArray(facilities)) return undefined;
+
+  return facilities.filter(Boolean).map((facility, index) => {
+    const currency = sanitizeCurrencyCode(facility.currency);
+    return {
+      id: String(facility.id || `debt-${index + 1}`),
+      name: String(facility.name || `Facility ${index + 1}`),
+      kind: facility.kind === 'creditLine' ? 'creditLine' : 'termLoan',
+      amount: Math.max(0, Number(facility.amount) || 0),
+      annualRate: Math.min(1, Math.max(0, Number(facility.annualRate) || 0)),
+      startMonth: String(facility.startMonth ?? ''),
+      termMonths: Math.min(360, Math.max(1, Math.round(Number(facility.termMonths) || 1))),
+      repayment: DEBT_REPAYMENTS.some(({ repayment }) => repayment === facility.repayment) ? facility.repayment : 'amortizing',
+      ...(currency && { currency })
+    };
+  });
+};
@@ -0,0 +1,180 @@
+import { CapTable, EsopPlan, HeadcountRole, OptionGrant, PoolTopUp, Shareholder } from '../types';
+import { MONTH_PATTERN, monthsBetween } from './periodUtils';
+
+const GRANTED_OPTIONS_HOLDER = 'granted-options';
+
+/**
+ * Plan with market-standard four-year vesting and a one-year cliff
+ */
+export const createEsopPlan = (overrides: Partial<EsopPlan> = {}): EsopPlan => ({
+  fairValuePerOption: 10,
+  vestingMonths: 48,
+  cliffMonths: 12,
+  grants: [],
+  topUps: [],
+  ...overrides
+});
+
+/**
+ * New grant on the plan's standard terms
+ */
+export const createOptionGrant = (plan: EsopPlan, overrides: Partial<OptionGrant> & Pick<OptionGrant, 'grantMonth'>): OptionGrant => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  name: 'New Grant',
+  options: 0,
+  vestingMonths: plan.vestingMonths,
+  cliffMonths: plan.cliffMonths,
+  fairValuePerOption: plan.fairValuePerOption,
+  ...overrides
+});
+
+/**
+ * New pool top-up ahead of a round
+ */
+export const createPoolTopUp = (overrides: Partial<PoolTopUp> = {}): PoolTopUp => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  round: 'Series A',
+  targetPercent: 0.1,
+  ...overrides
+});
+
+/**
+ * Grants implied by the headcount plan: each hire's options, granted in the role's start month
+ */
+export const grantsFromHeadcount = (roles: HeadcountRole[], plan: EsopPlan): OptionGrant[] =>
+  roles
+    .filter(role => (role.optionsPerHead ?? 0) > 0 && role.count > 0)
+    .map(role => ({
+      id: `${role.id}-options`,
+      name: `${role.role} options`,
+      options: (role.optionsPerHead ?? 0) * role.count,
+      grantMonth: role.startMonth,
+      vestingMonths: plan.vestingMonths,
+      cliffMonths: plan.cliffMonths,
+      fairValuePerOption: plan.fairValuePerOption
+    }));
+
+/**
+ * Every grant in the plan, including those made to planned hires
+ */
+export const allGrants = (plan: EsopPlan | undefined, roles: HeadcountRole[] = []): OptionGrant[] => {
+  const resolved = plan || createEsopPlan();
+  return [...resolved.grants, ...grantsFromHeadcount(roles, resolved)];
+};
+
+/**
+ * Cap table whose plan also carries the headcount plan's grants, so rounds allocate them from the pool
+ */
+export const withHeadcountGrants = (capTable: CapTable, roles: HeadcountRole[] = []): CapTable => {
+  if (!capTable.esop && !roles.some(role => (role.optionsPerHead ?? 0) > 0)) return capTable;
+  const plan = capTable.esop || createEsopPlan();
+  return { ...capTable, esop: { ...plan, grants: allGrants(plan, roles) } };
+};
+
+// Months of service completed by the end of `period`, counting the grant month; 0 before the grant or when the grant month is invalid
+const monthsServed = (grant: OptionGrant, period: string): number =>
+  MONTH_PATTERN.test(grant.grantMonth) ? Math.max(0, monthsBetween(grant.grantMonth, period) + 1) : 0;
+
+/**
+ * Options vested by the end of a calendar month ("YYYY-MM")
+ */
+export const vestedOptions = (grant: OptionGrant, period: string): number => {
+  const served = monthsServed(grant, period);
+  if (served === 0 || served < grant.cliffMonths) return 0;
+  return grant.options * Math.min(1, served / grant.vestingMonths);
+};
+
+/**
+ * Stock-based compensation expense for one calendar month: each grant's fair value spread evenly over its vesting period
+ */
+export const stockCompensationForMonth = (grants: OptionGrant[], period: string): number =>
+  grants.reduce((total, grant) => {
+    const served = monthsServed(grant, period);
+    return served >= 1 && served <= grant.vestingMonths
+      ? total + (grant.options * grant.fairValuePerOption) / grant.vestingMonths
+      : total;
+  }, 0);
+
+/**
+ * Options still available to grant
+ */
+export const unallocatedPool = (capTable: CapTable): number =>
+  capTable.holders.filter(holder => holder.role === 'esop').reduce((total, holder) => total + holder.shares, 0);
+
+/**
+ * Move grants made by `month` out of the pool into a granted-options line; grants beyond the pool are newly issued.
+ * Every grant is allocated when the month is unknown.
+ */
+export const allocateGrants = (capTable: CapTable, month?: string): CapTable => {
+  const grants = capTable.esop?.grants || [];
+  const due = grants.filter(grant => !month || !MONTH_PATTERN.test(grant.grantMonth) || grant.grantMonth <= month);
+  if (!capTable.esop || due.length === 0) return capTable;
+
+  const granted = due.reduce((total, grant) => total + grant.options, 0);
+  let toGrant = granted;
+  const holders = capTable.holders.map(holder => {
+    if (holder.role !== 'esop' || toGrant <= 0) return holder;
+    const fromPool = Math.min(holder.shares, toGrant);
+    toGrant -= fromPool;
+    return { ...holder, shares: holder.shares - fromPool };
+  });
+  const existing = holders.find(holder => holder.id === GRANTED_OPTIONS_HOLDER);
+  const grantedHolder: Shareholder = {
+    id: GRANTED_OPTIONS_HOLDER,
+    name: 'Granted Options',
+    role: 'employee',
+    shareClassId: capTable.holders.find(holder => holder.role === 'esop')?.shareClassId || capTable.shareClasses[0]?.id || 'common',
+    shares: (existing?.shares || 0) + granted
+  };
+
+  return {
+    ...capTable,
+    holders: existing
+      ? holders.map(holder => holder.id === GRANTED_OPTIONS_HOLDER ? grantedHolder : holder)
+      : [...holders, grantedHolder],
+    esop: { ...capTable.esop, grants: grants.filter(grant => !due.includes(grant)) }
+  };
+};
+
+/**
+ * Add shares to the pool; creates the pool line if the cap table has none
+ */
+export const topUpPool = (capTable: CapTable, shares: number): CapTable => {
+  if (shares <= 0) return capTable;
+  const poolIndex = capTable.holders.findIndex(holder => holder.role === 'esop');
+  const holders = poolIndex >= 0
+    ? capTable.holders.map((holder, index) => index === poolIndex ? { ...holder, shares: holder.shares + shares } : holder)
+    : [...capTable.holders, { id: 'esop', name: 'Option Pool', role: 'esop' as const, shareClassId: capTable.shareClasses[0]?.id || 'common', shares }];
+  return { ...capTable, holders };
+};
+
+/**
+ * Clamp plan terms into range; grants with an invalid grant month are kept but not expensed
+ */
+export const sanitizeEsopPlan = (plan: EsopPlan | undefined): EsopPlan | undefined => {
+  if (!plan) return undefined;
+
+  const vestingMonths = Math.min(120, Math.max(1, Math.round(Number(plan.vestingMonths) || 48)));
+  return {
+    fairValuePerOption: Math.max(0, Number(plan.fairValuePerOption) || 0),
+    vestingMonths,
+    cliffMonths: Math.min(vestingMonths, Math.max(0, Math.round(Number(plan.cliffMonths) || 0))),
+    grants: (Array.isArray(plan.grants) ? plan.grants : []).filter(Boolean).map((grant, index) => {
+      const grantVesting = Math.min(120, Math.max(1, Math.round(Number(grant.vestingMonths) || vestingMonths)));
+      return {
+        id: String(grant.id || `grant-${index + 1}`),
+        name: String(grant.name || `Grant ${index + 1}`),
+        options: Math.max(0, Math.round(Number(grant.options) || 0)),
+        grantMonth: String(grant.grantMonth ?? ''),
+        vestingMonths: grantVesting,
+        cliffMonths: Math.min(grantVesting, Math.max(0, Math.round(Number(grant.cliffMonths) || 0))),
+        fairValuePerOption: Math.max(0, Number(grant.fairValuePerOption) || 0)
+      };
+    }),
+    topUps: (Array.isArray(plan.topUps) ? plan.topUps : []).filter(Boolean).map((topUp, index) => ({
+      id: String(topUp.id || `top-up-${index + 1}`),
+      round: String(topUp.round || ''),
+      targetPercent: Math.min(0.5, Math.max(0, Number(topUp.targetPercent) || 0))
+    }))
+  };
+};
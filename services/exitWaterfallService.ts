@@ -0,0 +1,125 @@
+import { CapTable, ShareClass } from '../types';
+import { allocateGrants } from './esopService';
+
+export interface ClassPayout {
+  shareClassId: string;
+  name: string;
+  preference: number; // Paid ahead of common
+  participation: number; // Share of what is left once preferences are paid
+  total: number;
+  convertedToCommon: boolean; // Non-participating preferred giving up its preference for a bigger common share
+}
+
+export interface HolderPayout {
+  holderId: string;
+  name: string;
+  shareClass: string;
+  payout: number;
+  percentage: number; // Of the exit value
+}
+
+export interface ExitWaterfall {
+  exitValue: number;
+  classes: ClassPayout[];
+  holders: HolderPayout[];
+}
+
+const isPreferred = (shareClass: ShareClass) => shareClass.kind === 'preferred';
+
+const preferenceClaim = (shareClass: ShareClass) =>
+  Math.max(0, shareClass.investedAmount || 0) * Math.max(0, shareClass.preferenceMultiple ?? 1);
+
+// Pay preferences by seniority, then split what is left across common, participating preferred
+// and converted classes in proportion to their shares
+const distribute = (capTable: CapTable, exitValue: number, converted: Set<string>): ClassPayout[] => {
+  const sharesOf = (classId: string) => capTable.holders
+    .filter(holder => holder.shareClassId === classId)
+    .reduce((total, holder) => total + holder.shares, 0);
+  const takesPreference = (shareClass: ShareClass) => isPreferred(shareClass) && !converted.has(shareClass.id);
+
+  const preferences = new Map<string, number>();
+  let remaining = Math.max(0, exitValue);
+  const ranks = [...new Set(capTable.shareClasses.filter(takesPreference).map(shareClass => shareClass.seniority ?? 0))]
+    .sort((a, b) => b - a);
+  ranks.forEach(rank => {
+    const classes = capTable.shareClasses.filter(shareClass => takesPreference(shareClass) && (shareClass.seniority ?? 0) === rank);
+    const claims = classes.reduce((total, shareClass) => total + preferenceClaim(shareClass), 0);
+    const paid = Math.min(remaining, claims);
+    classes.forEach(shareClass => preferences.set(shareClass.id, claims > 0 ? (paid * preferenceClaim(shareClass)) / claims : 0));
+    remaining -= paid;
+  });
+
+  const sharesInResidual = (shareClass: ShareClass) =>
+    !isPreferred(shareClass) || converted.has(shareClass.id) || shareClass.participating ? sharesOf(shareClass.id) : 0;
+  const residualShares = capTable.shareClasses.reduce((total, shareClass) => total + sharesInResidual(shareClass), 0);
+
+  return capTable.shareClasses.map(shareClass => {
+    const preference = preferences.get(shareClass.id) || 0;
+    const participation = residualShares > 0 ? (remaining * sharesInResidual(shareClass)) / residualShares : 0;
+    return {
+      shareClassId: shareClass.id,
+      name: shareClass.name,
+      preference,
+      participation,
+      total: preference + participation,
+      convertedToCommon: converted.has(shareClass.id)
+    };
+  });
+};
+
+// Shares outstanding at exit: every planned grant is made, and the rest of the option pool is never issued
+const outstandingAtExit = (capTable: CapTable): CapTable => {
+  const allocated = allocateGrants(capTable);
+  return { ...allocated, holders: allocated.holders.filter(holder => holder.role !== 'esop') };
+};
+
+/**
+ * Split exit proceeds across share classes and holders. Non-participating preferred classes convert to
+ * common whenever that pays them more than their preference; participating classes take both.
+ * Granted options share in the proceeds; the unallocated option pool does not.
+ */
+export const calculateExitWaterfall = (fullCapTable: CapTable, exitValue: number): ExitWaterfall => {
+  const capTable = outstandingAtExit(fullCapTable);
+  const converted = new Set<string>();
+  const candidates = capTable.shareClasses.filter(shareClass => isPreferred(shareClass) && !shareClass.participating);
+
+  // Converting one class changes what the others would get, so re-check until no class wants to switch
+  let payouts = distribute(capTable, exitValue, converted);
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const shareClass of candidates) {
+      if (converted.has(shareClass.id)) continue;
+      const ifConverted = distribute(capTable, exitValue, new Set([...converted, shareClass.id]));
+      const current = payouts.find(payout => payout.shareClassId === shareClass.id)?.total || 0;
+      const switched = ifConverted.find(payout => payout.shareClassId === shareClass.id)?.total || 0;
+      if (switched > current) {
+        converted.add(shareClass.id);
+        payouts = ifConverted;
+        changed = true;
+      }
+    }
+  }
+
+  const holders = capTable.holders.map(holder => {
+    const classShares = capTable.holders
+      .filter(other => other.shareClassId === holder.shareClassId)
+      .reduce((total, other) => total + other.shares, 0);
+    const classPayout = payouts.find(payout => payout.shareClassId === holder.shareClassId);
+    const payout = classPayout && classShares > 0 ? (classPayout.total * holder.shares) / classShares : 0;
+    return {
+      holderId: holder.id,
+      name: holder.name,
+      shareClass: classPayout?.name || holder.shareClassId,
+      payout,
+      percentage: exitValue > 0 ? (payout / exitValue) * 100 : 0
+    };
+  });
+
+  return { exitValue, classes: payouts, holders };
+};
+
+/**
+ * Waterfalls at evenly spaced exit values from 0 to `maxExitValue`, for payout charts
+ */
+export const waterfallAcrossExits = (capTable: CapTable, maxExitValue: number, steps = 20): ExitWaterfall[] =>
+  Array.from({ length: steps + 1 }, (_, step) => calculateExitWaterfall(capTable, (maxExitValue * step) / steps));
@@ -1,11 +1,28 @@
 import { ScenarioData, UserInput } from '../types';
 import { generatePDFReport } from './pdfService';
+import { collectStreamNames, streamGrossMargin } from './revenueStreamService';
+import { OPEX_CATEGORIES } from './opexService';
+
+// Quote cells that would otherwise break the CSV layout
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
 
 /**
- * Export scenarios to CSV format
+ * Export scenarios to CSV format, with revenue by stream and opex by category when present.
+ * Amount headers are labelled with `currency` when given.
  */
-export const exportToCSV = (scenarios: ScenarioData[]): void => {
-  const headers = ['Scenario', 'Year', 'Revenue', 'COGS', 'Gross Profit', 'OpEx', 'EBITDA', 'Net Income', 'Cash Balance'];
+export const exportToCSV = (scenarios: ScenarioData[], currency?: string): void => {
+  const streamNames = collectStreamNames(scenarios.flatMap(scenario => scenario.projections));
+  const hasOpexBreakdown = scenarios.some(scenario => scenario.projections.some(p => p.opexBreakdown));
+  const opexCategories = hasOpexBreakdown ? OPEX_CATEGORIES : [];
+  const amount = (label: string) => currency ? `${label} (${currency})` : label;
+  const headers = [
+    'Scenario', 'Year', ...['Revenue', 'COGS', 'Gross Profit', 'OpEx', 'EBITDA', 'Net Income', 'Cash Balance'].map(amount),
+    ...streamNames.flatMap(name => [amount(`${name} Revenue`), amount(`${name} Gross Profit`), `${name} Gross Margin %`]),
+    ...opexCategories.map(({ label }) => amount(`${label} OpEx`))
+  ];
   
   const rows = scenarios.flatMap(scenario => 
     scenario.projections.map(projection => [
@@ -17,12 +34,17 @@ export const exportToCSV = (scenarios: ScenarioData[]): void => {
       projection.opex,
       projection.ebitda,
       projection.netIncome,
-      projection.cashBalance
+      projection.cashBalance,
+      ...streamNames.flatMap(name => {
+        const line = projection.revenueStreams?.find(l => l.name === name);
+        return line ? [line.revenue, line.grossProfit, streamGrossMargin(line).toFixed(1)] : ['', '', ''];
+      }),
+      ...opexCategories.map(({ category }) => projection.opexBreakdown?.[category] ?? '')
     ])
   );
 
   const csvContent = [headers, ...rows]
-    .map(row => row.join(','))
+    .map(row => row.map(csvCell).join(','))
     .join('\n');
 
   const blob = new Blob([csvContent], { type: 'text/csv' });
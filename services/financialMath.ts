@@ -0,0 +1,110 @@
+/**
+ * Investment math on cash-flow series. Outflows are negative, inflows positive.
+ */
+
+export interface DatedCashFlow {
+  date: string; // "YYYY-MM" (first of the month) or "YYYY-MM-DD"
+  amount: number;
+}
+
+const DAYS_PER_YEAR = 365;
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-7;
+
+// Lowest rate the solvers search; -100% would divide by zero, and flows discounted over long horizons overflow
+// well before it
+const MIN_RATE = -0.99;
+const MAX_RATE = 100;
+
+/**
+ * Net present value of evenly spaced flows; the first flow is at time 0 and is not discounted
+ */
+export const npv = (rate: number, cashFlows: number[]): number =>
+  cashFlows.reduce((total, flow, period) => total + flow / Math.pow(1 + rate, period), 0);
+
+const yearsBetween = (from: string, to: string): number =>
+  (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24 * DAYS_PER_YEAR);
+
+/**
+ * Net present value of dated flows, discounted to the earliest date on an actual/365 basis
+ */
+export const xnpv = (rate: number, cashFlows: DatedCashFlow[]): number => {
+  if (cashFlows.length === 0) return 0;
+  const start = cashFlows.reduce((earliest, flow) => flow.date < earliest ? flow.date : earliest, cashFlows[0].date);
+  return cashFlows.reduce((total, flow) => total + flow.amount / Math.pow(1 + rate, yearsBetween(start, flow.date)), 0);
+};
+
+// Rate at which `value(rate)` crosses zero: Newton's method from `guess`, falling back to bisection
+// when Newton leaves the search range or stalls. Null when the flows never change sign within the range they
+// can be valued over.
+const solveRate = (value: (rate: number) => number, guess: number): number | null => {
+  let low = MIN_RATE;
+  let high = MAX_RATE;
+  // Step the lower bound up until the flows stay finite there
+  while (!Number.isFinite(value(low)) && low < -TOLERANCE) low /= 2;
+  const lowValue = value(low);
+  const highValue = value(high);
+  if (!Number.isFinite(lowValue) || !Number.isFinite(highValue) || Math.sign(lowValue) === Math.sign(highValue)) return null;
+
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const current = value(rate);
+    if (!Number.isFinite(current)) break;
+    if (Math.abs(current) < TOLERANCE) return rate;
+    const step = 1e-6;
+    const slope = (value(rate + step) - current) / step;
+    const next = slope !== 0 ? rate - current / slope : NaN;
+    if (!Number.isFinite(next) || next <= low || next >= high || Math.abs(next - rate) < TOLERANCE) break;
+    rate = next;
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const midValue = value(mid);
+    if (Math.abs(midValue) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid;
+    if (Math.sign(midValue) === Math.sign(value(low))) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Internal rate of return per period of evenly spaced flows; null when there is no sign change
+ */
+export const irr = (cashFlows: number[], guess: number = 0.1): number | null =>
+  solveRate(rate => npv(rate, cashFlows), guess);
+
+/**
+ * Annual internal rate of return of dated flows (as spreadsheet XIRR); null when there is no sign change
+ */
+export const xirr = (cashFlows: DatedCashFlow[], guess: number = 0.1): number | null =>
+  solveRate(rate => xnpv(rate, cashFlows), guess);
+
+/**
+ * Annual rate equivalent to a monthly one
+ */
+export const annualizeMonthlyRate = (monthlyRate: number): number => Math.pow(1 + monthlyRate, 12) - 1;
+
+/**
+ * Multiple on invested capital: total returned over total invested
+ */
+export const moic = (cashFlows: number[]): number => {
+  const invested = cashFlows.filter(flow => flow < 0).reduce((total, flow) => total - flow, 0);
+  const returned = cashFlows.filter(flow => flow > 0).reduce((total, flow) => total + flow, 0);
+  return invested > 0 ? returned / invested : 0;
+};
+
+/**
+ * Months until cumulative flows first turn non-negative, interpolated within the month they do;
+ * null when they never do. Flow 0 is the initial investment at time 0, flow n arrives over month n.
+ */
+export const paybackMonths = (cashFlows: number[]): number | null => {
+  let cumulative = cashFlows[0] ?? 0;
+  if (cumulative >= 0) return 0;
+  for (let period = 1; period < cashFlows.length; period++) {
+    const flow = cashFlows[period];
+    if (cumulative + flow >= 0) return period - 1 + -cumulative / flow;
+    cumulative += flow;
+  }
+  return null;
+};
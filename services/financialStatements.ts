@@ -0,0 +1,74 @@
+import { BalanceSheet, CashFlowStatement } from '../types';
+
+type BalanceSheetLines = Omit<BalanceSheet, 'totalAssets' | 'totalLiabilities' | 'totalEquity'>;
+type CashFlowLines = Omit<CashFlowStatement, 'operatingCashFlow' | 'investingCashFlow' | 'financingCashFlow' | 'netChangeInCash'>;
+
+const BALANCE_SHEET_LINES: (keyof BalanceSheetLines)[] = [
+  'cash', 'accountsReceivable', 'inventory', 'fixedAssets', 'accountsPayable', 'debt', 'paidInCapital', 'retainedEarnings'
+];
+
+const CASH_FLOW_LINES: (keyof CashFlowLines)[] = [
+  'netIncome', 'depreciation', 'stockBasedCompensation', 'changeInWorkingCapital', 'capex', 'netBorrowing', 'equityRaised'
+];
+
+/**
+ * Assemble a balance sheet from its lines, deriving the section totals
+ */
+export const buildBalanceSheet = (lines: BalanceSheetLines): BalanceSheet => ({
+  ...lines,
+  totalAssets: lines.cash + lines.accountsReceivable + lines.inventory + lines.fixedAssets,
+  totalLiabilities: lines.accountsPayable + lines.debt,
+  totalEquity: lines.paidInCapital + lines.retainedEarnings
+});
+
+/**
+ * Assemble an indirect cash-flow statement from its lines, deriving the section totals
+ */
+export const buildCashFlow = (lines: CashFlowLines): CashFlowStatement => {
+  const operatingCashFlow = lines.netIncome + lines.depreciation + lines.stockBasedCompensation + lines.changeInWorkingCapital;
+  const investingCashFlow = 0 - lines.capex;
+  const financingCashFlow = lines.netBorrowing + lines.equityRaised;
+  return {
+    ...lines,
+    operatingCashFlow,
+    investingCashFlow,
+    financingCashFlow,
+    netChangeInCash: operatingCashFlow + investingCashFlow + financingCashFlow
+  };
+};
+
+/**
+ * Total the cash flows of consecutive periods
+ */
+export const sumCashFlows = (flows: CashFlowStatement[]): CashFlowStatement => {
+  const lines = {} as CashFlowLines;
+  CASH_FLOW_LINES.forEach(line => {
+    lines[line] = flows.reduce((total, flow) => total + flow[line], 0);
+  });
+  return buildCashFlow(lines);
+};
+
+/**
+ * Round every line; totals are re-derived so they still add up after rounding
+ */
+export const roundBalanceSheet = (sheet: BalanceSheet): BalanceSheet => {
+  const lines = {} as BalanceSheetLines;
+  BALANCE_SHEET_LINES.forEach(line => {
+    lines[line] = Math.round(sheet[line]);
+  });
+  return buildBalanceSheet(lines);
+};
+
+export const roundCashFlow = (flow: CashFlowStatement): CashFlowStatement => {
+  const lines = {} as CashFlowLines;
+  CASH_FLOW_LINES.forEach(line => {
+    lines[line] = Math.round(flow[line]);
+  });
+  return buildCashFlow(lines);
+};
+
+/**
+ * Difference between assets and liabilities plus equity (zero when the balance sheet balances)
+ */
+export const balanceSheetImbalance = (sheet: BalanceSheet): number =>
+  sheet.totalAssets - (sheet.totalLiabilities + sheet.totalEquity);
@@ -0,0 +1,82 @@
+import { DepreciationMethod, FixedAsset } from '../types';
+import { sanitizeCurrencyCode } from './currencyService';
+import { MONTH_PATTERN, monthsBetween } from './periodUtils';
+
+export const DEPRECIATION_METHODS: { method: DepreciationMethod; label: string }[] = [
+  { method: 'straightLine', label: 'Straight line' },
+  { method: 'decliningBalance', label: 'Declining balance' }
+];
+
+// Book value once the asset has been depreciated for the given number of months
+const bookValueAfter = (asset: FixedAsset, months: number): number => {
+  const lifeMonths = asset.usefulLifeYears * 12;
+  if (months <= 0) return asset.cost;
+  if (months >= lifeMonths) return asset.salvageValue;
+  if (asset.method === 'decliningBalance') {
+    const monthlyRate = 2 / lifeMonths;
+    return Math.max(asset.salvageValue, asset.cost * Math.pow(1 - monthlyRate, months));
+  }
+  return asset.cost - ((asset.cost - asset.salvageValue) * months) / lifeMonths;
+};
+
+/**
+ * Capex, depreciation and closing net book value of the register for one calendar month ("YYYY-MM").
+ * Assets depreciate from their purchase month; lines without a valid purchase month are ignored.
+ */
+export const assetScheduleForMonth = (assets: FixedAsset[], period: string): { capex: number; depreciation: number; netBookValue: number } =>
+  assets.filter(asset => MONTH_PATTERN.test(asset.purchaseMonth)).reduce(
+    (totals, asset) => {
+      const elapsed = monthsBetween(asset.purchaseMonth, period);
+      if (elapsed < 0) return totals;
+      const closingValue = bookValueAfter(asset, elapsed + 1);
+      return {
+        capex: totals.capex + (elapsed === 0 ? asset.cost : 0),
+        depreciation: totals.depreciation + bookValueAfter(asset, elapsed) - closingValue,
+        netBookValue: totals.netBookValue + closingValue
+      };
+    },
+    { capex: 0, depreciation: 0, netBookValue: 0 }
+  );
+
+/**
+ * Net book value of assets already owned when the projection starts
+ */
+export const openingNetBookValue = (assets: FixedAsset[], startMonth: string): number =>
+  assets
+    .filter(asset => MONTH_PATTERN.test(asset.purchaseMonth) && asset.purchaseMonth < startMonth)
+    .reduce((total, asset) => total + bookValueAfter(asset, monthsBetween(asset.purchaseMonth, startMonth)), 0);
+
+/**
+ * New register line with sensible defaults
+ */
+export const createFixedAsset = (overrides: Partial<FixedAsset> & Pick<FixedAsset, 'purchaseMonth'>): FixedAsset => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  name: 'New Asset',
+  cost: 0,
+  usefulLifeYears: 3,
+  method: 'straightLine',
+  salvageValue: 0,
+  ...overrides
+});
+
+/**
+ * Clamp register lines into range; lines with an invalid purchase month are kept but not costed
+ */
+export const sanitizeFixedAssets = (assets: FixedAsset[] | undefined): FixedAsset[] | undefined => {
+  if (!Array.isArray(assets)) return undefined;
+
+  return assets.filter(Boolean).map((asset, index) => {
+    const cost = Math.max(0, Number(asset.cost) || 0);
+    const currency = sanitizeCurrencyCode(asset.currency);
+    return {
+      id: String(asset.id || `asset-${index + 1}`),
+      name: String(asset.name || `Asset ${index + 1}`),
+      cost,
+      purchaseMonth: String(asset.purchaseMonth ?? ''),
+      usefulLifeYears: Math.min(50, Math.max(1, Math.round(Number(asset.usefulLifeYears) || 1))),
+      method: asset.method === 'decliningBalance' ? 'decliningBalance' : 'straightLine',
+      salvageValue: Math.min(cost, Math.max(0, Number(asset.salvageValue) || 0)),
+      ...(currency && { currency })
+    };
+  });
+};
@@ -1,4 +1,9 @@
-import { ScenarioData } from '../types';
+import { BurnMeasure, EsopPlan, FxRate, HeadcountRole, ScenarioData } from '../types';
+import { createDefaultCapTable, totalShares } from './capTableService';
+import { DEFAULT_CURRENCY, convertAmount, formatMoney } from './currencyService';
+import { createEsopPlan } from './esopService';
+import { annualCostPerHead, benchmarkSalary, createRole } from './headcountService';
+import { getMonthlyProjections } from './projectionEngine';
 
 export interface FounderScenario {
   scenario: string;
@@ -10,31 +15,104 @@ export interface FounderScenario {
   };
   recommendation: string;
   urgency: 'Low' | 'Medium' | 'High';
+  hire?: HeadcountRole; // Headcount plan line the decision would add
+  equityGrant?: {
+    options: number; // Across every hire in the scenario
+    ownershipPercent: number; // Of today's fully diluted shares
+    monthlyStockCompensation: number; // Non-cash expense on top of the cash burn
+  };
+}
+
+interface EquityContext {
+  fullyDilutedShares: number;
+  plan: EsopPlan;
+}
+
+// Currency the scenario is modelled in; hires are costed in it
+interface CurrencyContext {
+  currency: string;
+  fxRates: FxRate[];
 }
 
-export const analyzeFounderScenarios = (baseScenario: ScenarioData, currentCash: number): FounderScenario[] => {
+// Options per hire as a share of the fully diluted company
+const OPTIONS_PER_HIRE = {
+  earlyEngineer: 0.0025,
+  seniorEngineer: 0.001,
+  accountExecutive: 0.0005
+};
+
+// Monthly cost of a hire, costed the same way as the headcount plan
+const monthlyHireCost = (hire: HeadcountRole, money: CurrencyContext) =>
+  (annualCostPerHead(hire, money.currency, money.fxRates) / 12) * hire.count;
+
+const optionsPerHead = (equity: EquityContext, share: number) => Math.round(equity.fullyDilutedShares * share);
+
+// Size and cost of the options a hire comes with, expensed on the plan's standard vesting
+const equityGrantFor = (hire: HeadcountRole, equity: EquityContext): FounderScenario['equityGrant'] => {
+  const options = (hire.optionsPerHead ?? 0) * hire.count;
+  if (options <= 0) return undefined;
+  return {
+    options,
+    ownershipPercent: equity.fullyDilutedShares > 0 ? (options / equity.fullyDilutedShares) * 100 : 0,
+    monthlyStockCompensation: (options * equity.plan.fairValuePerOption) / equity.plan.vestingMonths
+  };
+};
+
+const formatMonthly = (amount: number, money: CurrencyContext) => `${formatMoney(amount, money.currency)}/month`;
+
+/**
+ * Runway impact of common founder decisions; hires come with option grants unless `includeEquity` is false.
+ * Today's burn is the one measured from bank statements when given, otherwise year 1's projected loss.
+ */
+export const analyzeFounderScenarios = (
+  baseScenario: ScenarioData,
+  currentCash: number,
+  country: string = 'India',
+  includeEquity: boolean = true,
+  measuredBurn?: BurnMeasure
+): FounderScenario[] => {
   const year1 = baseScenario.projections[0];
-  const currentMonthlyBurn = Math.abs(year1.netIncome) / 12;
-  const currentRunway = year1.netIncome > 0 ? Infinity : currentCash / Math.max(1, currentMonthlyBurn);
+  const currentMonthlyBurn = measuredBurn ? Math.max(0, measuredBurn.netBurn) : Math.abs(year1.netIncome) / 12;
+  const isCashGenerative = measuredBurn ? measuredBurn.netBurn <= 0 : year1.netIncome > 0;
+  const currentRunway = isCashGenerative ? Infinity : currentCash / Math.max(1, currentMonthlyBurn);
   
   // Scale scenarios based on company size
   const revenueSize = year1.revenue;
   const isEarlyStage = revenueSize < 1000000;
+  const startMonth = getMonthlyProjections(baseScenario)[0]?.period || '';
+  const capTable = baseScenario.drivers?.capTable || createDefaultCapTable();
+  const equity: EquityContext = {
+    fullyDilutedShares: includeEquity ? totalShares(capTable) : 0,
+    plan: capTable.esop || createEsopPlan()
+  };
+  const money: CurrencyContext = {
+    currency: baseScenario.drivers?.currency || DEFAULT_CURRENCY,
+    fxRates: baseScenario.drivers?.fxRates || []
+  };
   
   return [
-    analyzeHiring5Engineers(year1, currentMonthlyBurn, currentRunway, isEarlyStage),
+    analyzeHiring5Engineers(year1, currentMonthlyBurn, currentRunway, isEarlyStage, country, money, startMonth, equity),
     analyzeAWSCostDouble(year1, currentMonthlyBurn, currentRunway, revenueSize),
     analyzeMarketingSpend2x(year1, currentMonthlyBurn, currentRunway),
-    analyzeOfficeRent(year1, currentMonthlyBurn, currentRunway),
-    analyzeSalesTeamHire(year1, currentMonthlyBurn, currentRunway)
+    analyzeOfficeRent(year1, currentMonthlyBurn, currentRunway, money),
+    analyzeSalesTeamHire(year1, currentMonthlyBurn, currentRunway, country, money, startMonth, equity)
   ];
 };
 
-function analyzeHiring5Engineers(year1: any, currentBurn: number, currentRunway: number, isEarlyStage: boolean): FounderScenario {
-  // Scale engineer costs based on stage
-  const engineerCost = isEarlyStage ? 120000 : 180000; // Early vs growth stage salaries
-  const engineerCount = isEarlyStage ? 3 : 5; // Hire fewer if early stage
-  const totalCost = engineerCost * engineerCount;
+function analyzeHiring5Engineers(year1: any, currentBurn: number, currentRunway: number, isEarlyStage: boolean, country: string, money: CurrencyContext, startMonth: string, equity: EquityContext): FounderScenario {
+  // Growth-stage hires are more senior than the department benchmark
+  const hire = createRole({
+    role: 'Software Engineer',
+    department: 'Engineering',
+    country,
+    count: isEarlyStage ? 3 : 5, // Hire fewer if early stage
+    startMonth,
+    annualSalary: isEarlyStage ? undefined : benchmarkSalary('Engineering', country, money.currency, money.fxRates) * 1.5,
+    currency: money.currency,
+    optionsPerHead: optionsPerHead(equity, isEarlyStage ? OPTIONS_PER_HIRE.earlyEngineer : OPTIONS_PER_HIRE.seniorEngineer)
+  });
+  const engineerCount = hire.count;
+  const totalCost = monthlyHireCost(hire, money);
   const newBurn = currentBurn + totalCost;
   const newRunway = Math.max(0, currentRunway * (currentBurn / newBurn));
   
@@ -43,7 +121,7 @@ function analyzeHiring5Engineers(year1: any, currentBurn: number, currentRunway:
   const revenueImpact = year1.revenue * revenueImpactPercent;
   
   return {
-    scenario: `Hire ${engineerCount} Engineers (₹${(totalCost/100000).toFixed(1)}L/month)`,
+    scenario: `Hire ${engineerCount} Engineers (${formatMonthly(totalCost, money)})`,
     impact: {
       monthlyBurnIncrease: totalCost,
       runwayReduction: Math.max(0, currentRunway - newRunway),
@@ -53,7 +131,9 @@ function analyzeHiring5Engineers(year1: any, currentBurn: number, currentRunway:
     recommendation: revenueImpact > totalCost * 12 ? 
       "✅ ROI positive - hire if you have >12 months runway" : 
       "⚠️ High risk - ensure strong product-market fit first",
-    urgency: newRunway < 12 ? 'High' : newRunway < 18 ? 'Medium' : 'Low'
+    urgency: newRunway < 12 ? 'High' : newRunway < 18 ? 'Medium' : 'Low',
+    hire,
+    equityGrant: equityGrantFor(hire, equity)
   };
 }
 
@@ -64,7 +144,7 @@ function analyzeAWSCostDouble(year1: any, currentBurn: number, currentRunway: nu
   else if (revenueSize < 1000000) baseAWSPercent = 0.12; // Early stage with AI
   else baseAWSPercent = 0.15; // Growth stage with heavy AI usage
   
-  const currentAWSCost = Math.max(20000, year1.revenue * baseAWSPercent);
+  const currentAWSCost = year1.opexBreakdown?.cloud ?? Math.max(20000, year1.revenue * baseAWSPercent);
   const additionalCost = currentAWSCost; // Double means +100%
   const newBurn = currentBurn + (additionalCost / 12);
   const newRunway = Math.max(0, currentRunway * (currentBurn / newBurn));
@@ -83,7 +163,7 @@ function analyzeAWSCostDouble(year1: any, currentBurn: number, currentRunway: nu
 }
 
 function analyzeMarketingSpend2x(year1: any, currentBurn: number, currentRunway: number): FounderScenario {
-  const currentMarketing = year1.opex * 0.25; // Assume 25% of OpEx
+  const currentMarketing = year1.opexBreakdown?.marketing ?? year1.opex * 0.25; // Marketing line, else 25% of OpEx
   const additionalCost = currentMarketing; // Double means +100%
   const newBurn = currentBurn + (additionalCost / 12);
   const newRunway = Math.max(0, currentRunway * (currentBurn / newBurn));
@@ -106,13 +186,13 @@ function analyzeMarketingSpend2x(year1: any, currentBurn: number, currentRunway:
   };
 }
 
-function analyzeOfficeRent(year1: any, currentBurn: number, currentRunway: number): FounderScenario {
-  const officeRent = 200000; // ₹2L per month for decent office
+function analyzeOfficeRent(year1: any, currentBurn: number, currentRunway: number, money: CurrencyContext): FounderScenario {
+  const officeRent = convertAmount(200000, 'INR', money.currency, money.fxRates); // ₹2L per month for decent office
   const newBurn = currentBurn + officeRent;
   const newRunway = Math.max(0, currentRunway * (currentBurn / newBurn));
   
   return {
-    scenario: "Get Office Space (₹2L/month)",
+    scenario: `Get Office Space (${formatMonthly(officeRent, money)})`,
     impact: {
       monthlyBurnIncrease: officeRent,
       runwayReduction: Math.max(0, currentRunway - newRunway),
@@ -124,8 +204,17 @@ function analyzeOfficeRent(year1: any, currentBurn: number, currentRunway: numbe
   };
 }
 
-function analyzeSalesTeamHire(year1: any, currentBurn: number, currentRunway: number): FounderScenario {
-  const salesTeamCost = 400000; // ₹4L per month (2 sales people)
+function analyzeSalesTeamHire(year1: any, currentBurn: number, currentRunway: number, country: string, money: CurrencyContext, startMonth: string, equity: EquityContext): FounderScenario {
+  const hire = createRole({
+    role: 'Account Executive',
+    department: 'Sales',
+    country,
+    currency: money.currency,
+    count: 2,
+    startMonth,
+    optionsPerHead: optionsPerHead(equity, OPTIONS_PER_HIRE.accountExecutive)
+  });
+  const salesTeamCost = monthlyHireCost(hire, money);
   const newBurn = currentBurn + salesTeamCost;
   const newRunway = Math.max(0, currentRunway * (currentBurn / newBurn));
   
@@ -133,7 +222,7 @@ function analyzeSalesTeamHire(year1: any, currentBurn: number, currentRunway: nu
   const revenueImpact = year1.revenue * 2;
   
   return {
-    scenario: "Hire Sales Team (₹4L/month)",
+    scenario: `Hire Sales Team (${formatMonthly(salesTeamCost, money)})`,
     impact: {
       monthlyBurnIncrease: salesTeamCost,
       runwayReduction: Math.max(0, currentRunway - newRunway),
@@ -143,6 +232,8 @@ function analyzeSalesTeamHire(year1: any, currentBurn: number, currentRunway: nu
     recommendation: revenueImpact > salesTeamCost * 12 ? 
       "✅ High impact - hire if you have proven sales process" : 
       "⚠️ Validate sales process with founder-led sales first",
-    urgency: year1.revenue > 500000 ? 'High' : 'Medium'
+    urgency: year1.revenue > 500000 ? 'High' : 'Medium',
+    hire,
+    equityGrant: equityGrantFor(hire, equity)
   };
 }
\ No newline at end of file
@@ -1,21 +1,61 @@
-import { ScenarioData } from '../types';
+import { CapTable, DebtFacility, ScenarioData } from '../types';
+import { ConversionResult, createDefaultCapTable, cumulativeDilution, HolderOwnership, simulateRounds } from './capTableService';
+import { withHeadcountGrants } from './esopService';
+import { DEFAULT_CURRENCY, convertAmount } from './currencyService';
+import { calculateExitWaterfall } from './exitWaterfallService';
+import { DatedCashFlow, moic, paybackMonths, xirr, xnpv } from './financialMath';
+import { addMonths, getMonthlyProjections, recalculateScenario } from './projectionEngine';
+import { calculateRunwayFromProjections, RunwayStatus } from './runwayUtils';
+import { calculateValuation } from './valuationService';
 
 export interface FundingRequirements {
   totalFundingNeeded: number;
   fundingByYear: { year: number; amount: number; purpose: string }[];
-  dilution: number;
-  roiProjection: number;
-  paybackPeriod: number;
-  irr: number;
+  dilution: number; // Cumulative, including SAFE and note conversions
+  conversionDilution: number; // Part of the dilution caused by SAFEs and notes converting
+  exitValue: number; // Equity value the returns assume at the end of the projection
+  investorProceeds: number; // What the recommended rounds' investors take out of the exit waterfall
+  roiProjection: number; // Investors' gain as a % of what they put in
+  moic: number;
+  irr: number | null; // Investors' annual IRR in %, from their dated flows; null when it has no solution
+  npv: number; // Investors' flows discounted at the hurdle rate
+  paybackMonths: number | null; // Months of the scenario's free cash flow needed to earn back the funding; null beyond the projection
   recommendedFundingRounds: {
     round: string;
     amount: number;
     timing: string;
-    valuation: number;
+    valuation: number; // Pre-money
     dilution: number;
+    postMoneyValuation: number;
+    pricePerShare: number;
+    sharesIssued: number;
+    conversions: ConversionResult[]; // SAFEs and notes converting into the round
+    conversionDilution: number;
+    poolTopUpShares: number; // Added to the option pool ahead of the round
+    poolTopUpDilution: number;
+    ownership: HolderOwnership[]; // Cap table after the round
   }[];
+  capTable: CapTable; // After every recommended round, for exit waterfalls
 }
 
+export interface DebtVsEquityComparison {
+  facility: DebtFacility;
+  equityAmount: number; // Raised as equity instead, in the model currency: the loan principal or the credit line's peak draw
+  dilutionAvoided: number; // % of the company raising the same amount as equity would have cost
+  interestCost: number; // Extra interest over the projection
+  debtRunway: RunwayStatus;
+  equityRunway: RunwayStatus;
+  runwayDifference: number; // Months; positive when the debt-funded plan lasts longer
+  endingCashDifference: number; // Debt-funded minus equity-funded closing cash
+}
+
+// Calendar month of a "Year N QM" round timing, counted from the first projected month
+const timingToMonth = (firstMonth: string | undefined, timing: string): string | undefined => {
+  const match = timing.match(/Year (\d+) Q(\d)/);
+  if (!firstMonth || !match) return undefined;
+  return addMonths(firstMonth, (Number(match[1]) - 1) * 12 + (Number(match[2]) - 1) * 3);
+};
+
 /**
  * Calculate funding requirements and investment metrics
  */
@@ -23,6 +63,10 @@ export const calculateFundingRequirements = (scenario: ScenarioData, assumptions
   currentValuation?: number;
   targetOwnership?: number;
   minimumCashBuffer?: number;
+  capTable?: CapTable;
+  exitValue?: number; // Defaults to the scenario's equity value
+  country?: string; // For the default exit valuation's tax rate
+  hurdleRate?: number; // Annual rate investors' NPV is discounted at
 }): FundingRequirements => {
   const currentValuation = assumptions.currentValuation || 2000000; // ₹20L realistic for early SaaS
   const minimumCashBuffer = assumptions.minimumCashBuffer || 500000;
@@ -63,39 +107,6 @@ export const calculateFundingRequirements = (scenario: ScenarioData, assumptions
     }
   });
 
-  // Calculate realistic investment metrics
-  const totalCashGenerated = scenario.projections.reduce((sum, proj) => sum + proj.netIncome, 0);
-  const finalCashBalance = scenario.projections[scenario.projections.length - 1].cashBalance;
-  
-  // ROI calculation - realistic for loss-making startups
-  const roiProjection = totalFundingNeeded > 0 ? 
-    ((finalCashBalance - totalFundingNeeded) / totalFundingNeeded) * 100 : 0;
-  
-  // Payback period - when cumulative cash flows turn positive
-  let paybackPeriod = 0;
-  let cumulativeCashFlow = -totalFundingNeeded; // Start with negative investment
-  
-  for (let i = 0; i < scenario.projections.length; i++) {
-    const monthlyRevenue = scenario.projections[i].revenue / 12;
-    const monthlyNetCashFlow = monthlyRevenue - actualMonthlyBurn;
-    cumulativeCashFlow += monthlyNetCashFlow * 12;
-    
-    if (cumulativeCashFlow >= 0) {
-      paybackPeriod = i + 1;
-      break;
-    }
-  }
-  if (paybackPeriod === 0) paybackPeriod = 5; // Beyond projection period
-
-  // IRR calculation - realistic for early-stage startups
-  let irr = -0.50; // Start with -50% for loss-making startups
-  if (totalFundingNeeded > 0 && finalCashBalance > totalFundingNeeded) {
-    // Simple IRR approximation
-    const totalReturn = finalCashBalance / totalFundingNeeded;
-    irr = Math.pow(totalReturn, 1/3) - 1; // 3-year IRR
-    irr = Math.max(-0.90, Math.min(irr, 2.0)); // Bound between -90% and 200%
-  }
-
   // Realistic funding rounds for Indian SaaS
   const recommendedFundingRounds = [];
   if (totalFundingNeeded > 0) {
@@ -130,15 +141,107 @@ export const calculateFundingRequirements = (scenario: ScenarioData, assumptions
     }
   }
 
-  const totalDilution = recommendedFundingRounds.reduce((sum, round) => sum + round.dilution, 0);
+  // Run the rounds through the cap table so later rounds dilute earlier investors too,
+  // converting outstanding SAFEs and notes at the first round after they were issued
+  const capTable = withHeadcountGrants(
+    assumptions.capTable || scenario.drivers?.capTable || createDefaultCapTable(),
+    scenario.drivers?.headcount
+  );
+  const firstMonth = getMonthlyProjections(scenario)[0]?.period;
+  const roundResults = simulateRounds(capTable, recommendedFundingRounds.map(round => ({
+    round: round.round,
+    amount: round.amount,
+    preMoneyValuation: round.valuation,
+    month: timingToMonth(firstMonth, round.timing)
+  })));
+  const conversionDilution = (1 - roundResults.reduce((retained, result) => retained * (1 - result.conversionDilution / 100), 1)) * 100;
+  const capTableAfterRounds = roundResults.length > 0 ? roundResults[roundResults.length - 1].capTable : capTable;
+
+  // Investors put money in as each round closes and take their waterfall payout at an exit the month after the projection
+  const months = getMonthlyProjections(scenario);
+  const exitMonth = addMonths(months[months.length - 1]?.period || firstMonth || '', 1);
+  const exitValue = assumptions.exitValue ?? calculateValuation(scenario, { country: assumptions.country }).equityValue;
+  const investorIds = roundResults.map(result => result.investorHolderId);
+  const investorProceeds = calculateExitWaterfall(capTableAfterRounds, exitValue).holders
+    .filter(holder => investorIds.includes(holder.holderId))
+    .reduce((total, holder) => total + holder.payout, 0);
+  const investorFlows: DatedCashFlow[] = [
+    ...roundResults.map(result => ({ date: result.month || firstMonth || exitMonth, amount: -result.amount })),
+    { date: exitMonth, amount: investorProceeds }
+  ];
+  const investorMultiple = moic(investorFlows.map(flow => flow.amount));
+  const investorIrr = roundResults.length > 0 ? xirr(investorFlows) : null;
+  const hurdleRate = assumptions.hurdleRate ?? 0.25;
+
+  // Payback from the company's side: funding earned back by the scenario's own monthly free cash flow
+  const freeCashFlows = months.map(month => month.cashFlow ? month.cashFlow.operatingCashFlow + month.cashFlow.investingCashFlow : month.netIncome);
+  const payback = totalFundingNeeded > 0 ? paybackMonths([-totalFundingNeeded, ...freeCashFlows]) : 0;
 
   return {
     totalFundingNeeded,
     fundingByYear,
-    dilution: totalDilution,
-    roiProjection,
-    paybackPeriod,
-    irr: irr * 100,
-    recommendedFundingRounds
+    dilution: cumulativeDilution(roundResults),
+    conversionDilution,
+    exitValue,
+    investorProceeds,
+    roiProjection: roundResults.length > 0 ? (investorMultiple - 1) * 100 : 0,
+    moic: investorMultiple,
+    irr: investorIrr === null ? null : investorIrr * 100,
+    npv: roundResults.length > 0 ? xnpv(hurdleRate, investorFlows) : 0,
+    paybackMonths: payback,
+    recommendedFundingRounds: recommendedFundingRounds.map((round, index) => ({
+      ...round,
+      dilution: roundResults[index].dilution,
+      postMoneyValuation: roundResults[index].postMoneyValuation,
+      pricePerShare: roundResults[index].pricePerShare,
+      sharesIssued: roundResults[index].sharesIssued,
+      conversions: roundResults[index].conversions,
+      conversionDilution: roundResults[index].conversionDilution,
+      poolTopUpShares: roundResults[index].poolTopUpShares,
+      poolTopUpDilution: roundResults[index].poolTopUpDilution,
+      ownership: roundResults[index].ownership
+    })),
+    capTable: capTableAfterRounds
+  };
+};
+
+/**
+ * Compare funding a scenario with one of its debt facilities against raising the same amount as equity
+ * in the facility's start month. The equity-funded plan pays no interest, so only its cash differs.
+ * A term loan raises its principal; a credit line only what the plan draws on it at its peak.
+ */
+export const compareDebtVsEquity = (scenario: ScenarioData, facilityId: string, preMoneyValuation: number): DebtVsEquityComparison | null => {
+  const facility = scenario.drivers?.debt?.find(debt => debt.id === facilityId);
+  if (!scenario.drivers || !facility) return null;
+
+  const startingCash = scenario.drivers.startingCash;
+  const currency = scenario.drivers.currency || DEFAULT_CURRENCY;
+  const debtMonths = getMonthlyProjections(scenario);
+  const withoutFacility = recalculateScenario(scenario, { debt: scenario.drivers.debt?.filter(debt => debt.id !== facilityId) });
+  const monthsWithout = getMonthlyProjections(withoutFacility);
+
+  // The facility's drawn balance is the borrowing the plan carries on top of its other debt
+  const drawn = Math.max(0, ...debtMonths.map((month, i) => (month.balanceSheet?.debt ?? 0) - (monthsWithout[i]?.balanceSheet?.debt ?? 0)));
+  const raised = facility.kind === 'creditLine'
+    ? drawn
+    : convertAmount(facility.amount, facility.currency || currency, currency, scenario.drivers.fxRates);
+  const equityMonths = monthsWithout.map(month => month.period >= facility.startMonth ?
+    { ...month, cashBalance: month.cashBalance + raised } :
+    month
+  );
+
+  const debtRunway = calculateRunwayFromProjections(debtMonths, startingCash);
+  const equityRunway = calculateRunwayFromProjections(equityMonths, startingCash);
+  const totalInterest = (months: { interest?: number }[]) => months.reduce((total, month) => total + (month.interest ?? 0), 0);
+
+  return {
+    facility,
+    equityAmount: raised,
+    dilutionAvoided: raised > 0 ? (raised / (preMoneyValuation + raised)) * 100 : 0,
+    interestCost: totalInterest(debtMonths) - totalInterest(equityMonths),
+    debtRunway,
+    equityRunway,
+    runwayDifference: debtRunway.months - equityRunway.months,
+    endingCashDifference: debtMonths[debtMonths.length - 1].cashBalance - equityMonths[equityMonths.length - 1].cashBalance
   };
-};
\ No newline at end of file
+};
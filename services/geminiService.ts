@@ -1,5 +1,8 @@
 import OpenAI from "openai";
-import { BenchmarkData, ScenarioData, UserInput } from "../types";
+import { BankTransaction, BenchmarkData, ProjectionDrivers, ScenarioData, TransactionCategory, UserInput } from "../types";
+import { buildScenario, deriveBaseDrivers, resolveProjectionYears, sanitizeDrivers } from "./projectionEngine";
+import { PeriodVariance, calculateVariance, largestVariances } from "./varianceService";
+import { describeHistory, historicalGrowthRate } from "./historyService";
 
 // Initialize OpenAI client pointing to OpenRouter
 const openai = new OpenAI({
@@ -68,20 +71,78 @@ export const fetchIndustryBenchmarks = async (industry: string, country: string)
   }
 };
 
+// Shape of a scenario as proposed by the model
+interface ProposedScenario {
+  name?: string;
+  description?: string;
+  assumptions?: string[];
+  drivers?: Partial<ProjectionDrivers>;
+}
+
+// Driver sets used when the model response cannot be parsed
+const FALLBACK_SCENARIOS: { name: string; description: string; assumptions: string[]; drivers: Partial<ProjectionDrivers> }[] = [
+  {
+    name: "Base Case",
+    description: "Conservative growth scenario based on current performance",
+    assumptions: ["10% annual revenue growth", "Stable operating margins", "Current expense structure maintained"],
+    drivers: { revenueGrowthRate: 0.10, opexGrowthRate: 0.10 }
+  },
+  {
+    name: "Optimistic Case",
+    description: "Strong growth scenario with market expansion",
+    assumptions: ["25% annual revenue growth", "Improved operational efficiency", "Market share gains"],
+    drivers: { revenueGrowthRate: 0.25, opexGrowthRate: 0.10 }
+  },
+  {
+    name: "Pessimistic Case",
+    description: "Economic downturn with reduced demand",
+    assumptions: ["Revenue decline due to market conditions", "Increased operational costs", "Cash flow challenges"],
+    drivers: { revenueGrowthRate: -0.05, opexGrowthRate: 0.05 }
+  }
+];
+
+// Drivers the AI may propose for a scenario; the founder's figures, plans and registers are never taken from it, and
+// the tax rate always follows the country's tax policy
+const PROPOSED_SCENARIO_DRIVERS = ['revenueGrowthRate', 'cogsRatio', 'opexGrowthRate', 'receivableDays', 'payableDays', 'inventoryDays'] as const;
+
+// Numeric values of the listed drivers from a model reply; anything else in the reply is dropped
+const pickProposedDrivers = (proposed: unknown, keys: readonly (keyof ProjectionDrivers)[]): Partial<ProjectionDrivers> => {
+  if (!proposed || typeof proposed !== 'object') return {};
+  const values = proposed as Record<string, unknown>;
+  return Object.fromEntries(keys.filter(key => typeof values[key] === 'number').map(key => [key, values[key]]));
+};
+
 /**
- * Uses the API for financial modeling.
+ * Uses the API to propose projection drivers; the projection engine computes every figure.
  */
 export const generateFinancialModel = async (input: UserInput, benchmarks: string): Promise<ScenarioData[]> => {
-  
-  const prompt = `Generate 3 financial scenarios for ${input.companyName} (${input.industry} in ${input.country}).
+  const baseDrivers = deriveBaseDrivers(input);
+  const years = resolveProjectionYears(input.projectionYears);
+  // Reported history anchors the proposals; the base case should not break from the track record without reason
+  const history = input.history || [];
+  const historicalGrowth = historicalGrowthRate(history);
+  const historyText = history.length > 0
+    ? `- Reported history from the accounts:\n${describeHistory(history, input.currency)}\n${historicalGrowth !== undefined ? `- Latest reported revenue growth: ${historicalGrowth.toFixed(2)}; keep the Base Case close to it unless the context explains a change\n` : ''}`
+    : '';
+
+  const prompt = `Propose assumptions for 3 financial scenarios for ${input.companyName} (${input.industry} in ${input.country}).
 
 Current Data:
 - Revenue: ${input.currentRevenue} ${input.currency}
 - Monthly Expenses: ${input.currentExpenses} ${input.currency}
 - Cash: ${input.currentCash} ${input.currency}
 - Context: ${input.businessContext}
-
-Create Base Case, Optimistic Case, and Pessimistic Case scenarios for 3 years.
+- Industry benchmarks: ${benchmarks}
+${historyText}
+Create Base Case, Optimistic Case, and Pessimistic Case scenarios for ${years} years.
+Do NOT calculate projections. Only propose drivers, as decimals (0.25 = 25%):
+- revenueGrowthRate: annual revenue growth
+- cogsRatio: cost of goods sold as a share of revenue (currently assumed ${baseDrivers.cogsRatio.toFixed(2)})
+- opexGrowthRate: annual growth of operating expenses
+And working-capital drivers, in days (industry defaults shown):
+- receivableDays: days customers take to pay (currently assumed ${baseDrivers.receivableDays})
+- payableDays: days taken to pay suppliers (currently assumed ${baseDrivers.payableDays})
+- inventoryDays: days of COGS held as stock, 0 if the business holds none (currently assumed ${baseDrivers.inventoryDays})
 
 Return valid JSON only:
 {
@@ -90,11 +151,7 @@ Return valid JSON only:
       "name": "Base Case",
       "description": "Brief description",
       "assumptions": ["Clear assumption 1", "Clear assumption 2"],
-      "projections": [
-        {"year": 1, "revenue": 50000, "cogs": 1500, "grossProfit": 48500, "opex": 40000, "ebitda": 8500, "netIncome": 6800, "cashBalance": 206800},
-        {"year": 2, "revenue": 55000, "cogs": 1650, "grossProfit": 53350, "opex": 44000, "ebitda": 9350, "netIncome": 7480, "cashBalance": 214280},
-        {"year": 3, "revenue": 60000, "cogs": 1800, "grossProfit": 58200, "opex": 48000, "ebitda": 10200, "netIncome": 8160, "cashBalance": 222440}
-      ]
+      "drivers": {"revenueGrowthRate": 0.15, "cogsRatio": 0.30, "opexGrowthRate": 0.10, "receivableDays": 45, "payableDays": 30, "inventoryDays": 0}
     }
   ]
 }`;
@@ -135,63 +192,43 @@ Return valid JSON only:
       console.error('JSON parse error:', parseError);
       console.error('Raw response:', jsonStr.substring(0, 500) + '...');
       
-      // Use current input values for fallback scenarios
-      const baseRevenue = Number(input.currentRevenue) || 50000;
-      const baseExpenses = Number(input.currentExpenses) * 12 || 30000;
-      const baseCash = Number(input.currentCash) || 200000;
-      
-      return [
-        {
-          name: "Base Case",
-          description: "Conservative growth scenario based on current performance",
-          assumptions: ["10% annual revenue growth", "Stable operating margins", "Current expense structure maintained"],
-          projections: [
-            { year: 1, revenue: Math.round(baseRevenue * 1.1), cogs: Math.round(baseRevenue * 0.03), grossProfit: Math.round(baseRevenue * 1.07), opex: baseExpenses, ebitda: Math.round(baseRevenue * 1.07 - baseExpenses), netIncome: Math.round((baseRevenue * 1.07 - baseExpenses) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 1.07 - baseExpenses) * 0.8) },
-            { year: 2, revenue: Math.round(baseRevenue * 1.21), cogs: Math.round(baseRevenue * 0.033), grossProfit: Math.round(baseRevenue * 1.177), opex: Math.round(baseExpenses * 1.1), ebitda: Math.round(baseRevenue * 1.177 - baseExpenses * 1.1), netIncome: Math.round((baseRevenue * 1.177 - baseExpenses * 1.1) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 1.07 - baseExpenses) * 0.8 + (baseRevenue * 1.177 - baseExpenses * 1.1) * 0.8) },
-            { year: 3, revenue: Math.round(baseRevenue * 1.331), cogs: Math.round(baseRevenue * 0.036), grossProfit: Math.round(baseRevenue * 1.295), opex: Math.round(baseExpenses * 1.21), ebitda: Math.round(baseRevenue * 1.295 - baseExpenses * 1.21), netIncome: Math.round((baseRevenue * 1.295 - baseExpenses * 1.21) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 1.07 - baseExpenses) * 0.8 + (baseRevenue * 1.177 - baseExpenses * 1.1) * 0.8 + (baseRevenue * 1.295 - baseExpenses * 1.21) * 0.8) }
-          ]
-        },
-        {
-          name: "Optimistic Case",
-          description: "Strong growth scenario with market expansion",
-          assumptions: ["25% annual revenue growth", "Improved operational efficiency", "Market share gains"],
-          projections: [
-            { year: 1, revenue: Math.round(baseRevenue * 1.25), cogs: Math.round(baseRevenue * 0.025), grossProfit: Math.round(baseRevenue * 1.225), opex: Math.round(baseExpenses * 1.1), ebitda: Math.round(baseRevenue * 1.225 - baseExpenses * 1.1), netIncome: Math.round((baseRevenue * 1.225 - baseExpenses * 1.1) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 1.225 - baseExpenses * 1.1) * 0.8) },
-            { year: 2, revenue: Math.round(baseRevenue * 1.5625), cogs: Math.round(baseRevenue * 0.031), grossProfit: Math.round(baseRevenue * 1.531), opex: Math.round(baseExpenses * 1.2), ebitda: Math.round(baseRevenue * 1.531 - baseExpenses * 1.2), netIncome: Math.round((baseRevenue * 1.531 - baseExpenses * 1.2) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 1.225 - baseExpenses * 1.1) * 0.8 + (baseRevenue * 1.531 - baseExpenses * 1.2) * 0.8) },
-            { year: 3, revenue: Math.round(baseRevenue * 1.953), cogs: Math.round(baseRevenue * 0.039), grossProfit: Math.round(baseRevenue * 1.914), opex: Math.round(baseExpenses * 1.3), ebitda: Math.round(baseRevenue * 1.914 - baseExpenses * 1.3), netIncome: Math.round((baseRevenue * 1.914 - baseExpenses * 1.3) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 1.225 - baseExpenses * 1.1) * 0.8 + (baseRevenue * 1.531 - baseExpenses * 1.2) * 0.8 + (baseRevenue * 1.914 - baseExpenses * 1.3) * 0.8) }
-          ]
-        },
-        {
-          name: "Pessimistic Case",
-          description: "Economic downturn with reduced demand",
-          assumptions: ["Revenue decline due to market conditions", "Increased operational costs", "Cash flow challenges"],
-          projections: [
-            { year: 1, revenue: Math.round(baseRevenue * 0.9), cogs: Math.round(baseRevenue * 0.04), grossProfit: Math.round(baseRevenue * 0.86), opex: baseExpenses, ebitda: Math.round(baseRevenue * 0.86 - baseExpenses), netIncome: Math.round((baseRevenue * 0.86 - baseExpenses) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 0.86 - baseExpenses) * 0.8) },
-            { year: 2, revenue: Math.round(baseRevenue * 0.855), cogs: Math.round(baseRevenue * 0.043), grossProfit: Math.round(baseRevenue * 0.812), opex: Math.round(baseExpenses * 1.05), ebitda: Math.round(baseRevenue * 0.812 - baseExpenses * 1.05), netIncome: Math.round((baseRevenue * 0.812 - baseExpenses * 1.05) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 0.86 - baseExpenses) * 0.8 + (baseRevenue * 0.812 - baseExpenses * 1.05) * 0.8) },
-            { year: 3, revenue: Math.round(baseRevenue * 0.85), cogs: Math.round(baseRevenue * 0.045), grossProfit: Math.round(baseRevenue * 0.805), opex: Math.round(baseExpenses * 1.1), ebitda: Math.round(baseRevenue * 0.805 - baseExpenses * 1.1), netIncome: Math.round((baseRevenue * 0.805 - baseExpenses * 1.1) * 0.8), cashBalance: Math.round(baseCash + (baseRevenue * 0.86 - baseExpenses) * 0.8 + (baseRevenue * 0.812 - baseExpenses * 1.05) * 0.8 + (baseRevenue * 0.805 - baseExpenses * 1.1) * 0.8) }
-          ]
-        }
-      ];
+      // Fall back to standard driver sets on top of the user's current figures
+      return FALLBACK_SCENARIOS.map(({ drivers, ...details }) =>
+        buildScenario(details, sanitizeDrivers(drivers, baseDrivers), years)
+      );
     }
 
-    const scenarios = parsedData.scenarios;
+    let scenarios = parsedData.scenarios;
 
     if (!scenarios) {
       if (Array.isArray(parsedData)) {
-        return parsedData as ScenarioData[];
+        scenarios = parsedData;
+      } else if (parsedData.name && (parsedData.drivers || parsedData.projections)) {
+        scenarios = [parsedData];
+      } else {
+        throw new Error("Could not find 'scenarios' key in the response and the response is not a valid scenario object.");
       }
-      if (parsedData.name && parsedData.projections) {
-        return [parsedData] as ScenarioData[];
-      }
-      throw new Error("Could not find 'scenarios' key in the response and the response is not a valid scenario object.");
     }
 
-    return Array.isArray(scenarios) ? scenarios : [scenarios];
+    return (Array.isArray(scenarios) ? scenarios : [scenarios]).map((scenario: ProposedScenario, index: number) =>
+      buildScenario(
+        {
+          name: scenario.name || FALLBACK_SCENARIOS[index % FALLBACK_SCENARIOS.length].name,
+          description: scenario.description || '',
+          assumptions: Array.isArray(scenario.assumptions) ? scenario.assumptions : []
+        },
+        sanitizeDrivers(pickProposedDrivers(scenario.drivers, PROPOSED_SCENARIO_DRIVERS), baseDrivers),
+        years
+      )
+    );
   } catch (error) {
     console.error("Modeling error:", error);
     throw new Error("Failed to generate financial models");
   }
 };
+// Shown when AI commentary fails; never cached with a saved model
+export const ANALYSIS_UNAVAILABLE = "Analysis temporarily unavailable due to rate limits. Please try again in a moment.";
+
 /**
  * Uses API for quick ratio analysis.
  */
@@ -207,7 +244,7 @@ export const analyzeRatios = async (scenario: ScenarioData, currency: string): P
         },
         {
           role: "user",
-          content: `Analyze these 3-year financial projections for a company dealing in ${currency}. Provide a structured analysis with the following format:
+          content: `Analyze these ${scenario.projections.length}-year financial projections for a company dealing in ${currency}. Provide a structured analysis with the following format:
 
 **Key Strengths:**
 - [List 2-3 specific strengths with brief explanations]
@@ -226,6 +263,129 @@ Keep each point concise (1-2 sentences max). Focus on trends, ratios, and cash f
     } as any));
     return response.choices[0]?.message?.content || "Analysis unavailable.";
   } catch (e) {
-    return "Analysis temporarily unavailable due to rate limits. Please try again in a moment.";
+    return ANALYSIS_UNAVAILABLE;
   }
-};
\ No newline at end of file
+};
+
+export const analyzeVariances = async (variance: PeriodVariance, currency: string): Promise<string> => {
+  try {
+    const dataStr = JSON.stringify({
+      months: variance.months,
+      biggestVariances: largestVariances(variance),
+      allLines: variance.lines
+    });
+    const response = await retryWithDelay(() => openai.chat.completions.create({
+      model: MODEL_ID,
+      messages: [
+        {
+          role: "system",
+          content: "You are a financial analyst providing structured insights. Always format your response with clear sections and bullet points."
+        },
+        {
+          role: "user",
+          content: `Compare actual results with the plan over ${variance.months.length} month(s) for a company dealing in ${currency}. Variance is actual minus plan; "favorable" already accounts for costs being better when lower. Provide a structured analysis with the following format:
+
+**Biggest Variances:**
+- [The 2-3 largest variances, with amount, % and whether favorable]
+
+**Likely Causes:**
+- [List 2-3 plausible explanations tied to the lines above]
+
+**Actions for Next Month:**
+- [One or two concrete actions, including any plan assumptions to revisit]
+
+Keep each point concise (1-2 sentences max). Use only the data: ${dataStr}`
+        }
+      ],
+      stream: false
+    }));
+    return response.choices[0]?.message?.content || "Analysis unavailable.";
+  } catch {
+    return ANALYSIS_UNAVAILABLE;
+  }
+};
+
+/**
+ * Uses the API to revise growth and margin for the open periods of a rolled-forward forecast; the rebased
+ * run-rate is kept. Returns no changes when the API is unavailable.
+ */
+export const proposeReforecastDrivers = async (scenario: ScenarioData, rebased: ProjectionDrivers, currency: string): Promise<Partial<ProjectionDrivers>> => {
+  const dataStr = JSON.stringify({
+    plannedDrivers: {
+      revenueGrowthRate: scenario.drivers?.revenueGrowthRate,
+      cogsRatio: scenario.drivers?.cogsRatio,
+      opexGrowthRate: scenario.drivers?.opexGrowthRate
+    },
+    runRate: { annualRevenue: Math.round(rebased.baseRevenue), cogsRatio: rebased.cogsRatio, annualOpex: Math.round(rebased.baseOpex), cash: Math.round(rebased.startingCash) },
+    varianceToDate: calculateVariance(scenario).total?.lines
+  });
+
+  try {
+    const response = await retryWithDelay(() => openai.chat.completions.create({
+      model: MODEL_ID,
+      messages: [
+        { role: "system", content: "You are a financial planning expert. Output a valid JSON object only." },
+        {
+          role: "user",
+          content: `A company dealing in ${currency} is re-forecasting the rest of its plan from ${rebased.startMonth}, starting from its latest actual run-rate. Given the planned drivers and how actuals have tracked against plan, propose drivers for the remaining periods, as decimals (0.25 = 25%):
+- revenueGrowthRate: annual revenue growth from the current run-rate
+- cogsRatio: cost of goods sold as a share of revenue
+- opexGrowthRate: annual growth of operating expenses
+
+Return valid JSON only: {"revenueGrowthRate": 0.15, "cogsRatio": 0.30, "opexGrowthRate": 0.10}
+Use only the data: ${dataStr}`
+        }
+      ],
+      response_format: { type: "json_object" },
+      stream: false
+    }));
+
+    const jsonStr = (response.choices[0]?.message?.content || '{}').replace(/```json/g, '').replace(/```/g, '').trim();
+    const proposed = JSON.parse(jsonStr);
+    // Only the revised rates are taken; the run-rate, cash and plans come from the actuals and the existing drivers
+    return pickProposedDrivers(proposed, ['revenueGrowthRate', 'cogsRatio', 'opexGrowthRate']);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Uses the API to categorize bank transactions no rule recognised; returns one category per transaction, or
+ * nothing when the API is unavailable or its answer does not line up
+ */
+export const categorizeTransactionsWithAI = async (transactions: Pick<BankTransaction, 'description' | 'amount'>[]): Promise<TransactionCategory[] | undefined> => {
+  if (transactions.length === 0) return [];
+  const categories: TransactionCategory[] = ['revenue', 'payroll', 'vendors', 'tax', 'transfer'];
+  const lines = transactions.map((transaction, index) => `${index}: ${transaction.amount >= 0 ? 'IN' : 'OUT'} ${Math.abs(Math.round(transaction.amount))} "${transaction.description}"`).join('\n');
+
+  try {
+    const response = await retryWithDelay(() => openai.chat.completions.create({
+      model: MODEL_ID,
+      messages: [
+        { role: "system", content: "You are a bookkeeper categorizing bank transactions. Output a valid JSON object only." },
+        {
+          role: "user",
+          content: `Categorize each bank transaction of a startup as one of: revenue (money from customers, or refunds to them), payroll (salaries, contractors paid as staff, benefits), vendors (suppliers, software, rent, services), tax (tax payments and refunds), transfer (own-account moves, loans, equity and other financing).
+
+Return valid JSON only, with one category per transaction in the same order: {"categories": ["vendors", "revenue"]}
+
+Transactions:
+${lines}`
+        }
+      ],
+      response_format: { type: "json_object" },
+      stream: false
+    }));
+
+    const jsonStr = (response.choices[0]?.message?.content || '{}').replace(/```json/g, '').replace(/```/g, '').trim();
+    const proposed = JSON.parse(jsonStr).categories;
+    if (!Array.isArray(proposed) || proposed.length !== transactions.length) return undefined;
+    return proposed.map((category: unknown, index: number) =>
+      categories.includes(category as TransactionCategory)
+        ? category as TransactionCategory
+        : transactions[index].amount >= 0 ? 'revenue' : 'vendors'
+    );
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,98 @@
+import { Department, FxRate, HeadcountRole } from '../types';
+import { convertAmount, sanitizeCurrencyCode } from './currencyService';
+import { MONTH_PATTERN } from './periodUtils';
+import { getCountryConfig } from './scenarioGenerator';
+
+export const DEPARTMENTS: Department[] = ['Engineering', 'Product', 'Sales', 'Marketing', 'Operations', 'G&A'];
+
+export const DEFAULT_BENEFITS_LOAD = 0.20;
+
+// Currency the benchmark salaries are quoted in
+export const BENCHMARK_SALARY_CURRENCY = 'INR';
+
+// Annual salary (INR) per person for an India-based hire; other countries scale by their salary multiplier
+const BENCHMARK_SALARIES: Record<Department, number> = {
+  Engineering: 1440000,
+  Product: 1800000,
+  Sales: 1200000,
+  Marketing: 960000,
+  Operations: 720000,
+  'G&A': 840000
+};
+
+/**
+ * Default annual salary for a department in a given country, in `currency`
+ */
+export const benchmarkSalary = (department: Department, country: string, currency: string = BENCHMARK_SALARY_CURRENCY, fxRates: FxRate[] = []): number =>
+  convertAmount(BENCHMARK_SALARIES[department] * getCountryConfig(country).salaryMultiplier, BENCHMARK_SALARY_CURRENCY, currency, fxRates);
+
+/**
+ * Fully loaded annual cost of one person in the role (salary plus benefits), in the model currency
+ */
+export const annualCostPerHead = (role: HeadcountRole, currency: string = BENCHMARK_SALARY_CURRENCY, fxRates: FxRate[] = []): number => {
+  const salary = role.annualSalary === undefined
+    ? benchmarkSalary(role.department, role.country, currency, fxRates)
+    : convertAmount(role.annualSalary, role.currency || currency, currency, fxRates);
+  return salary * (1 + role.benefitsLoad);
+};
+
+// Lines without a valid start month (e.g. mid-edit) stay in the plan but are not costed
+const isOnPayroll = (role: HeadcountRole, period: string) =>
+  MONTH_PATTERN.test(role.startMonth) && period >= role.startMonth && (!role.endMonth || period <= role.endMonth);
+
+/**
+ * Payroll cost, in the model currency, and closing headcount of the plan for one calendar month ("YYYY-MM").
+ * Salaries are in today's prices; `priceLevel` gives how far they have risen by this month in a hire's country.
+ */
+export const payrollForMonth = (
+  roles: HeadcountRole[],
+  period: string,
+  currency: string = BENCHMARK_SALARY_CURRENCY,
+  fxRates: FxRate[] = [],
+  priceLevel: (country: string) => number = () => 1
+): { payroll: number; headcount: number } =>
+  roles.filter(role => isOnPayroll(role, period)).reduce(
+    (totals, role) => ({
+      payroll: totals.payroll + (annualCostPerHead(role, currency, fxRates) / 12) * role.count * priceLevel(role.country),
+      headcount: totals.headcount + role.count
+    }),
+    { payroll: 0, headcount: 0 }
+  );
+
+/**
+ * New plan line with sensible defaults
+ */
+export const createRole = (overrides: Partial<HeadcountRole> & Pick<HeadcountRole, 'startMonth'>): HeadcountRole => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  role: 'New Hire',
+  department: 'Engineering',
+  country: 'India',
+  count: 1,
+  benefitsLoad: DEFAULT_BENEFITS_LOAD,
+  ...overrides
+});
+
+/**
+ * Drop plan lines that cannot be costed and clamp the rest into range
+ */
+export const sanitizeHeadcount = (roles: HeadcountRole[] | undefined): HeadcountRole[] | undefined => {
+  if (!Array.isArray(roles)) return undefined;
+
+  return roles
+    .filter(role => role && DEPARTMENTS.includes(role.department))
+    .map(role => {
+      const salary = Number(role.annualSalary);
+      const options = Number(role.optionsPerHead);
+      const currency = sanitizeCurrencyCode(role.currency);
+      return {
+        ...role,
+        startMonth: String(role.startMonth ?? ''),
+        count: Math.max(0, Math.round(Number(role.count) || 0)),
+        endMonth: role.endMonth && MONTH_PATTERN.test(role.endMonth) ? role.endMonth : undefined,
+        annualSalary: role.annualSalary === undefined || !Number.isFinite(salary) ? undefined : Math.max(0, salary),
+        benefitsLoad: Math.min(2, Math.max(0, Number(role.benefitsLoad) || 0)),
+        optionsPerHead: role.optionsPerHead === undefined || !Number.isFinite(options) ? undefined : Math.max(0, Math.round(options)),
+        currency
+      };
+    });
+};
@@ -0,0 +1,84 @@
+import { HistoricalYear, UserInput } from '../types';
+
+// A year needs this many months before its figures stand in for a full year's run-rate
+const MIN_MONTHS_FOR_RUN_RATE = 3;
+
+const annualized = (amount: number, months: number) => months > 0 ? (amount * 12) / months : 0;
+
+/**
+ * Past years in order, oldest first; labels sort by the year they end in
+ */
+export const sortHistory = (history: HistoricalYear[]): HistoricalYear[] =>
+  [...history].sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+
+/**
+ * Imported years replace existing years with the same label
+ */
+export const mergeHistory = (existing: HistoricalYear[], imported: HistoricalYear[]): HistoricalYear[] =>
+  sortHistory([...existing.filter(year => !imported.some(other => other.label === year.label)), ...imported]);
+
+/**
+ * Clamp imported history into shape; years without a label are dropped
+ */
+export const sanitizeHistory = (history: HistoricalYear[] | undefined): HistoricalYear[] | undefined => {
+  if (!Array.isArray(history)) return undefined;
+
+  const amount = (value: unknown) => Number.isFinite(Number(value)) ? Number(value) : 0;
+  return sortHistory(history.filter(year => year && String(year.label ?? '').trim() !== '').map(year => ({
+    label: String(year.label).trim(),
+    months: Math.min(12, Math.max(1, Math.round(amount(year.months) || 12))),
+    revenue: Math.max(0, amount(year.revenue)),
+    cogs: Math.max(0, amount(year.cogs)),
+    opex: Math.max(0, amount(year.opex)),
+    netIncome: amount(year.netIncome),
+    ...(year.cashBalance !== undefined && Number.isFinite(Number(year.cashBalance)) && { cashBalance: Number(year.cashBalance) })
+  })));
+};
+
+/**
+ * Latest year with enough months to annualize; undefined without history
+ */
+export const latestHistoricalYear = (history: HistoricalYear[] = []): HistoricalYear | undefined =>
+  sortHistory(history).filter(year => year.months >= MIN_MONTHS_FOR_RUN_RATE).pop();
+
+/**
+ * Revenue growth of the latest year over the one before, both annualized; undefined with fewer than two years
+ * or no revenue in the earlier one
+ */
+export const historicalGrowthRate = (history: HistoricalYear[] = []): number | undefined => {
+  const years = sortHistory(history).filter(year => year.months >= MIN_MONTHS_FOR_RUN_RATE);
+  const [previous, latest] = years.slice(-2);
+  if (!previous || !latest) return undefined;
+  const previousRevenue = annualized(previous.revenue, previous.months);
+  return previousRevenue > 0 ? annualized(latest.revenue, latest.months) / previousRevenue - 1 : undefined;
+};
+
+/**
+ * COGS as a share of revenue in the latest year; undefined without revenue or COGS to go on
+ */
+export const historicalCogsRatio = (history: HistoricalYear[] = []): number | undefined => {
+  const latest = latestHistoricalYear(history);
+  return latest && latest.revenue > 0 && latest.cogs > 0 ? Math.min(1, latest.cogs / latest.revenue) : undefined;
+};
+
+/**
+ * Current figures implied by the latest year: annual revenue, average monthly spend (COGS and OpEx) and, when
+ * reported, closing cash
+ */
+export const inputsFromHistory = (history: HistoricalYear[]): Partial<Pick<UserInput, 'currentRevenue' | 'currentExpenses' | 'currentCash'>> => {
+  const latest = latestHistoricalYear(history);
+  if (!latest) return {};
+  return {
+    currentRevenue: Math.round(annualized(latest.revenue, latest.months)),
+    currentExpenses: Math.round((latest.cogs + latest.opex) / latest.months),
+    ...(latest.cashBalance !== undefined && { currentCash: Math.round(latest.cashBalance) })
+  };
+};
+
+/**
+ * One line per year for prompts and summaries
+ */
+export const describeHistory = (history: HistoricalYear[], currency: string): string =>
+  sortHistory(history).map(year =>
+    `${year.label}${year.months < 12 ? ` (${year.months} months)` : ''}: revenue ${Math.round(year.revenue)} ${currency}, COGS ${Math.round(year.cogs)}, OpEx ${Math.round(year.opex)}, net income ${Math.round(year.netIncome)}${year.cashBalance !== undefined ? `, closing cash ${Math.round(year.cashBalance)}` : ''}`
+  ).join('\n');
@@ -0,0 +1,74 @@
+import { CountryInflation, FinancialYear, InflationAssumptions, MonthlyPeriod, ProjectionDrivers, ScenarioData } from '../types';
+import { convertPeriod } from './currencyService';
+import { getCountryConfig } from './scenarioGenerator';
+
+// Inflation rates above this are treated as typing mistakes rather than hyperinflation
+const MAX_INFLATION_RATE = 2;
+
+/**
+ * Inflation assumptions for a model based in `country`, off until the founder turns them on
+ */
+export const createInflationAssumptions = (country: string): InflationAssumptions => ({
+  enabled: false,
+  country,
+  rates: []
+});
+
+/**
+ * Annual inflation for a country: the model's override first, then the indicative country rate
+ */
+export const inflationRateFor = (country: string, rates: CountryInflation[] = []): number =>
+  rates.find(rate => rate.country === country)?.annualRate ?? getCountryConfig(country).inflationRate;
+
+/**
+ * Price level of the nth projected month (0-based) relative to the first. Prices step up once a year on the
+ * plan anniversary, as salary reviews and contract renewals do, so every month of a projection year shares one level.
+ */
+export const priceIndex = (annualRate: number, monthIndex: number): number =>
+  Math.pow(1 + annualRate, Math.floor(monthIndex / 12));
+
+/**
+ * Real growth rate left once inflation is taken out of a nominal one
+ */
+export const realGrowthRate = (nominalRate: number, inflationRate: number): number =>
+  (1 + nominalRate) / (1 + inflationRate) - 1;
+
+/**
+ * Inflation of the country a model's real-terms views are deflated by
+ */
+export const homeInflationRate = (drivers: ProjectionDrivers | undefined, fallbackCountry: string): number => {
+  const inflation = drivers?.inflation;
+  return inflationRateFor(inflation?.country || fallbackCountry, inflation?.rates);
+};
+
+/**
+ * Clamp inflation assumptions into range; override rows mid-edit are kept
+ */
+export const sanitizeInflation = (inflation: InflationAssumptions | undefined): InflationAssumptions | undefined => {
+  if (!inflation) return undefined;
+
+  return {
+    enabled: !!inflation.enabled,
+    country: String(inflation.country ?? ''),
+    rates: (Array.isArray(inflation.rates) ? inflation.rates : []).filter(Boolean).map(rate => ({
+      country: String(rate.country ?? ''),
+      annualRate: Math.min(MAX_INFLATION_RATE, Math.max(-0.1, Number(rate.annualRate) || 0))
+    }))
+  };
+};
+
+/**
+ * Scenario with its projections restated in year-1 prices of the home country. Like a currency
+ * restatement, the result is for display and export only, not for recalculation.
+ */
+export const realTermsScenario = (scenario: ScenarioData, fallbackCountry: string): ScenarioData => {
+  const rate = homeInflationRate(scenario.drivers, fallbackCountry);
+  if (rate === 0) return scenario;
+  return {
+    ...scenario,
+    projections: scenario.projections.map(year => convertPeriod<FinancialYear>(year, 1 / priceIndex(rate, (year.year - 1) * 12))),
+    ...(scenario.monthlyProjections && {
+      monthlyProjections: scenario.monthlyProjections.map(month => convertPeriod<MonthlyPeriod>(month, 1 / priceIndex(rate, month.month - 1)))
+    })
+  };
+};
@@ -1,4 +1,6 @@
 import { ScenarioData } from '../types';
+import { calculateRevenueCagr } from './ratiosService';
+import { realGrowthRate } from './inflationService';
 
 export interface MarketBenchmarks {
   industry: string;
@@ -9,6 +11,11 @@ export interface MarketBenchmarks {
     burnRate: { min: number; avg: number; max: number };
     cashRunway: { min: number; avg: number; max: number };
   };
+  workingCapital: {
+    receivableDays: number;
+    payableDays: number;
+    inventoryDays: number;
+  };
   valuation: {
     revenueMultiple: { min: number; avg: number; max: number };
     ebitdaMultiple: { min: number; avg: number; max: number };
@@ -31,6 +38,7 @@ const INDUSTRY_BENCHMARKS: Record<string, MarketBenchmarks> = {
       burnRate: { min: 50000, avg: 150000, max: 500000 },
       cashRunway: { min: 12, avg: 18, max: 36 }
     },
+    workingCapital: { receivableDays: 45, payableDays: 30, inventoryDays: 0 },
     valuation: {
       revenueMultiple: { min: 3, avg: 6, max: 12 }, // Lower for early stage
       ebitdaMultiple: { min: 15, avg: 25, max: 50 }
@@ -50,6 +58,7 @@ const INDUSTRY_BENCHMARKS: Record<string, MarketBenchmarks> = {
       burnRate: { min: 30000, avg: 100000, max: 300000 },
       cashRunway: { min: 8, avg: 15, max: 24 }
     },
+    workingCapital: { receivableDays: 7, payableDays: 45, inventoryDays: 60 }, // Card payments settle fast; stock is the main drag
     valuation: {
       revenueMultiple: { min: 0.5, avg: 2, max: 5 },
       ebitdaMultiple: { min: 8, avg: 15, max: 25 }
@@ -69,6 +78,7 @@ const INDUSTRY_BENCHMARKS: Record<string, MarketBenchmarks> = {
       burnRate: { min: 75000, avg: 200000, max: 600000 },
       cashRunway: { min: 15, avg: 24, max: 48 }
     },
+    workingCapital: { receivableDays: 30, payableDays: 30, inventoryDays: 0 },
     valuation: {
       revenueMultiple: { min: 4, avg: 8, max: 18 },
       ebitdaMultiple: { min: 20, avg: 30, max: 55 }
@@ -88,6 +98,7 @@ const INDUSTRY_BENCHMARKS: Record<string, MarketBenchmarks> = {
       burnRate: { min: 60000, avg: 180000, max: 450000 },
       cashRunway: { min: 18, avg: 30, max: 60 }
     },
+    workingCapital: { receivableDays: 60, payableDays: 45, inventoryDays: 15 }, // Insurer and hospital billing cycles
     valuation: {
       revenueMultiple: { min: 3, avg: 7, max: 15 },
       ebitdaMultiple: { min: 15, avg: 28, max: 50 }
@@ -107,6 +118,7 @@ const INDUSTRY_BENCHMARKS: Record<string, MarketBenchmarks> = {
       burnRate: { min: 40000, avg: 120000, max: 350000 },
       cashRunway: { min: 12, avg: 20, max: 36 }
     },
+    workingCapital: { receivableDays: 60, payableDays: 50, inventoryDays: 75 }, // Raw materials and finished goods on hand
     valuation: {
       revenueMultiple: { min: 0.8, avg: 2, max: 4 },
       ebitdaMultiple: { min: 6, avg: 12, max: 20 }
@@ -119,14 +131,28 @@ const INDUSTRY_BENCHMARKS: Record<string, MarketBenchmarks> = {
   }
 };
 
+// Benchmark growth rates are nominal, drawn mostly from US and European companies at about this inflation
+const BENCHMARK_INFLATION_RATE = 0.03;
+
+// Growth range (in %) with inflation at `inflationRate` taken out
+const realGrowthRange = (range: { min: number; avg: number; max: number }, inflationRate: number) => ({
+  min: realGrowthRate(range.min / 100, inflationRate) * 100,
+  avg: realGrowthRate(range.avg / 100, inflationRate) * 100,
+  max: realGrowthRate(range.max / 100, inflationRate) * 100
+});
+
 export const getIndustryBenchmarks = (industry: string): MarketBenchmarks => {
   return INDUSTRY_BENCHMARKS[industry] || INDUSTRY_BENCHMARKS['SaaS'];
 };
 
-export const compareToMarket = (scenario: ScenarioData, industry: string) => {
+/**
+ * Compare a scenario's margins and growth with its industry. Given the scenario's home inflation rate, growth is
+ * compared in real terms, net of the scenario's inflation and of the benchmarks', so high-inflation countries are
+ * not flattered by price rises.
+ */
+export const compareToMarket = (scenario: ScenarioData, industry: string, inflationRate?: number) => {
   const benchmarks = getIndustryBenchmarks(industry);
   const lastYear = scenario.projections[scenario.projections.length - 1];
-  const firstYear = scenario.projections[0];
   
   // Scenario-aware benchmark adjustments
   const scenarioType = scenario.name.toLowerCase();
@@ -147,7 +173,12 @@ export const compareToMarket = (scenario: ScenarioData, industry: string) => {
   
   const grossMargin = (lastYear.grossProfit / lastYear.revenue) * 100;
   const ebitdaMargin = (lastYear.ebitda / lastYear.revenue) * 100;
-  const revenueGrowth = ((Math.pow(lastYear.revenue / firstYear.revenue, 1/3) - 1) * 100);
+  const realTerms = inflationRate !== undefined;
+  const nominalGrowth = calculateRevenueCagr(scenario.projections);
+  const revenueGrowth = realTerms ? realGrowthRate(nominalGrowth / 100, inflationRate) * 100 : nominalGrowth;
+  const growthBenchmark = realTerms
+    ? realGrowthRange(adjustedBenchmarks.metrics.revenueGrowth, BENCHMARK_INFLATION_RATE)
+    : adjustedBenchmarks.metrics.revenueGrowth;
   
   return {
     grossMargin: {
@@ -164,9 +195,10 @@ export const compareToMarket = (scenario: ScenarioData, industry: string) => {
     },
     revenueGrowth: {
       value: revenueGrowth,
-      percentile: getPercentile(revenueGrowth, adjustedBenchmarks.metrics.revenueGrowth),
-      status: getStatus(revenueGrowth, adjustedBenchmarks.metrics.revenueGrowth),
-      context: isOptimistic ? 'vs aggressive growth targets' : isPessimistic ? 'vs recession resilience' : 'vs industry average'
+      industryAverage: growthBenchmark.avg,
+      percentile: getPercentile(revenueGrowth, growthBenchmark),
+      status: getStatus(revenueGrowth, growthBenchmark),
+      context: `${isOptimistic ? 'vs aggressive growth targets' : isPessimistic ? 'vs recession resilience' : 'vs industry average'}${realTerms ? ' (real)' : ''}`
     }
   };
 };
@@ -0,0 +1,88 @@
+import { OpexBreakdown, OpexCategory, OpexLine } from '../types';
+import { sanitizeCurrencyCode } from './currencyService';
+
+export const OPEX_CATEGORIES: { category: OpexCategory; label: string }[] = [
+  { category: 'payroll', label: 'Payroll' },
+  { category: 'marketing', label: 'Marketing' },
+  { category: 'rnd', label: 'R&D' },
+  { category: 'gAndA', label: 'G&A' },
+  { category: 'rent', label: 'Rent' },
+  { category: 'cloud', label: 'Cloud / Infra' }
+];
+
+// Typical early-stage split used until the founder sets their own lines
+const DEFAULT_OPEX_SPLIT: Record<OpexCategory, number> = {
+  payroll: 0.45,
+  marketing: 0.20,
+  rnd: 0.15,
+  gAndA: 0.08,
+  rent: 0.07,
+  cloud: 0.05
+};
+
+export const opexCategoryLabel = (category: OpexCategory): string =>
+  OPEX_CATEGORIES.find(c => c.category === category)?.label || category;
+
+/**
+ * Split today's annual opex into growth-driven category lines
+ */
+export const defaultOpexLines = (annualOpex: number): OpexLine[] =>
+  OPEX_CATEGORIES.map(({ category }) => ({
+    category,
+    method: 'growth',
+    baseAmount: annualOpex * DEFAULT_OPEX_SPLIT[category],
+    revenueShare: 0
+  }));
+
+/**
+ * Keep one line per known category and clamp values into range
+ */
+export const sanitizeOpexLines = (lines: OpexLine[] | undefined): OpexLine[] | undefined => {
+  if (!Array.isArray(lines)) return undefined;
+
+  return OPEX_CATEGORIES
+    .map(({ category }) => lines.find(line => line && line.category === category))
+    .filter((line): line is OpexLine => !!line)
+    .map(line => {
+      const growthRate = Number(line.growthRate);
+      const currency = sanitizeCurrencyCode(line.currency);
+      return {
+        category: line.category,
+        method: line.method === 'percentOfRevenue' ? 'percentOfRevenue' : 'growth',
+        baseAmount: Math.max(0, Number(line.baseAmount) || 0),
+        growthRate: line.growthRate === undefined || !Number.isFinite(growthRate) ? undefined : Math.min(5, Math.max(-0.9, growthRate)),
+        revenueShare: Math.min(1, Math.max(0, Number(line.revenueShare) || 0)),
+        ...(currency && { currency })
+      };
+    });
+};
+
+export const emptyOpexBreakdown = (): OpexBreakdown => ({
+  payroll: 0,
+  marketing: 0,
+  rnd: 0,
+  gAndA: 0,
+  rent: 0,
+  cloud: 0
+});
+
+/**
+ * Total category spend across consecutive periods
+ */
+export const sumOpexBreakdowns = (breakdowns: OpexBreakdown[]): OpexBreakdown => {
+  const total = emptyOpexBreakdown();
+  breakdowns.forEach(breakdown => {
+    OPEX_CATEGORIES.forEach(({ category }) => {
+      total[category] += breakdown[category];
+    });
+  });
+  return total;
+};
+
+export const roundOpexBreakdown = (breakdown: OpexBreakdown): OpexBreakdown => {
+  const rounded = emptyOpexBreakdown();
+  OPEX_CATEGORIES.forEach(({ category }) => {
+    rounded[category] = Math.round(breakdown[category]);
+  });
+  return rounded;
+};
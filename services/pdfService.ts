@@ -5,6 +5,8 @@ import { calculateValuation } from './valuationService';
 import { calculateBreakEven } from './breakEvenService';
 import { analyzeBudget } from './budgetService';
 import { performSensitivityAnalysis } from './sensitivityService';
+import { collectStreamNames, streamGrossMargin } from './revenueStreamService';
+import { DEFAULT_CURRENCY, exchangeRate, formatMoney } from './currencyService';
 
 export const generatePDFReport = async (
   scenarios: ScenarioData[],
@@ -49,29 +51,18 @@ export const generatePDFReport = async (
   
   // Calculate metrics
   const ratios = calculateFinancialRatios(baseScenario);
-  const valuation = calculateValuation(baseScenario, {});
+  const valuation = calculateValuation(baseScenario, { country: userInputs.country });
   const breakEven = calculateBreakEven(baseScenario, { pricePerUnit: 100, variableCostPerUnit: 40 });
   const budgetAnalysis = analyzeBudget(baseScenario, currentCash);
   const sensitivity = performSensitivityAnalysis(baseScenario);
   
-  // Currency formatting
-  const getCountryConfig = (country: string) => {
-    const configs = {
-      'USA': { format: (val: number) => `$${val.toLocaleString()}` },
-      'India': { format: (val: number) => `₹${val.toLocaleString()}` },
-      'UK': { format: (val: number) => `£${val.toLocaleString()}` },
-      'Germany': { format: (val: number) => `€${val.toLocaleString()}` },
-      'Singapore': { format: (val: number) => `S$${val.toLocaleString()}` },
-      'Australia': { format: (val: number) => `A$${val.toLocaleString()}` },
-      'Canada': { format: (val: number) => `C$${val.toLocaleString()}` }
-    };
-    return configs[country as keyof typeof configs] || configs['USA'];
-  };
-  
-  const countryConfig = getCountryConfig(userInputs.country || 'USA');
-  const formatCurrency = countryConfig.format;
+  // Figures are in the model currency and are restated in the reporting currency as they are printed. The PDF's
+  // built-in fonts have no glyphs for most currency symbols, so amounts carry the ISO code instead.
+  const modelCurrency = baseScenario.drivers?.currency || userInputs.currency || DEFAULT_CURRENCY;
+  const reportingCurrency = userInputs.reportingCurrency || modelCurrency;
+  const reportingRate = exchangeRate(modelCurrency, reportingCurrency, baseScenario.drivers?.fxRates);
+  const formatCurrency = (val: number) => formatMoney(val * reportingRate, reportingCurrency, { display: 'code' });
 
-  
   // Calculate runway
   const monthlyRevenue = annualRevenue / 12;
   const netMonthlyCashFlow = monthlyRevenue - monthlyExpenses;
@@ -157,12 +148,9 @@ export const generatePDFReport = async (
   addMetricBox('EBITDA Margin', `${currentEBITDAMargin.toFixed(1)}%`, 20, 160, colors.accent);
   addMetricBox('Risk Level', budgetAnalysis.adequacy.riskLevel, 110, 160, budgetAnalysis.adequacy.riskLevel === 'Low' ? colors.success : budgetAnalysis.adequacy.riskLevel === 'Medium' ? colors.warning : colors.danger);
   
-  // PAGE 3: Financial Projections
-  pdf.addPage();
-  pdf.setFontSize(20);
-  pdf.setFont('helvetica', 'bold');
-  pdf.setTextColor(...colors.primary);
-  pdf.text('Financial Projections (3 Years)', 20, 30);
+  // PAGE 3: Financial Projections (three year columns per page)
+  const projectionYears = Math.max(...scenarios.map(s => s.projections.length));
+  const yearsPerPage = 3;
 
   const tableData = [
     { metric: 'Revenue', projections: scenarios.map(s => s.projections.map(p => formatCurrency(p.revenue))) },
@@ -174,48 +162,149 @@ export const generatePDFReport = async (
     { metric: 'Cash Balance', projections: scenarios.map(s => s.projections.map(p => formatCurrency(p.cashBalance))) },
   ];
 
-  let tableY = 50;
+  for (let firstYear = 0; firstYear < projectionYears; firstYear += yearsPerPage) {
+    const lastYear = Math.min(firstYear + yearsPerPage, projectionYears);
 
-  // Table Header
-  pdf.setFillColor(...colors.lightGray);
-  pdf.rect(20, tableY - 8, 170, 12, 'F');
-  pdf.setFont('helvetica', 'bold');
-  pdf.setFontSize(10);
-  pdf.setTextColor(...colors.darkGray);
-  pdf.text('Metric', 25, tableY);
-  pdf.text('Year 1', 80, tableY);
-  pdf.text('Year 2', 120, tableY);
-  pdf.text('Year 3', 160, tableY);
-  tableY += 15;
+    pdf.addPage();
+    pdf.setFontSize(20);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(...colors.primary);
+    pdf.text(
+      projectionYears > yearsPerPage
+        ? `Financial Projections (Years ${firstYear + 1}-${lastYear} of ${projectionYears})`
+        : `Financial Projections (${projectionYears} Years)`,
+      20, 30
+    );
+
+    let tableY = 50;
 
-  // Table Body
-  tableData.forEach(({ metric, projections }) => {
+    // Table Header
+    pdf.setFillColor(...colors.lightGray);
+    pdf.rect(20, tableY - 8, 170, 12, 'F');
     pdf.setFont('helvetica', 'bold');
-    pdf.setFontSize(11);
+    pdf.setFontSize(10);
     pdf.setTextColor(...colors.darkGray);
-    pdf.text(metric, 25, tableY);
-    
-    projections.forEach((scenarioProjections, scenarioIndex) => {
-      const scenario = scenarios[scenarioIndex];
-      pdf.setFont('helvetica', 'normal');
-      pdf.setFontSize(9);
-      pdf.setTextColor(...colors.gray);
-      
-      const yOffset = tableY + 6 + (scenarioIndex * 6);
-      pdf.text(scenario.name, 30, yOffset);
-      
-      scenarioProjections.forEach((proj, yearIndex) => {
-        pdf.text(proj, 80 + (yearIndex * 40), yOffset);
+    pdf.text('Metric', 25, tableY);
+    for (let year = firstYear; year < lastYear; year++) {
+      pdf.text(`Year ${year + 1}`, 80 + ((year - firstYear) * 40), tableY);
+    }
+    tableY += 15;
+
+    // Table Body
+    tableData.forEach(({ metric, projections }) => {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(11);
+      pdf.setTextColor(...colors.darkGray);
+      pdf.text(metric, 25, tableY);
+
+      projections.forEach((scenarioProjections, scenarioIndex) => {
+        const scenario = scenarios[scenarioIndex];
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(9);
+        pdf.setTextColor(...colors.gray);
+
+        const yOffset = tableY + 6 + (scenarioIndex * 6);
+        pdf.text(scenario.name, 30, yOffset);
+
+        scenarioProjections.slice(firstYear, lastYear).forEach((proj, yearIndex) => {
+          pdf.text(proj, 80 + (yearIndex * 40), yOffset);
+        });
       });
+
+      tableY += 8 + (projections.length * 8);
+
+      // Separator
+      pdf.setDrawColor(...colors.lightGray);
+      pdf.line(20, tableY - 2, 190, tableY - 2);
+      tableY += 8;
     });
-    
-    tableY += 8 + (projections.length * 8);
-    
-    // Separator
-    pdf.setDrawColor(...colors.lightGray);
-    pdf.line(20, tableY - 2, 190, tableY - 2);
-    tableY += 8;
-  });
+  }
+
+  // Revenue by stream (base scenario), first vs final projection year
+  const streamNames = collectStreamNames(baseScenario.projections);
+  if (streamNames.length > 0) {
+    const firstProjection = baseScenario.projections[0];
+    const finalProjection = baseScenario.projections[baseScenario.projections.length - 1];
+
+    pdf.addPage();
+    pdf.setFontSize(20);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(...colors.primary);
+    pdf.text(`Revenue by Stream (${baseScenario.name})`, 20, 30);
+
+    let streamY = 50;
+    pdf.setFillColor(...colors.lightGray);
+    pdf.rect(20, streamY - 8, 170, 12, 'F');
+    pdf.setFontSize(10);
+    pdf.setTextColor(...colors.darkGray);
+    pdf.text('Stream', 25, streamY);
+    pdf.text(`Y${firstProjection.year} Revenue`, 70, streamY);
+    pdf.text('GM', 105, streamY);
+    pdf.text(`Y${finalProjection.year} Revenue`, 125, streamY);
+    pdf.text('GM', 165, streamY);
+    streamY += 12;
+
+    pdf.setFont('helvetica', 'normal');
+    streamNames.forEach(name => {
+      const first = firstProjection.revenueStreams?.find(line => line.name === name);
+      const final = finalProjection.revenueStreams?.find(line => line.name === name);
+      pdf.text(name, 25, streamY);
+      pdf.text(first ? formatCurrency(first.revenue) : '-', 70, streamY);
+      pdf.text(first ? `${streamGrossMargin(first).toFixed(1)}%` : '-', 105, streamY);
+      pdf.text(final ? formatCurrency(final.revenue) : '-', 125, streamY);
+      pdf.text(final ? `${streamGrossMargin(final).toFixed(1)}%` : '-', 165, streamY);
+      pdf.setDrawColor(...colors.lightGray);
+      pdf.line(20, streamY + 4, 190, streamY + 4);
+      streamY += 12;
+    });
+  }
+
+  // Corporate tax by year (base scenario), after loss carry-forward and any tax holiday
+  if (baseScenario.projections.every(p => p.tax !== undefined)) {
+    const drivers = baseScenario.drivers;
+
+    pdf.addPage();
+    pdf.setFontSize(20);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(...colors.primary);
+    pdf.text(`Corporate Tax (${baseScenario.name})`, 20, 30);
+
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(...colors.gray);
+    const taxRules = [
+      `${((drivers?.taxRate ?? 0) * 100).toFixed(0)}% statutory rate`,
+      drivers?.lossCarryForwardYears !== undefined ? `losses carried forward ${drivers.lossCarryForwardYears} years` : 'losses carried forward indefinitely',
+      ...(drivers?.lossOffsetCap !== undefined && drivers.lossOffsetCap < 1 ? [`relief capped at ${(drivers.lossOffsetCap * 100).toFixed(0)}% of profit`] : []),
+      ...(drivers?.taxHolidayYears ? [`${drivers.taxHolidayYears}-year tax holiday`] : [])
+    ];
+    pdf.text(taxRules.join(', '), 20, 40);
+
+    let taxY = 55;
+    pdf.setFillColor(...colors.lightGray);
+    pdf.rect(20, taxY - 8, 170, 12, 'F');
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(...colors.darkGray);
+    pdf.text('Year', 25, taxY);
+    pdf.text('EBITDA', 50, taxY);
+    pdf.text('Tax', 90, taxY);
+    pdf.text('Effective Rate', 120, taxY);
+    pdf.text('Losses C/F', 155, taxY);
+    taxY += 12;
+
+    pdf.setFont('helvetica', 'normal');
+    baseScenario.projections.forEach(proj => {
+      const tax = proj.tax ?? 0;
+      pdf.text(`Year ${proj.year}`, 25, taxY);
+      pdf.text(formatCurrency(proj.ebitda), 50, taxY);
+      pdf.text(formatCurrency(tax), 90, taxY);
+      pdf.text(proj.ebitda > 0 ? `${((tax / proj.ebitda) * 100).toFixed(1)}%` : '-', 120, taxY);
+      pdf.text(formatCurrency(proj.taxLossesCarriedForward ?? 0), 155, taxY);
+      pdf.setDrawColor(...colors.lightGray);
+      pdf.line(20, taxY + 4, 190, taxY + 4);
+      taxY += 12;
+    });
+  }
 
   // PAGE 4: Market Intelligence
   pdf.addPage();
@@ -249,7 +338,7 @@ export const generatePDFReport = async (
     { type: 'Opportunity', text: 'AI features can improve customer retention and pricing power', color: colors.primary },
     { type: 'Market Risk', text: `${userInputs.industry || 'Technology'} sector faces increasing competition and margin pressure`, color: colors.warning },
     { type: 'Financial Health', text: `Current EBITDA margin of ${currentEBITDAMargin.toFixed(1)}% ${currentEBITDAMargin > 15 ? 'indicates strong operational efficiency' : 'suggests need for cost optimization'}`, color: currentEBITDAMargin > 15 ? colors.success : colors.warning },
-    { type: 'Growth Potential', text: `3-year revenue CAGR of ${ratios.growthRatios.revenueGrowth.toFixed(1)}% ${ratios.growthRatios.revenueGrowth > 20 ? 'shows strong growth trajectory' : 'indicates moderate growth expectations'}`, color: ratios.growthRatios.revenueGrowth > 20 ? colors.success : colors.warning },
+    { type: 'Growth Potential', text: `${projectionYears}-year revenue CAGR of ${ratios.growthRatios.revenueGrowth.toFixed(1)}% ${ratios.growthRatios.revenueGrowth > 20 ? 'shows strong growth trajectory' : 'indicates moderate growth expectations'}`, color: ratios.growthRatios.revenueGrowth > 20 ? colors.success : colors.warning },
     { type: 'Cash Management', text: runwayText === 'Cash-flow positive' ? 'Excellent cash generation provides financial flexibility' : `${runwayText} runway requires careful cash management`, color: runwayText === 'Cash-flow positive' ? colors.success : colors.danger },
     { type: 'Scalability', text: `Gross margin of ${ratios.profitabilityRatios.grossMargin.toFixed(1)}% ${ratios.profitabilityRatios.grossMargin > 60 ? 'indicates highly scalable business model' : 'suggests moderate scalability potential'}`, color: ratios.profitabilityRatios.grossMargin > 60 ? colors.success : colors.warning },
     { type: 'Investment Risk', text: budgetAnalysis.adequacy.isAdequate ? 'Low funding risk with adequate capital reserves' : 'High funding risk - immediate capital injection needed', color: budgetAnalysis.adequacy.isAdequate ? colors.success : colors.danger },
@@ -331,9 +420,9 @@ export const generatePDFReport = async (
     pdf.setTextColor(colors.darkGray[0], colors.darkGray[1], colors.darkGray[2]);
     pdf.text(scenario.description, 25, scenarioY + 15);
     
-    const y3 = scenario.projections[2];
-    addMetricBox('Y3 Revenue', formatCurrency(y3.revenue), 20, scenarioY + 25, color);
-    addMetricBox('Y3 EBITDA', formatCurrency(y3.ebitda), 110, scenarioY + 25, color);
+    const finalYear = scenario.projections[scenario.projections.length - 1];
+    addMetricBox(`Y${finalYear.year} Revenue`, formatCurrency(finalYear.revenue), 20, scenarioY + 25, color);
+    addMetricBox(`Y${finalYear.year} EBITDA`, formatCurrency(finalYear.ebitda), 110, scenarioY + 25, color);
     
     scenarioY += 75;
   });
@@ -529,7 +618,7 @@ export const generatePDFReport = async (
   
   const methodology = [
     'Data Sources: User inputs, industry benchmarks, AI analysis',
-    'Assumptions: 3-year projection period, standard tax rates',
+    `Assumptions: ${projectionYears}-year projection period, ${userInputs.country || 'country'} corporate tax with loss carry-forward`,
     'AI Model: Financial pattern recognition and risk assessment',
     'Limitations: Projections are estimates, not guarantees',
     'Purpose: For planning and analysis purposes only'
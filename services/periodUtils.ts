@@ -0,0 +1,38 @@
+/**
+ * Helpers for calendar months written as "YYYY-MM"
+ */
+
+// A calendar month, 01 to 12
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Whole months from one calendar month to another; negative when `to` is earlier
+ */
+export const monthsBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split('-').map(Number);
+  const [toYear, toMonth] = to.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+};
+
+const MONTH_ABBREVIATIONS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toMonth = (year: number, month: number): string | undefined =>
+  year >= 1900 && year <= 2200 && month >= 1 && month <= 12 ? `${year}-${String(month).padStart(2, '0')}` : undefined;
+
+/**
+ * Calendar month ("YYYY-MM") of a date as exports write it: "2027-03", "2027-03-31", "31/03/2027" (day first),
+ * "03/2027", "Mar 2027" or "Mar-27". Undefined when the text is not a recognisable date.
+ */
+export const parseMonth = (text: string): string | undefined => {
+  const value = text.trim();
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})(?:[-/.]\d{1,2})?(?:[T\s].*)?$/);
+  if (match) return toMonth(Number(match[1]), Number(match[2]));
+  match = value.match(/^(?:\d{1,2}[-/.])?(\d{1,2})[-/.](\d{4})$/);
+  if (match) return toMonth(Number(match[2]), Number(match[1]));
+  match = value.match(/^(?:\d{1,2}[-\s])?([a-z]{3})[a-z]*[-\s,']*(\d{2}|\d{4})$/i);
+  if (match) {
+    const year = Number(match[2]);
+    return toMonth(year < 100 ? 2000 + year : year, MONTH_ABBREVIATIONS.indexOf(match[1].toLowerCase()) + 1);
+  }
+  return undefined;
+};
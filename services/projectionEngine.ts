@@ -0,0 +1,548 @@
+import { ActualPeriod, CashFlowStatement, FinancialYear, MonthlyPeriod, OpexBreakdown, PeriodFinancials, ProjectionDrivers, QuarterlyPeriod, RevenueStream, RollingForecast, ScenarioData, StreamFinancials, UserInput } from '../types';
+import { DEFAULT_CURRENCY, convertAmount, sanitizeCurrencyCode, sanitizeFxRates } from './currencyService';
+import { getIndustryBenchmarks } from './marketBenchmarks';
+import { payrollForMonth, sanitizeHeadcount } from './headcountService';
+import { createInflationAssumptions, inflationRateFor, priceIndex, sanitizeInflation } from './inflationService';
+import { sanitizeCapTable } from './capTableService';
+import { allGrants, stockCompensationForMonth } from './esopService';
+import { creditLineMonth, monthlyInterest, sanitizeDebtFacilities, termLoanMonth } from './debtService';
+import { assetScheduleForMonth, openingNetBookValue, sanitizeFixedAssets } from './fixedAssetService';
+import { defaultOpexLines, emptyOpexBreakdown, roundOpexBreakdown, sanitizeOpexLines, sumOpexBreakdowns } from './opexService';
+import { roundStreamFinancials, sanitizeRevenueStreams, sumStreamFinancials } from './revenueStreamService';
+import { sanitizeSeasonality, seasonalFactors } from './seasonalityService';
+import { buildBalanceSheet, buildCashFlow, roundBalanceSheet, roundCashFlow, sumCashFlows } from './financialStatements';
+import { TaxLoss, availableLosses, closeTaxYear, getTaxPolicy, taxOnProfit } from './taxService';
+import { MONTH_PATTERN, monthsBetween } from './periodUtils';
+import { historicalCogsRatio, historicalGrowthRate } from './historyService';
+
+export const DEFAULT_PROJECTION_YEARS = 3;
+export const MIN_PROJECTION_YEARS = 3;
+export const MAX_PROJECTION_YEARS = 10;
+
+type ScenarioDetails = Pick<ScenarioData, 'name' | 'description' | 'assumptions' | 'actuals' | 'rollingForecast'>;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : fallback;
+};
+
+const DAYS_PER_MONTH = 30;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const nextMonth = (): string => {
+  const today = new Date();
+  const date = new Date(today.getFullYear(), today.getMonth() + 1, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Amount of a line entered in `lineCurrency`, restated in the model currency
+const inModelCurrency = (amount: number, lineCurrency: string | undefined, drivers: Pick<ProjectionDrivers, 'currency' | 'fxRates'>): number =>
+  lineCurrency ? convertAmount(amount, lineCurrency, drivers.currency || DEFAULT_CURRENCY, drivers.fxRates) : amount;
+
+// Drivers with every line entered in another currency restated in the model currency, so the projection only adds
+// like to like. Headcount salaries are converted as payroll is costed, alongside the benchmark salaries.
+const linesInModelCurrency = (drivers: ProjectionDrivers): ProjectionDrivers => ({
+  ...drivers,
+  revenueStreams: drivers.revenueStreams?.map(({ currency, ...stream }) => ({
+    ...stream,
+    baseRevenue: inModelCurrency(stream.baseRevenue, currency, drivers)
+  })),
+  opexLines: drivers.opexLines?.map(({ currency, ...line }) => ({
+    ...line,
+    baseAmount: inModelCurrency(line.baseAmount, currency, drivers)
+  })),
+  fixedAssets: drivers.fixedAssets?.map(({ currency, ...asset }) => ({
+    ...asset,
+    cost: inModelCurrency(asset.cost, currency, drivers),
+    salvageValue: inModelCurrency(asset.salvageValue, currency, drivers)
+  })),
+  debt: drivers.debt?.map(({ currency, ...facility }) => ({
+    ...facility,
+    amount: inModelCurrency(facility.amount, currency, drivers)
+  }))
+});
+
+/**
+ * Whole number of projection years within the supported horizon
+ */
+export const resolveProjectionYears = (years: unknown): number =>
+  clamp(Math.round(toNumber(years, DEFAULT_PROJECTION_YEARS)), MIN_PROJECTION_YEARS, MAX_PROJECTION_YEARS);
+
+/**
+ * Calendar label ("YYYY-MM") for the nth month (0-based) after a start month
+ */
+export const addMonths = (startMonth: string, offset: number): string => {
+  const [year, month] = startMonth.split('-').map(Number);
+  const date = new Date(year, month - 1 + offset, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Derive the starting drivers from the user's current financials
+ */
+export const deriveBaseDrivers = (input: UserInput): ProjectionDrivers => {
+  const benchmarks = getIndustryBenchmarks(input.industry);
+  const taxPolicy = getTaxPolicy(input.country);
+
+  const baseRevenue = Number(input.currentRevenue) || 0;
+  const annualExpenses = (Number(input.currentExpenses) || 0) * 12;
+  // Imported accounts, when there are any, take the place of the industry margin and a flat growth guess
+  const cogsRatio = historicalCogsRatio(input.history) ?? 1 - benchmarks.metrics.grossMargin.avg / 100;
+  const growthRate = historicalGrowthRate(input.history);
+
+  // Whatever the COGS ratio doesn't explain of today's spend is operating expense
+  const baseOpex = Math.max(0, annualExpenses - baseRevenue * cogsRatio);
+
+  return {
+    baseRevenue,
+    revenueGrowthRate: growthRate !== undefined ? clamp(growthRate, -0.9, 5) : 0.10,
+    cogsRatio,
+    baseOpex,
+    opexGrowthRate: 0.10,
+    taxRate: taxPolicy.rate,
+    lossCarryForwardYears: taxPolicy.lossCarryForwardYears,
+    lossOffsetCap: taxPolicy.lossOffsetCap,
+    startingCash: Number(input.currentCash) || 0,
+    currency: sanitizeCurrencyCode(input.currency) || DEFAULT_CURRENCY,
+    inflation: createInflationAssumptions(input.country),
+    receivableDays: benchmarks.workingCapital.receivableDays,
+    payableDays: benchmarks.workingCapital.payableDays,
+    inventoryDays: benchmarks.workingCapital.inventoryDays,
+    startMonth: nextMonth(),
+    opexLines: defaultOpexLines(baseOpex)
+  };
+};
+
+const optionalDays = (proposed: unknown, base: number | undefined): number | undefined => {
+  const days = toNumber(proposed, base ?? NaN);
+  return Number.isFinite(days) ? clamp(days, 0, 365) : undefined;
+};
+
+const optionalYears = (years: unknown): number | undefined =>
+  years === undefined || years === null || !Number.isFinite(Number(years)) ? undefined : clamp(Math.round(Number(years)), 0, 50);
+
+/**
+ * Merge (possibly AI-proposed) driver values onto a base set, discarding anything out of range
+ */
+export const sanitizeDrivers = (proposed: Partial<ProjectionDrivers>, base: ProjectionDrivers): ProjectionDrivers => {
+  const currency = sanitizeCurrencyCode(proposed.currency) ?? base.currency;
+  const fxRates = sanitizeFxRates(proposed.fxRates ?? base.fxRates);
+  const money = { currency, fxRates };
+  const revenueStreams = sanitizeRevenueStreams(proposed.revenueStreams ?? base.revenueStreams);
+  // With named streams the headline base revenue is their total, so services reading it stay consistent
+  const streamRevenue = revenueStreams && revenueStreams.length > 0
+    ? sum(revenueStreams.map(stream => inModelCurrency(stream.baseRevenue, stream.currency, money)))
+    : undefined;
+  const baseRevenue = streamRevenue ?? Math.max(0, toNumber(proposed.baseRevenue, base.baseRevenue));
+  // Likewise the headline base opex is the total of the category lines
+  const opexLines = sanitizeOpexLines(proposed.opexLines ?? base.opexLines);
+  const lineOpex = opexLines && opexLines.length > 0
+    ? sum(opexLines.map(line => line.method === 'percentOfRevenue' ? baseRevenue * line.revenueShare : inModelCurrency(line.baseAmount, line.currency, money)))
+    : undefined;
+
+  return {
+    baseRevenue,
+    revenueGrowthRate: clamp(toNumber(proposed.revenueGrowthRate, base.revenueGrowthRate), -0.9, 5),
+    cogsRatio: clamp(toNumber(proposed.cogsRatio, base.cogsRatio), 0, 1),
+    baseOpex: lineOpex ?? Math.max(0, toNumber(proposed.baseOpex, base.baseOpex)),
+    opexGrowthRate: clamp(toNumber(proposed.opexGrowthRate, base.opexGrowthRate), -0.9, 5),
+    taxRate: clamp(toNumber(proposed.taxRate, base.taxRate), 0, 0.6),
+    // An explicitly cleared carry-forward period means losses never expire, so only a missing key falls back
+    lossCarryForwardYears: optionalYears('lossCarryForwardYears' in proposed ? proposed.lossCarryForwardYears : base.lossCarryForwardYears),
+    lossOffsetCap: clamp(toNumber(proposed.lossOffsetCap, base.lossOffsetCap ?? 1), 0, 1),
+    taxHolidayYears: optionalYears('taxHolidayYears' in proposed ? proposed.taxHolidayYears : base.taxHolidayYears),
+    startingCash: toNumber(proposed.startingCash, base.startingCash),
+    currency,
+    fxRates,
+    inflation: sanitizeInflation(proposed.inflation ?? base.inflation),
+    seasonality: sanitizeSeasonality('seasonality' in proposed ? proposed.seasonality : base.seasonality),
+    receivableDays: optionalDays(proposed.receivableDays, base.receivableDays),
+    payableDays: optionalDays(proposed.payableDays, base.payableDays),
+    inventoryDays: optionalDays(proposed.inventoryDays, base.inventoryDays),
+    startMonth: MONTH_PATTERN.test(String(proposed.startMonth)) ? proposed.startMonth : base.startMonth,
+    headcount: sanitizeHeadcount(proposed.headcount ?? base.headcount),
+    revenueStreams,
+    opexLines,
+    fixedAssets: sanitizeFixedAssets(proposed.fixedAssets ?? base.fixedAssets),
+    debt: sanitizeDebtFacilities(proposed.debt ?? base.debt),
+    capTable: sanitizeCapTable(proposed.capTable ?? base.capTable)
+  };
+};
+
+/**
+ * Spread an annual total over 12 months so that each month compounds at the annual growth rate,
+ * shaped by any seasonal factors
+ */
+const monthlyShares = (annualGrowthRate: number, seasonal: number[] = []): number[] => {
+  const weights = Array.from({ length: 12 }, (_, i) => Math.pow(1 + annualGrowthRate, i / 12) * (seasonal[i] ?? 1));
+  const total = sum(weights);
+  return weights.map(weight => weight / total);
+};
+
+const roundFigures = (period: PeriodFinancials): PeriodFinancials => ({
+  revenue: Math.round(period.revenue),
+  cogs: Math.round(period.cogs),
+  grossProfit: Math.round(period.grossProfit),
+  opex: Math.round(period.opex),
+  ebitda: Math.round(period.ebitda),
+  netIncome: Math.round(period.netIncome),
+  cashBalance: Math.round(period.cashBalance),
+  ...(period.payroll !== undefined && { payroll: Math.round(period.payroll) }),
+  ...(period.headcount !== undefined && { headcount: period.headcount }),
+  ...(period.revenueStreams && { revenueStreams: roundStreamFinancials(period.revenueStreams) }),
+  ...(period.opexBreakdown && { opexBreakdown: roundOpexBreakdown(period.opexBreakdown) }),
+  ...(period.depreciation !== undefined && { depreciation: Math.round(period.depreciation) }),
+  ...(period.capex !== undefined && { capex: Math.round(period.capex) }),
+  ...(period.interest !== undefined && { interest: Math.round(period.interest) }),
+  ...(period.stockBasedCompensation !== undefined && { stockBasedCompensation: Math.round(period.stockBasedCompensation) }),
+  ...(period.tax !== undefined && { tax: Math.round(period.tax) }),
+  ...(period.taxLossesCarriedForward !== undefined && { taxLossesCarriedForward: Math.round(period.taxLossesCarriedForward) }),
+  ...(period.balanceSheet && { balanceSheet: roundBalanceSheet(period.balanceSheet) }),
+  ...(period.cashFlow && { cashFlow: roundCashFlow(period.cashFlow) })
+});
+
+const roundMonth = (month: MonthlyPeriod): MonthlyPeriod => ({
+  month: month.month,
+  year: month.year,
+  period: month.period,
+  ...roundFigures(month)
+});
+
+/**
+ * Total a run of consecutive periods; the closing cash balance, headcount, tax losses and balance sheet are the last period's
+ */
+const sumPeriods = (periods: PeriodFinancials[]): PeriodFinancials => {
+  const closing = periods[periods.length - 1];
+  const flows = periods.map(p => p.cashFlow).filter((flow): flow is CashFlowStatement => !!flow);
+  return {
+    revenue: sum(periods.map(p => p.revenue)),
+    cogs: sum(periods.map(p => p.cogs)),
+    grossProfit: sum(periods.map(p => p.grossProfit)),
+    opex: sum(periods.map(p => p.opex)),
+    ebitda: sum(periods.map(p => p.ebitda)),
+    netIncome: sum(periods.map(p => p.netIncome)),
+    cashBalance: closing?.cashBalance ?? 0,
+    ...(closing?.payroll !== undefined && { payroll: sum(periods.map(p => p.payroll ?? 0)) }),
+    ...(closing?.headcount !== undefined && { headcount: closing.headcount }),
+    ...(closing?.revenueStreams && { revenueStreams: sumStreamFinancials(periods.map(p => p.revenueStreams || [])) }),
+    ...(closing?.opexBreakdown && { opexBreakdown: sumOpexBreakdowns(periods.map(p => p.opexBreakdown || emptyOpexBreakdown())) }),
+    ...(closing?.depreciation !== undefined && { depreciation: sum(periods.map(p => p.depreciation ?? 0)) }),
+    ...(closing?.capex !== undefined && { capex: sum(periods.map(p => p.capex ?? 0)) }),
+    ...(closing?.interest !== undefined && { interest: sum(periods.map(p => p.interest ?? 0)) }),
+    ...(closing?.stockBasedCompensation !== undefined && { stockBasedCompensation: sum(periods.map(p => p.stockBasedCompensation ?? 0)) }),
+    ...(closing?.tax !== undefined && { tax: sum(periods.map(p => p.tax ?? 0)) }),
+    ...(closing?.taxLossesCarriedForward !== undefined && { taxLossesCarriedForward: closing.taxLossesCarriedForward }),
+    ...(closing?.balanceSheet && { balanceSheet: closing.balanceSheet }),
+    ...(flows.length === periods.length && flows.length > 0 && { cashFlow: sumCashFlows(flows) })
+  };
+};
+
+// Unrounded monthly figures; rounding happens once per output granularity
+const projectMonthsExact = (enteredDrivers: ProjectionDrivers, years: number): MonthlyPeriod[] => {
+  const drivers = linesInModelCurrency(enteredDrivers);
+  const modelCurrency = drivers.currency || DEFAULT_CURRENCY;
+  const startMonth = drivers.startMonth || nextMonth();
+  const hasStreams = !!drivers.revenueStreams && drivers.revenueStreams.length > 0;
+  // Without named streams the single revenue line is projected as one implicit stream
+  const streams: RevenueStream[] = hasStreams ? drivers.revenueStreams as RevenueStream[] : [{
+    id: 'revenue',
+    name: 'Revenue',
+    baseRevenue: drivers.baseRevenue,
+    growthRate: drivers.revenueGrowthRate,
+    cogsRatio: drivers.cogsRatio
+  }];
+  // Seasonality shapes revenue only; COGS and revenue-linked OpEx follow it, fixed costs stay smooth
+  const seasonal = seasonalFactors(drivers.seasonality, startMonth);
+  const streamShares = streams.map(stream => monthlyShares(stream.growthRate, seasonal));
+  const opexShares = monthlyShares(drivers.opexGrowthRate);
+  const opexLines = drivers.opexLines && drivers.opexLines.length > 0 ? drivers.opexLines : undefined;
+  const lineGrowthRates = (opexLines || []).map(line => line.growthRate ?? drivers.opexGrowthRate);
+  const lineShares = lineGrowthRates.map(rate => monthlyShares(rate));
+  const receivableDays = drivers.receivableDays ?? 0;
+  const payableDays = drivers.payableDays ?? 0;
+  const inventoryDays = drivers.inventoryDays ?? 0;
+  const headcountPlan = drivers.headcount ?? [];
+  const optionGrants = allGrants(drivers.capTable?.esop, headcountPlan);
+  // With inflation on, salaries and growth-driven costs are in today's prices and rise with their country's price level
+  const inflation = drivers.inflation?.enabled ? drivers.inflation : undefined;
+  const priceLevel = (country: string, monthIndex: number) =>
+    inflation ? priceIndex(inflationRateFor(country, inflation.rates), monthIndex) : 1;
+  const assetRegister = drivers.fixedAssets ?? [];
+  const openingFixedAssets = openingNetBookValue(assetRegister, startMonth);
+  const facilities = drivers.debt ?? [];
+  const termLoans = facilities.filter(facility => facility.kind === 'termLoan');
+  const creditLines = facilities.filter(facility => facility.kind === 'creditLine');
+  // Loans drawn before the projection are already owed at the start
+  const openingDebt = sum(termLoans.map(loan => termLoanMonth(loan, addMonths(startMonth, -1)).closingBalance));
+  let creditLineBalances = creditLines.map(() => 0);
+  // The trailing run-rate's receivables, stock and payables are already on the books, so only changes in them move cash
+  const baseMonthlyRevenue = sum(streams.map(stream => stream.baseRevenue)) / 12;
+  const baseMonthlyCogs = sum(streams.map(stream => stream.baseRevenue * stream.cogsRatio)) / 12;
+  const months: MonthlyPeriod[] = [];
+  let cashBalance = drivers.startingCash;
+  let accountsReceivable = (baseMonthlyRevenue * receivableDays) / DAYS_PER_MONTH;
+  let inventory = (baseMonthlyCogs * inventoryDays) / DAYS_PER_MONTH;
+  let accountsPayable = ((baseMonthlyCogs + drivers.baseOpex / 12) * payableDays) / DAYS_PER_MONTH;
+  const openingWorkingCapital = accountsReceivable + inventory - accountsPayable;
+  let retainedEarnings = 0;
+  let stockCompensationToDate = 0;
+  let taxLosses: TaxLoss[] = [];
+
+  for (let year = 1; year <= years; year++) {
+    const annualStreamRevenue = streams.map(stream => stream.baseRevenue * Math.pow(1 + stream.growthRate, year));
+    const annualOpex = drivers.baseOpex * Math.pow(1 + drivers.opexGrowthRate, year);
+    const annualLineAmounts = (opexLines || []).map((line, i) => line.baseAmount * Math.pow(1 + lineGrowthRates[i], year));
+    const costPriceLevel = priceLevel(inflation?.country || '', (year - 1) * 12);
+    let profitYearToDate = 0;
+    let taxYearToDate = 0;
+    const inTaxHoliday = year <= (drivers.taxHolidayYears ?? 0);
+    const lossesAvailable = availableLosses(taxLosses, year, drivers.lossCarryForwardYears);
+
+    for (let m = 0; m < 12; m++) {
+      const month = (year - 1) * 12 + m + 1;
+      const period = addMonths(startMonth, month - 1);
+      const streamLines: StreamFinancials[] = streams.map((stream, i) => {
+        const streamRevenue = annualStreamRevenue[i] * streamShares[i][m];
+        const streamCogs = streamRevenue * stream.cogsRatio;
+        return { streamId: stream.id, name: stream.name, revenue: streamRevenue, cogs: streamCogs, grossProfit: streamRevenue - streamCogs };
+      });
+      const revenue = sum(streamLines.map(line => line.revenue));
+      const cogs = sum(streamLines.map(line => line.cogs));
+      const grossProfit = revenue - cogs;
+      const { payroll, headcount } = payrollForMonth(headcountPlan, period, modelCurrency, drivers.fxRates, country => priceLevel(country, month - 1));
+      const stockBasedCompensation = stockCompensationForMonth(optionGrants, period);
+      // Planned hires and option expense land on the payroll line on top of its own driver
+      const opexBreakdown = opexLines?.reduce((breakdown: OpexBreakdown, line, i) => {
+        breakdown[line.category] += line.method === 'percentOfRevenue'
+          ? revenue * line.revenueShare
+          : annualLineAmounts[i] * lineShares[i][m] * costPriceLevel;
+        return breakdown;
+      }, { ...emptyOpexBreakdown(), payroll: payroll + stockBasedCompensation });
+      const opex = opexBreakdown ? sum(Object.values(opexBreakdown)) : annualOpex * opexShares[m] * costPriceLevel + payroll + stockBasedCompensation;
+      const ebitda = grossProfit - opex;
+      const { capex, depreciation, netBookValue } = assetScheduleForMonth(assetRegister, period);
+      const loanMonths = termLoans.map(loan => termLoanMonth(loan, period));
+      const interest = sum(loanMonths.map(loan => loan.interest))
+        + sum(creditLines.map((line, i) => monthlyInterest(line, creditLineBalances[i])));
+
+      // Tax accrues on year-to-date profit (after depreciation and interest) so early loss months shield
+      // later ones within the year, and losses carried in from earlier years shield what's left.
+      // Option expense is only deductible once options are exercised, so it doesn't reduce taxable profit
+      profitYearToDate += ebitda + stockBasedCompensation - depreciation - interest;
+      const taxDue = taxOnProfit(profitYearToDate, lossesAvailable, drivers, inTaxHoliday);
+      const tax = taxDue - taxYearToDate;
+      taxYearToDate = taxDue;
+      const closingTaxLosses = closeTaxYear(taxLosses, year, profitYearToDate, drivers, inTaxHoliday);
+      if (m === 11) taxLosses = closingTaxLosses;
+
+      const netIncome = ebitda - depreciation - interest - tax;
+
+      // Customers pay and suppliers are paid the configured number of days after each month's activity,
+      // and stock is held for the configured number of days of COGS
+      const closingReceivable = (revenue * receivableDays) / DAYS_PER_MONTH;
+      const closingInventory = (cogs * inventoryDays) / DAYS_PER_MONTH;
+      const closingPayable = ((cogs + opex - stockBasedCompensation) * payableDays) / DAYS_PER_MONTH;
+      const changeInWorkingCapital = (accountsReceivable - closingReceivable) + (inventory - closingInventory) + (closingPayable - accountsPayable);
+
+      // Credit lines cover whatever shortfall is left after operations, capex and term-loan flows
+      let cashBeforeCreditLines = cashBalance + netIncome + depreciation + stockBasedCompensation + changeInWorkingCapital - capex
+        + sum(loanMonths.map(loan => loan.drawdown - loan.repayment));
+      const lineMonths = creditLines.map((line, i) => {
+        const lineMonth = creditLineMonth(line, period, creditLineBalances[i], cashBeforeCreditLines);
+        cashBeforeCreditLines += lineMonth.drawdown - lineMonth.repayment;
+        return lineMonth;
+      });
+      creditLineBalances = lineMonths.map(line => line.closingBalance);
+      const debtMonths = [...loanMonths, ...lineMonths];
+
+      const cashFlow = buildCashFlow({
+        netIncome,
+        depreciation,
+        stockBasedCompensation,
+        changeInWorkingCapital,
+        capex,
+        netBorrowing: sum(debtMonths.map(debt => debt.drawdown - debt.repayment)),
+        equityRaised: 0
+      });
+      accountsReceivable = closingReceivable;
+      inventory = closingInventory;
+      accountsPayable = closingPayable;
+      retainedEarnings += netIncome;
+      stockCompensationToDate += stockBasedCompensation;
+      cashBalance += cashFlow.netChangeInCash;
+
+      const balanceSheet = buildBalanceSheet({
+        cash: cashBalance,
+        accountsReceivable,
+        inventory,
+        fixedAssets: netBookValue,
+        accountsPayable,
+        debt: sum(debtMonths.map(debt => debt.closingBalance)),
+        // Opening equity funds the starting cash plus the assets and working capital already held, less existing debt;
+        // option expense is credited to equity as it is recognised
+        paidInCapital: drivers.startingCash + openingFixedAssets + openingWorkingCapital - openingDebt + stockCompensationToDate,
+        retainedEarnings
+      });
+
+      months.push({
+        month,
+        year,
+        period,
+        revenue,
+        cogs,
+        grossProfit,
+        opex,
+        ebitda,
+        netIncome,
+        cashBalance,
+        ...(headcountPlan.length > 0 && { payroll, headcount }),
+        ...(hasStreams && { revenueStreams: streamLines }),
+        ...(opexBreakdown && { opexBreakdown }),
+        ...(assetRegister.length > 0 && { depreciation, capex }),
+        ...(facilities.length > 0 && { interest }),
+        ...(optionGrants.length > 0 && { stockBasedCompensation }),
+        tax,
+        taxLossesCarriedForward: sum(closingTaxLosses.map(loss => loss.amount)),
+        balanceSheet,
+        cashFlow
+      });
+    }
+  }
+
+  return months;
+};
+
+/**
+ * Roll monthly periods up into projection years
+ */
+export const rollUpToYears = (months: MonthlyPeriod[]): FinancialYear[] => {
+  const years = Array.from(new Set(months.map(m => m.year)));
+  return years.map(year => ({
+    year,
+    ...roundFigures(sumPeriods(months.filter(m => m.year === year)))
+  }));
+};
+
+/**
+ * Project monthly financial statements from structured drivers
+ */
+export const projectMonthly = (drivers: ProjectionDrivers, years: number = DEFAULT_PROJECTION_YEARS): MonthlyPeriod[] =>
+  projectMonthsExact(drivers, years).map(roundMonth);
+
+/**
+ * Project annual financial statements from structured drivers
+ */
+export const projectFinancials = (drivers: ProjectionDrivers, years: number = DEFAULT_PROJECTION_YEARS): FinancialYear[] =>
+  rollUpToYears(projectMonthsExact(drivers, years));
+
+/**
+ * Roll monthly periods up into quarters of each projection year
+ */
+export const rollUpToQuarters = (months: MonthlyPeriod[]): QuarterlyPeriod[] => {
+  const quarters: QuarterlyPeriod[] = [];
+  for (let start = 0; start < months.length; start += 3) {
+    const slice = months.slice(start, start + 3);
+    const year = slice[0].year;
+    const quarter = Math.floor(((slice[0].month - 1) % 12) / 3) + 1;
+    quarters.push({ year, quarter, label: `Y${year} Q${quarter}`, ...roundFigures(sumPeriods(slice)) });
+  }
+  return quarters;
+};
+
+/**
+ * Monthly view of a scenario; scenarios built outside the engine are split evenly across months
+ */
+export const getMonthlyProjections = (scenario: ScenarioData): MonthlyPeriod[] => {
+  if (scenario.monthlyProjections && scenario.monthlyProjections.length > 0) {
+    return scenario.monthlyProjections;
+  }
+
+  const startMonth = scenario.drivers?.startMonth || nextMonth();
+  return scenario.projections.flatMap((proj, index) => {
+    const openingCash = index > 0 ? scenario.projections[index - 1].cashBalance : proj.cashBalance - proj.netIncome;
+    return Array.from({ length: 12 }, (_, m) => {
+      const month = index * 12 + m + 1;
+      return {
+        month,
+        year: proj.year,
+        period: addMonths(startMonth, month - 1),
+        revenue: Math.round(proj.revenue / 12),
+        cogs: Math.round(proj.cogs / 12),
+        grossProfit: Math.round(proj.grossProfit / 12),
+        opex: Math.round(proj.opex / 12),
+        ebitda: Math.round(proj.ebitda / 12),
+        netIncome: Math.round(proj.netIncome / 12),
+        cashBalance: Math.round(openingCash + (proj.netIncome * (m + 1)) / 12)
+      };
+    });
+  });
+};
+
+/**
+ * Whether an actuals row holds reported figures; rows just added, with every amount still zero, do not count
+ */
+export const isReportedActual = (actual: ActualPeriod): boolean =>
+  actual.cashBalance !== undefined || [actual.revenue, actual.cogs, actual.opex, actual.netIncome].some(amount => amount !== 0);
+
+// Reported figures of a closed month; the statements are not reported, so the month carries none. Without a
+// reported balance, cash is the planned closing balance.
+const actualFigures = (actual: ActualPeriod, plannedCash: number): PeriodFinancials => ({
+  revenue: actual.revenue,
+  cogs: actual.cogs,
+  grossProfit: actual.revenue - actual.cogs,
+  opex: actual.opex,
+  ebitda: actual.revenue - actual.cogs - actual.opex,
+  netIncome: actual.netIncome,
+  cashBalance: actual.cashBalance ?? plannedCash
+});
+
+// Closed months as reported (or as originally planned where a month has no actuals), then the drivers' projection
+// from the month after for the rest of the horizon, numbered on from the original plan start
+const projectRollingMonths = (forecast: RollingForecast, actuals: ActualPeriod[], drivers: ProjectionDrivers, years: number): MonthlyPeriod[] => {
+  const closedCount = Math.max(0, monthsBetween(forecast.planStartMonth, forecast.closedThrough) + 1);
+  const closed = Array.from({ length: closedCount }, (_, i): MonthlyPeriod => {
+    const period = addMonths(forecast.planStartMonth, i);
+    const actual = actuals.find(month => month.period === period && isReportedActual(month));
+    const planned = forecast.baseline.monthlyProjections?.find(month => month.period === period);
+    const empty = { revenue: 0, cogs: 0, grossProfit: 0, opex: 0, ebitda: 0, netIncome: 0, cashBalance: 0 };
+    return {
+      ...(actual ? actualFigures(actual, planned?.cashBalance ?? 0) : planned || empty),
+      month: i + 1,
+      year: Math.floor(i / 12) + 1,
+      period
+    };
+  });
+
+  const openCount = Math.max(0, years * 12 - closedCount);
+  const open = projectMonthsExact({ ...drivers, startMonth: addMonths(forecast.closedThrough, 1) }, Math.ceil(openCount / 12))
+    .slice(0, openCount)
+    .map((month, i) => ({ ...month, month: closedCount + i + 1, year: Math.floor((closedCount + i) / 12) + 1 }));
+  return [...closed, ...open];
+};
+
+/**
+ * Build a scenario whose projections are fully reproducible from its drivers (and, once rolled forward, its actuals)
+ */
+export const buildScenario = (details: ScenarioDetails, drivers: ProjectionDrivers, years: number = DEFAULT_PROJECTION_YEARS): ScenarioData => {
+  const months = details.rollingForecast
+    ? projectRollingMonths(details.rollingForecast, details.actuals || [], drivers, years)
+    : projectMonthsExact(drivers, years);
+  return {
+    ...details,
+    drivers,
+    projections: rollUpToYears(months),
+    monthlyProjections: months.map(roundMonth)
+  };
+};
+
+/**
+ * Re-run the engine for a scenario after one or more drivers change
+ */
+export const recalculateScenario = (scenario: ScenarioData, changes: Partial<ProjectionDrivers>): ScenarioData => {
+  if (!scenario.drivers) return scenario;
+  const drivers = sanitizeDrivers({ ...scenario.drivers, ...changes }, scenario.drivers);
+  return buildScenario(scenario, drivers, scenario.projections.length || DEFAULT_PROJECTION_YEARS);
+};
@@ -1,11 +1,12 @@
-import { ScenarioData } from '../types';
+import { FinancialYear, ScenarioData } from '../types';
 
 export interface FinancialRatios {
   profitabilityRatios: {
     grossMargin: number;
     ebitdaMargin: number;
     netMargin: number;
-    roa: number; // Return on Assets (simplified)
+    roa: number; // Return on average total assets
+    roe: number | null; // Return on average equity; null when equity is not positive
   };
   growthRatios: {
     revenueGrowth: number;
@@ -13,12 +14,35 @@ export interface FinancialRatios {
     netIncomeGrowth: number;
   };
   efficiencyRatios: {
-    assetTurnover: number; // Simplified
+    assetTurnover: number; // Revenue / average total assets
     cogsRatio: number;
     opexRatio: number;
   };
+  liquidityRatios: {
+    currentRatio: number | null; // null when there are no current liabilities
+    quickRatio: number | null;
+    cashRatio: number | null;
+  };
+  leverageRatios: {
+    debtToEquity: number | null; // null when equity is not positive
+    debtToAssets: number;
+  };
 }
 
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+/**
+ * Compound annual revenue growth (%) between the first and last projection years
+ */
+export const calculateRevenueCagr = (projections: FinancialYear[]): number => {
+  const years = projections.length;
+  const firstYear = projections[0];
+  const latestYear = projections[years - 1];
+  return years > 1 && firstYear.revenue > 0 ?
+    (Math.pow(latestYear.revenue / firstYear.revenue, 1/(years-1)) - 1) * 100 : 0;
+};
+
 /**
  * Calculate comprehensive financial ratios for a scenario
  */
@@ -29,19 +53,36 @@ export const calculateFinancialRatios = (scenario: ScenarioData): FinancialRatio
   
   // Calculate growth rates using CAGR formula
   const years = projections.length;
-  const revenueGrowth = years > 1 ? 
-    (Math.pow(latestYear.revenue / firstYear.revenue, 1/(years-1)) - 1) * 100 : 0;
+  const revenueGrowth = calculateRevenueCagr(projections);
   const ebitdaGrowth = years > 1 && firstYear.ebitda > 0 ? 
     (Math.pow(latestYear.ebitda / firstYear.ebitda, 1/(years-1)) - 1) * 100 : 0;
   const netIncomeGrowth = years > 1 && firstYear.netIncome > 0 ? 
     (Math.pow(latestYear.netIncome / firstYear.netIncome, 1/(years-1)) - 1) * 100 : 0;
   
+  // Average of opening and closing balances; scenarios without a balance sheet fall back to cash as the only asset
+  const previousYear = projections[projections.length - 2];
+  const closingSheet = latestYear.balanceSheet;
+  const openingSheet = previousYear?.balanceSheet;
+  const totalAssets = closingSheet?.totalAssets ?? latestYear.cashBalance;
+  const totalEquity = closingSheet?.totalEquity ?? latestYear.cashBalance;
+  const averageAssets = openingSheet ? (openingSheet.totalAssets + totalAssets) / 2 : totalAssets;
+  const averageEquity = openingSheet ? (openingSheet.totalEquity + totalEquity) / 2 : totalEquity;
+
+  const cash = closingSheet?.cash ?? latestYear.cashBalance;
+  const receivables = closingSheet?.accountsReceivable ?? 0;
+  const inventory = closingSheet?.inventory ?? 0;
+  const currentLiabilities = closingSheet?.accountsPayable ?? 0;
+  const debt = closingSheet?.debt ?? 0;
+  const roe = ratio(latestYear.netIncome, averageEquity);
+  const debtToEquity = ratio(debt, totalEquity);
+
   return {
     profitabilityRatios: {
       grossMargin: (latestYear.grossProfit / latestYear.revenue) * 100,
       ebitdaMargin: (latestYear.ebitda / latestYear.revenue) * 100,
       netMargin: (latestYear.netIncome / latestYear.revenue) * 100,
-      roa: (latestYear.netIncome / latestYear.cashBalance) * 100 // Simplified ROA
+      roa: (latestYear.netIncome / averageAssets) * 100,
+      roe: roe === null ? null : roe * 100
     },
     growthRatios: {
       revenueGrowth,
@@ -49,9 +90,18 @@ export const calculateFinancialRatios = (scenario: ScenarioData): FinancialRatio
       netIncomeGrowth
     },
     efficiencyRatios: {
-      assetTurnover: latestYear.revenue / latestYear.cashBalance, // Simplified
+      assetTurnover: latestYear.revenue / averageAssets,
       cogsRatio: (latestYear.cogs / latestYear.revenue) * 100,
       opexRatio: (latestYear.opex / latestYear.revenue) * 100
+    },
+    liquidityRatios: {
+      currentRatio: ratio(cash + receivables + inventory, currentLiabilities),
+      quickRatio: ratio(cash + receivables, currentLiabilities),
+      cashRatio: ratio(cash, currentLiabilities)
+    },
+    leverageRatios: {
+      debtToEquity,
+      debtToAssets: totalAssets > 0 ? debt / totalAssets : 0
     }
   };
 };
\ No newline at end of file
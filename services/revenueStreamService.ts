@@ -0,0 +1,70 @@
+import { RevenueStream, StreamFinancials } from '../types';
+import { sanitizeCurrencyCode } from './currencyService';
+
+/**
+ * New revenue stream with sensible defaults
+ */
+export const createRevenueStream = (overrides: Partial<RevenueStream> = {}): RevenueStream => ({
+  id: `${Date.now()}-${Math.round(Math.random() * 1e6)}`,
+  name: 'New Stream',
+  baseRevenue: 0,
+  growthRate: 0.10,
+  cogsRatio: 0.30,
+  ...overrides
+});
+
+/**
+ * Clamp stream drivers into the same ranges as the single-line revenue drivers
+ */
+export const sanitizeRevenueStreams = (streams: RevenueStream[] | undefined): RevenueStream[] | undefined => {
+  if (!Array.isArray(streams)) return undefined;
+
+  return streams.filter(Boolean).map((stream, index) => {
+    const currency = sanitizeCurrencyCode(stream.currency);
+    return {
+      id: String(stream.id || `stream-${index + 1}`),
+      name: String(stream.name || `Stream ${index + 1}`),
+      baseRevenue: Math.max(0, Number(stream.baseRevenue) || 0),
+      growthRate: Math.min(5, Math.max(-0.9, Number(stream.growthRate) || 0)),
+      cogsRatio: Math.min(1, Math.max(0, Number(stream.cogsRatio) || 0)),
+      ...(currency && { currency })
+    };
+  });
+};
+
+/**
+ * Total stream figures across consecutive periods, keeping the streams in their original order
+ */
+export const sumStreamFinancials = (periods: StreamFinancials[][]): StreamFinancials[] => {
+  const totals = new Map<string, StreamFinancials>();
+  periods.flat().forEach(line => {
+    const total = totals.get(line.streamId);
+    totals.set(line.streamId, total ? {
+      ...total,
+      revenue: total.revenue + line.revenue,
+      cogs: total.cogs + line.cogs,
+      grossProfit: total.grossProfit + line.grossProfit
+    } : { ...line });
+  });
+  return Array.from(totals.values());
+};
+
+export const roundStreamFinancials = (streams: StreamFinancials[]): StreamFinancials[] =>
+  streams.map(line => ({
+    ...line,
+    revenue: Math.round(line.revenue),
+    cogs: Math.round(line.cogs),
+    grossProfit: Math.round(line.grossProfit)
+  }));
+
+/**
+ * Gross margin (%) of a stream; 0 when it has no revenue
+ */
+export const streamGrossMargin = (line: StreamFinancials): number =>
+  line.revenue > 0 ? (line.grossProfit / line.revenue) * 100 : 0;
+
+/**
+ * Stream names used anywhere in a set of periods, in first-seen order
+ */
+export const collectStreamNames = (periods: { revenueStreams?: StreamFinancials[] }[]): string[] =>
+  Array.from(new Set(periods.flatMap(p => (p.revenueStreams || []).map(line => line.name))));
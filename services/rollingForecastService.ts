@@ -0,0 +1,117 @@
+import { ActualPeriod, ProjectionDrivers, ScenarioData } from '../types';
+import { DEFAULT_CURRENCY, convertAmount } from './currencyService';
+import { allGrants, stockCompensationForMonth } from './esopService';
+import { payrollForMonth } from './headcountService';
+import { MONTH_PATTERN } from './periodUtils';
+import { DEFAULT_PROJECTION_YEARS, addMonths, buildScenario, getMonthlyProjections, isReportedActual, sanitizeDrivers } from './projectionEngine';
+
+// Trailing months of actuals averaged into the run-rate the open periods project from
+const RUN_RATE_MONTHS = 3;
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+
+// Months with reported actuals that fall inside the plan, in calendar order
+const actualsInPlan = (scenario: ScenarioData): ActualPeriod[] => {
+  const planMonths = new Set(getMonthlyProjections(scenario).map(month => month.period));
+  return (scenario.actuals || [])
+    .filter(actual => MONTH_PATTERN.test(actual.period) && planMonths.has(actual.period) && isReportedActual(actual))
+    .sort((a, b) => a.period.localeCompare(b.period));
+};
+
+/**
+ * Latest month with actuals inside the scenario's plan; undefined when none has been entered
+ */
+export const latestActualMonth = (scenario: ScenarioData): string | undefined =>
+  actualsInPlan(scenario).pop()?.period;
+
+/**
+ * Drivers restated from the trailing actuals up to `closedThrough`: revenue, margin and the opex outside the
+ * headcount plan take the latest run-rate, cash starts from the reported closing balance (the originally planned
+ * one when the month reports none) and the projection starts the month after. Growth rates, the team and every other plan
+ * are kept. Revenue stays as planned while actuals show none.
+ */
+export const rebaseDrivers = (scenario: ScenarioData, closedThrough: string): ProjectionDrivers | undefined => {
+  const drivers = scenario.drivers;
+  const trailing = actualsInPlan(scenario).filter(actual => actual.period <= closedThrough).slice(-RUN_RATE_MONTHS);
+  if (!drivers || trailing.length === 0) return undefined;
+
+  const closing = trailing[trailing.length - 1];
+  const revenueRunRate = average(trailing.map(actual => actual.revenue)) * 12;
+  const cogsRunRate = average(trailing.map(actual => actual.cogs)) * 12;
+  const baseRevenue = revenueRunRate > 0 ? revenueRunRate : drivers.baseRevenue;
+  const revenueScale = drivers.baseRevenue > 0 ? baseRevenue / drivers.baseRevenue : 1;
+  const cogsRatio = revenueRunRate > 0 ? Math.min(1, cogsRunRate / revenueRunRate) : drivers.cogsRatio;
+  const cogsScale = drivers.cogsRatio > 0 ? cogsRatio / drivers.cogsRatio : 1;
+
+  // Reported opex includes the team and option expense, which the headcount plan keeps costing on its own
+  const currency = drivers.currency || DEFAULT_CURRENCY;
+  const grants = allGrants(drivers.capTable?.esop, drivers.headcount ?? []);
+  const teamCost = average(trailing.map(actual =>
+    payrollForMonth(drivers.headcount ?? [], actual.period, currency, drivers.fxRates).payroll
+      + stockCompensationForMonth(grants, actual.period)
+  )) * 12;
+  const otherOpex = Math.max(0, average(trailing.map(actual => actual.opex)) * 12 - teamCost);
+
+  // Category lines keep their mix: revenue-linked lines follow revenue and the growth lines absorb the rest
+  const opexLines = drivers.opexLines && drivers.opexLines.length > 0 ? drivers.opexLines : undefined;
+  const linkedOpex = (opexLines || [])
+    .filter(line => line.method === 'percentOfRevenue')
+    .reduce((total, line) => total + baseRevenue * line.revenueShare, 0);
+  const growthOpex = (opexLines || [])
+    .filter(line => line.method === 'growth')
+    .reduce((total, line) => total + (line.currency ? convertAmount(line.baseAmount, line.currency, currency, drivers.fxRates) : line.baseAmount), 0);
+  const opexScale = growthOpex > 0 ? Math.max(0, otherOpex - linkedOpex) / growthOpex : 1;
+
+  return sanitizeDrivers({
+    ...drivers,
+    baseRevenue,
+    cogsRatio,
+    revenueStreams: drivers.revenueStreams?.map(stream => ({
+      ...stream,
+      baseRevenue: stream.baseRevenue * revenueScale,
+      cogsRatio: Math.min(1, Math.max(0, stream.cogsRatio * cogsScale))
+    })),
+    baseOpex: otherOpex,
+    opexLines: opexLines?.map(line => line.method === 'growth' ? { ...line, baseAmount: line.baseAmount * opexScale } : line),
+    startingCash: closing.cashBalance
+      ?? getMonthlyProjections(baselineScenario(scenario)).find(month => month.period === closedThrough)?.cashBalance
+      ?? drivers.startingCash,
+    startMonth: addMonths(closedThrough, 1)
+  }, drivers);
+};
+
+/**
+ * Lock the months up to the latest actuals and re-project the rest from the rebased drivers, with `overrides`
+ * (e.g. revised growth) on top. The plan as it stood before the first roll-forward is kept as the baseline.
+ */
+export const rollForward = (scenario: ScenarioData, overrides: Partial<ProjectionDrivers> = {}): ScenarioData => {
+  const closedThrough = latestActualMonth(scenario);
+  const rebased = closedThrough ? rebaseDrivers(scenario, closedThrough) : undefined;
+  if (!closedThrough || !rebased || !scenario.drivers) return scenario;
+
+  const previous = scenario.rollingForecast;
+  const baselineMonths = previous?.baseline.monthlyProjections || getMonthlyProjections(scenario);
+  return buildScenario(
+    {
+      ...scenario,
+      rollingForecast: {
+        planStartMonth: previous?.planStartMonth || baselineMonths[0]?.period || closedThrough,
+        closedThrough,
+        rolledAt: new Date().toISOString(),
+        baseline: previous?.baseline || {
+          projections: scenario.projections,
+          monthlyProjections: baselineMonths,
+          drivers: scenario.drivers
+        }
+      }
+    },
+    sanitizeDrivers(overrides, rebased),
+    scenario.projections.length || DEFAULT_PROJECTION_YEARS
+  );
+};
+
+/**
+ * Scenario as originally planned, before any roll-forward
+ */
+export const baselineScenario = (scenario: ScenarioData): ScenarioData =>
+  scenario.rollingForecast ? { ...scenario, ...scenario.rollingForecast.baseline, rollingForecast: undefined } : scenario;
@@ -3,28 +3,27 @@
  * Prevents negative runway values and provides professional status labels
  */
 
+import { BurnMeasure, MonthlyPeriod, ScenarioData } from '../types';
+import { getMonthlyProjections } from './projectionEngine';
+
 export interface RunwayStatus {
   months: number;
   status: 'Healthy' | 'Caution' | 'Critical' | 'Exhausted';
   label: string;
   riskLevel: 'Low' | 'Medium' | 'High' | 'Critical';
+  zeroCashPeriod?: string | null; // "YYYY-MM" the cash runs out, null if it never does within the projection
+  lowPoint?: CashLowPoint | null; // Lowest month-end cash within the projection
 }
 
-export const calculateRunway = (
-  currentCash: number,
-  monthlyBurn: number,
-  monthlyRevenue: number = 0
-): RunwayStatus => {
-  // Ensure positive values
-  const safeCash = Math.max(0, currentCash);
-  const safeBurn = Math.max(1, monthlyBurn); // Minimum ₹1 to prevent division by zero
-  
-  // Calculate net burn (burn - revenue)
-  const netBurn = Math.max(1, safeBurn - monthlyRevenue);
-  
-  // Calculate runway months (capped at 0)
-  const runwayMonths = Math.max(0, safeCash / netBurn);
-  
+export interface CashLowPoint {
+  period: string; // "YYYY-MM"
+  cashBalance: number;
+}
+
+/**
+ * Map a runway length in months to its status and labels
+ */
+const classifyRunway = (runwayMonths: number): RunwayStatus => {
   // Determine status and labels
   let status: 'Healthy' | 'Caution' | 'Critical' | 'Exhausted';
   let label: string;
@@ -64,9 +63,97 @@ export const calculateRunway = (
   };
 };
 
+/**
+ * Runway from a flat monthly burn. Cash absorbed each month by growing receivables and stock
+ * (net of payables) adds to the burn; a negative value means working capital releases cash.
+ */
+export const calculateRunway = (
+  currentCash: number,
+  monthlyBurn: number,
+  monthlyRevenue: number = 0,
+  monthlyWorkingCapitalOutflow: number = 0
+): RunwayStatus => {
+  // Ensure positive values
+  const safeCash = Math.max(0, currentCash);
+  const safeBurn = Math.max(1, monthlyBurn); // Minimum ₹1 to prevent division by zero
+  
+  // Calculate net burn (burn - revenue + working capital)
+  const netBurn = Math.max(1, safeBurn - monthlyRevenue + monthlyWorkingCapitalOutflow);
+  
+  // Calculate runway months (capped at 0)
+  const runwayMonths = Math.max(0, safeCash / netBurn);
+  
+  return classifyRunway(runwayMonths);
+};
+
+/**
+ * Runway at a burn measured from bank statements rather than projected
+ */
+export const calculateRunwayFromBurn = (currentCash: number, burn: BurnMeasure): RunwayStatus =>
+  burn.netBurn <= 0
+    ? { ...classifyRunway(999), zeroCashPeriod: null } // Cash never runs out
+    : calculateRunway(currentCash, burn.grossBurn, burn.revenue);
+
 export const formatRunwayDisplay = (runway: RunwayStatus): string => {
   if (runway.months === 0) {
     return '0 months (Exhausted)';
   }
   return `${runway.months} months (${runway.status})`;
-};
\ No newline at end of file
+};
+
+/**
+ * Month with the lowest closing cash, e.g. a seasonal trough that year-end balances hide; null without months
+ */
+export const findCashLowPoint = (months: MonthlyPeriod[]): CashLowPoint | null =>
+  months.reduce<CashLowPoint | null>(
+    (lowest, month) => !lowest || month.cashBalance < lowest.cashBalance ? { period: month.period, cashBalance: month.cashBalance } : lowest,
+    null
+  );
+
+/**
+ * Runway from monthly projections: months until the projected cash balance first goes negative
+ * (a balance held at zero by a credit line still counts as funded).
+ * Beyond the projection horizon the final month's cash flow is extrapolated.
+ */
+export const calculateRunwayFromProjections = (
+  months: MonthlyPeriod[],
+  startingCash: number
+): RunwayStatus => {
+  const lowPoint = findCashLowPoint(months);
+  if (startingCash <= 0) {
+    return { ...classifyRunway(0), zeroCashPeriod: months[0]?.period ?? null, lowPoint };
+  }
+
+  let openingCash = startingCash;
+  for (const month of months) {
+    if (month.cashBalance < 0) {
+      // Interpolate within the month the balance crosses zero
+      const monthlyOutflow = openingCash - month.cashBalance;
+      const fraction = monthlyOutflow > 0 ? openingCash / monthlyOutflow : 1;
+      return { ...classifyRunway(month.month - 1 + fraction), zeroCashPeriod: month.period, lowPoint };
+    }
+    openingCash = month.cashBalance;
+  }
+
+  // Cash movement includes working capital and capex when the month has a cash-flow statement
+  const lastMonth = months[months.length - 1];
+  const finalMonthlyBurn = lastMonth ? -(lastMonth.cashFlow?.netChangeInCash ?? lastMonth.netIncome) : 0;
+  const runwayMonths = finalMonthlyBurn > 0 ?
+    months.length + lastMonth.cashBalance / finalMonthlyBurn :
+    999; // Cash never runs out
+  return { ...classifyRunway(runwayMonths), zeroCashPeriod: null, lowPoint };
+};
+
+/**
+ * Runway of a scenario from the months still ahead of it. Once the forecast has been rolled forward the locked
+ * months are behind it, and cash opens at the rebased starting balance, the latest actual closing cash.
+ */
+export const calculateScenarioRunway = (scenario: ScenarioData): RunwayStatus => {
+  const closedThrough = scenario.rollingForecast?.closedThrough;
+  const months = getMonthlyProjections(scenario)
+    .filter(month => !closedThrough || month.period > closedThrough)
+    .map((month, i) => ({ ...month, month: i + 1 }));
+  const firstMonth = months[0];
+  const openingCash = scenario.drivers?.startingCash ?? (firstMonth ? firstMonth.cashBalance - firstMonth.netIncome : 0);
+  return calculateRunwayFromProjections(months, openingCash);
+};
@@ -12,7 +12,6 @@ export interface SaaSMetrics {
 
 export const calculateSaaSMetrics = (scenario: ScenarioData, userInputs?: { revenue: number; customers?: number }): SaaSMetrics => {
   const year1 = scenario.projections[0];
-  const year3 = scenario.projections[2];
   
   // Use actual user inputs instead of defaults
   const actualRevenue = userInputs?.revenue || year1.revenue;
@@ -24,7 +23,7 @@ export const calculateSaaSMetrics = (scenario: ScenarioData, userInputs?: { reve
   
   // Dynamic CAC calculation based on actual revenue size
   const revenueSize = actualRevenue;
-  const marketingSpend = year1.opex * 0.30; // 30% of OpEx for customer acquisition
+  const marketingSpend = year1.opexBreakdown?.marketing ?? year1.opex * 0.30; // Marketing line, else 30% of OpEx
   const newCustomers = Math.max(5, customerCount * 0.20); // At least 5 new customers
   
   // Scale CAC based on revenue size and market maturity
@@ -11,68 +11,70 @@ export interface UserInputs {
   growthRate?: number;
 }
 
+// Country-specific configurations; inflationRate is an indicative annual consumer price inflation rate
+const COUNTRY_CONFIGS = {
+  'India': { taxRate: 0.30, currency: '₹', salaryMultiplier: 1.0, inflationRate: 0.05 },
+  'USA': { taxRate: 0.21, currency: '$', salaryMultiplier: 4.0, inflationRate: 0.03 },
+  'UK': { taxRate: 0.19, currency: '£', salaryMultiplier: 3.5, inflationRate: 0.03 },
+  'Germany': { taxRate: 0.30, currency: '€', salaryMultiplier: 3.2, inflationRate: 0.025 },
+  'Singapore': { taxRate: 0.17, currency: 'S$', salaryMultiplier: 2.8, inflationRate: 0.025 },
+  'Australia': { taxRate: 0.30, currency: 'A$', salaryMultiplier: 3.0, inflationRate: 0.035 },
+  'Canada': { taxRate: 0.26, currency: 'C$', salaryMultiplier: 3.1, inflationRate: 0.025 },
+  'Japan': { taxRate: 0.30, currency: '¥', salaryMultiplier: 2.5, inflationRate: 0.02 },
+  'South Korea': { taxRate: 0.25, currency: '₩', salaryMultiplier: 2.2, inflationRate: 0.025 },
+  'China': { taxRate: 0.25, currency: '¥', salaryMultiplier: 1.8, inflationRate: 0.01 },
+  'Brazil': { taxRate: 0.34, currency: 'R$', salaryMultiplier: 1.5, inflationRate: 0.045 },
+  'Mexico': { taxRate: 0.30, currency: '$', salaryMultiplier: 1.3, inflationRate: 0.045 },
+  'France': { taxRate: 0.32, currency: '€', salaryMultiplier: 3.0, inflationRate: 0.025 },
+  'Netherlands': { taxRate: 0.25, currency: '€', salaryMultiplier: 3.4, inflationRate: 0.03 },
+  'Switzerland': { taxRate: 0.18, currency: 'CHF', salaryMultiplier: 4.5, inflationRate: 0.012 },
+  'Sweden': { taxRate: 0.21, currency: 'kr', salaryMultiplier: 3.3, inflationRate: 0.025 },
+  'Norway': { taxRate: 0.22, currency: 'kr', salaryMultiplier: 4.2, inflationRate: 0.035 },
+  'Denmark': { taxRate: 0.22, currency: 'kr', salaryMultiplier: 3.8, inflationRate: 0.02 },
+  'Israel': { taxRate: 0.23, currency: '₪', salaryMultiplier: 2.7, inflationRate: 0.03 },
+  'UAE': { taxRate: 0.09, currency: 'د.إ', salaryMultiplier: 2.5, inflationRate: 0.025 },
+  'Saudi Arabia': { taxRate: 0.20, currency: 'ر.س', salaryMultiplier: 2.3, inflationRate: 0.02 },
+  'South Africa': { taxRate: 0.28, currency: 'R', salaryMultiplier: 0.8, inflationRate: 0.05 },
+  'Nigeria': { taxRate: 0.30, currency: '₦', salaryMultiplier: 0.6, inflationRate: 0.25 },
+  'Kenya': { taxRate: 0.30, currency: 'KSh', salaryMultiplier: 0.5, inflationRate: 0.06 },
+  'Egypt': { taxRate: 0.22, currency: 'ج.م', salaryMultiplier: 0.4, inflationRate: 0.25 },
+  'Turkey': { taxRate: 0.25, currency: '₺', salaryMultiplier: 0.7, inflationRate: 0.45 },
+  'Russia': { taxRate: 0.20, currency: '₽', salaryMultiplier: 0.9, inflationRate: 0.08 },
+  'Poland': { taxRate: 0.19, currency: 'zł', salaryMultiplier: 1.4, inflationRate: 0.04 },
+  'Czech Republic': { taxRate: 0.19, currency: 'Kč', salaryMultiplier: 1.2, inflationRate: 0.025 },
+  'Hungary': { taxRate: 0.09, currency: 'Ft', salaryMultiplier: 1.1, inflationRate: 0.045 },
+  'Romania': { taxRate: 0.16, currency: 'lei', salaryMultiplier: 0.9, inflationRate: 0.055 },
+  'Bulgaria': { taxRate: 0.10, currency: 'лв', salaryMultiplier: 0.7, inflationRate: 0.035 },
+  'Croatia': { taxRate: 0.18, currency: '€', salaryMultiplier: 1.3, inflationRate: 0.035 },
+  'Serbia': { taxRate: 0.15, currency: 'дин', salaryMultiplier: 0.6, inflationRate: 0.045 },
+  'Ukraine': { taxRate: 0.18, currency: '₴', salaryMultiplier: 0.5, inflationRate: 0.10 },
+  'Belarus': { taxRate: 0.18, currency: 'Br', salaryMultiplier: 0.4, inflationRate: 0.06 },
+  'Lithuania': { taxRate: 0.15, currency: '€', salaryMultiplier: 1.5, inflationRate: 0.03 },
+  'Latvia': { taxRate: 0.20, currency: '€', salaryMultiplier: 1.3, inflationRate: 0.025 },
+  'Estonia': { taxRate: 0.20, currency: '€', salaryMultiplier: 1.6, inflationRate: 0.035 },
+  'Finland': { taxRate: 0.20, currency: '€', salaryMultiplier: 3.1, inflationRate: 0.02 },
+  'Austria': { taxRate: 0.25, currency: '€', salaryMultiplier: 3.0, inflationRate: 0.03 },
+  'Belgium': { taxRate: 0.29, currency: '€', salaryMultiplier: 3.2, inflationRate: 0.03 },
+  'Spain': { taxRate: 0.25, currency: '€', salaryMultiplier: 2.4, inflationRate: 0.03 },
+  'Italy': { taxRate: 0.24, currency: '€', salaryMultiplier: 2.6, inflationRate: 0.02 },
+  'Portugal': { taxRate: 0.21, currency: '€', salaryMultiplier: 1.8, inflationRate: 0.025 },
+  'Greece': { taxRate: 0.24, currency: '€', salaryMultiplier: 1.7, inflationRate: 0.03 },
+  'Ireland': { taxRate: 0.12, currency: '€', salaryMultiplier: 3.5, inflationRate: 0.025 },
+  'Luxembourg': { taxRate: 0.24, currency: '€', salaryMultiplier: 4.0, inflationRate: 0.025 },
+  'Malta': { taxRate: 0.35, currency: '€', salaryMultiplier: 2.2, inflationRate: 0.025 },
+  'Cyprus': { taxRate: 0.12, currency: '€', salaryMultiplier: 2.0, inflationRate: 0.025 },
+  'Slovenia': { taxRate: 0.19, currency: '€', salaryMultiplier: 1.9, inflationRate: 0.03 },
+  'Slovakia': { taxRate: 0.21, currency: '€', salaryMultiplier: 1.6, inflationRate: 0.035 }
+};
+
+export const SUPPORTED_COUNTRIES = Object.keys(COUNTRY_CONFIGS);
+
+export const getCountryConfig = (country: string) =>
+  COUNTRY_CONFIGS[country as keyof typeof COUNTRY_CONFIGS] || COUNTRY_CONFIGS['India'];
+
 export const generateScenariosFromInputs = (inputs: UserInputs): ScenarioData[] => {
   const { companyName, annualRevenue, monthlyExpenses, availableCash, industry = 'SaaS', country = 'India', businessContext } = inputs;
   
-  // Country-specific configurations
-  const getCountryConfig = (country: string) => {
-    const configs = {
-      'India': { taxRate: 0.30, currency: '₹', salaryMultiplier: 1.0 },
-      'USA': { taxRate: 0.21, currency: '$', salaryMultiplier: 4.0 },
-      'UK': { taxRate: 0.19, currency: '£', salaryMultiplier: 3.5 },
-      'Germany': { taxRate: 0.30, currency: '€', salaryMultiplier: 3.2 },
-      'Singapore': { taxRate: 0.17, currency: 'S$', salaryMultiplier: 2.8 },
-      'Australia': { taxRate: 0.30, currency: 'A$', salaryMultiplier: 3.0 },
-      'Canada': { taxRate: 0.26, currency: 'C$', salaryMultiplier: 3.1 },
-      'Japan': { taxRate: 0.30, currency: '¥', salaryMultiplier: 2.5 },
-      'South Korea': { taxRate: 0.25, currency: '₩', salaryMultiplier: 2.2 },
-      'China': { taxRate: 0.25, currency: '¥', salaryMultiplier: 1.8 },
-      'Brazil': { taxRate: 0.34, currency: 'R$', salaryMultiplier: 1.5 },
-      'Mexico': { taxRate: 0.30, currency: '$', salaryMultiplier: 1.3 },
-      'France': { taxRate: 0.32, currency: '€', salaryMultiplier: 3.0 },
-      'Netherlands': { taxRate: 0.25, currency: '€', salaryMultiplier: 3.4 },
-      'Switzerland': { taxRate: 0.18, currency: 'CHF', salaryMultiplier: 4.5 },
-      'Sweden': { taxRate: 0.21, currency: 'kr', salaryMultiplier: 3.3 },
-      'Norway': { taxRate: 0.22, currency: 'kr', salaryMultiplier: 4.2 },
-      'Denmark': { taxRate: 0.22, currency: 'kr', salaryMultiplier: 3.8 },
-      'Israel': { taxRate: 0.23, currency: '₪', salaryMultiplier: 2.7 },
-      'UAE': { taxRate: 0.09, currency: 'د.إ', salaryMultiplier: 2.5 },
-      'Saudi Arabia': { taxRate: 0.20, currency: 'ر.س', salaryMultiplier: 2.3 },
-      'South Africa': { taxRate: 0.28, currency: 'R', salaryMultiplier: 0.8 },
-      'Nigeria': { taxRate: 0.30, currency: '₦', salaryMultiplier: 0.6 },
-      'Kenya': { taxRate: 0.30, currency: 'KSh', salaryMultiplier: 0.5 },
-      'Egypt': { taxRate: 0.22, currency: 'ج.م', salaryMultiplier: 0.4 },
-      'Turkey': { taxRate: 0.25, currency: '₺', salaryMultiplier: 0.7 },
-      'Russia': { taxRate: 0.20, currency: '₽', salaryMultiplier: 0.9 },
-      'Poland': { taxRate: 0.19, currency: 'zł', salaryMultiplier: 1.4 },
-      'Czech Republic': { taxRate: 0.19, currency: 'Kč', salaryMultiplier: 1.2 },
-      'Hungary': { taxRate: 0.09, currency: 'Ft', salaryMultiplier: 1.1 },
-      'Romania': { taxRate: 0.16, currency: 'lei', salaryMultiplier: 0.9 },
-      'Bulgaria': { taxRate: 0.10, currency: 'лв', salaryMultiplier: 0.7 },
-      'Croatia': { taxRate: 0.18, currency: '€', salaryMultiplier: 1.3 },
-      'Serbia': { taxRate: 0.15, currency: 'дин', salaryMultiplier: 0.6 },
-      'Ukraine': { taxRate: 0.18, currency: '₴', salaryMultiplier: 0.5 },
-      'Belarus': { taxRate: 0.18, currency: 'Br', salaryMultiplier: 0.4 },
-      'Lithuania': { taxRate: 0.15, currency: '€', salaryMultiplier: 1.5 },
-      'Latvia': { taxRate: 0.20, currency: '€', salaryMultiplier: 1.3 },
-      'Estonia': { taxRate: 0.20, currency: '€', salaryMultiplier: 1.6 },
-      'Finland': { taxRate: 0.20, currency: '€', salaryMultiplier: 3.1 },
-      'Austria': { taxRate: 0.25, currency: '€', salaryMultiplier: 3.0 },
-      'Belgium': { taxRate: 0.29, currency: '€', salaryMultiplier: 3.2 },
-      'Spain': { taxRate: 0.25, currency: '€', salaryMultiplier: 2.4 },
-      'Italy': { taxRate: 0.24, currency: '€', salaryMultiplier: 2.6 },
-      'Portugal': { taxRate: 0.21, currency: '€', salaryMultiplier: 1.8 },
-      'Greece': { taxRate: 0.24, currency: '€', salaryMultiplier: 1.7 },
-      'Ireland': { taxRate: 0.12, currency: '€', salaryMultiplier: 3.5 },
-      'Luxembourg': { taxRate: 0.24, currency: '€', salaryMultiplier: 4.0 },
-      'Malta': { taxRate: 0.35, currency: '€', salaryMultiplier: 2.2 },
-      'Cyprus': { taxRate: 0.12, currency: '€', salaryMultiplier: 2.0 },
-      'Slovenia': { taxRate: 0.19, currency: '€', salaryMultiplier: 1.9 },
-      'Slovakia': { taxRate: 0.21, currency: '€', salaryMultiplier: 1.6 }
-    };
-    return configs[country as keyof typeof configs] || configs['India'];
-  };
-  
   const countryConfig = getCountryConfig(country);
   
   // CRITICAL: Use EXACT user inputs as Year 1 base - NO ADJUSTMENTS
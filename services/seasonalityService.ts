@@ -0,0 +1,51 @@
+import { SeasonalityProfile } from '../types';
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const CUSTOM_SEASONALITY = 'Custom';
+
+// Typical calendar-month revenue shape per industry, January first; weights are relative to an average month of 1
+export const SEASONALITY_PRESETS: SeasonalityProfile[] = [
+  { name: 'Flat', weights: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1] },
+  // Deals close at quarter end and the fiscal year-end; summer is slow
+  { name: 'SaaS', weights: [0.95, 0.95, 1.1, 0.95, 0.95, 1.05, 0.9, 0.85, 1.05, 1, 1, 1.25] },
+  // Festive season and holiday sales peak in Q4, with a post-holiday lull
+  { name: 'E-commerce', weights: [0.8, 0.75, 0.85, 0.85, 0.9, 0.9, 0.9, 0.9, 0.95, 1.1, 1.45, 1.65] },
+  { name: 'FinTech', weights: [0.95, 0.95, 1, 0.95, 1, 1, 1, 1, 1, 1.05, 1.05, 1.05] },
+  // Winter illness and the new insurance year lift demand at the turn of the year
+  { name: 'HealthTech', weights: [1.15, 1.1, 1.05, 0.95, 0.9, 0.9, 0.9, 0.9, 0.95, 1, 1.05, 1.15] },
+  // Plant shutdowns in August and over the year-end holidays
+  { name: 'Manufacturing', weights: [0.95, 1, 1.1, 1.05, 1.05, 1.05, 0.95, 0.8, 1.05, 1.05, 1.05, 0.9] }
+];
+
+/**
+ * Preset for an industry; flat when there is none
+ */
+export const seasonalityPreset = (industry: string): SeasonalityProfile =>
+  SEASONALITY_PRESETS.find(preset => preset.name === industry) || SEASONALITY_PRESETS[0];
+
+/**
+ * Twelve non-negative weights; missing months weigh as an average month. Weights mid-edit are kept as typed.
+ */
+export const sanitizeSeasonality = (profile: SeasonalityProfile | undefined): SeasonalityProfile | undefined => {
+  if (!profile) return undefined;
+
+  const weights = Array.isArray(profile.weights) ? profile.weights : [];
+  return {
+    name: String(profile.name || CUSTOM_SEASONALITY),
+    weights: MONTH_NAMES.map((_, i) => weights[i] === undefined ? 1 : Math.min(10, Math.max(0, Number(weights[i]) || 0)))
+  };
+};
+
+/**
+ * Multiplier for each month of a projection year (0 = the start month's calendar month), averaging 1.
+ * All ones when there is no profile or every weight is zero.
+ */
+export const seasonalFactors = (profile: SeasonalityProfile | undefined, startMonth: string): number[] => {
+  const weights = profile?.weights || [];
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length !== 12 || total <= 0) return MONTH_NAMES.map(() => 1);
+
+  const firstCalendarMonth = Number(startMonth.split('-')[1]) - 1 || 0;
+  return MONTH_NAMES.map((_, m) => (weights[(firstCalendarMonth + m) % 12] * 12) / total);
+};
@@ -15,6 +15,9 @@ export const performSensitivityAnalysis = (baseScenario: ScenarioData): Sensitiv
   const baseEbitda = baseProjection.ebitda;
   const baseGrossProfit = baseProjection.grossProfit;
   const baseOpex = baseProjection.opex;
+  // Acquisition spend is the marketing line when opex is categorized, otherwise 40% of opex
+  const acquisitionSpend = baseProjection.opexBreakdown?.marketing ?? baseOpex * 0.4;
+  const cacShare = (change: number) => Math.round((acquisitionSpend * (1 + change) / baseRevenue) * 100);
   
   return [
     {
@@ -45,27 +48,27 @@ export const performSensitivityAnalysis = (baseScenario: ScenarioData): Sensitiv
     },
     {
       parameter: 'Customer Acquisition Cost',
-      baseValue: Math.round((baseOpex * 0.4 / baseRevenue) * 100), // 40% of OpEx as CAC
+      baseValue: cacShare(0), // Acquisition spend as % of revenue
       variations: [
         { 
           change: '+10% CAC increase', 
-          value: Math.round((baseOpex * 0.44 / baseRevenue) * 100), 
-          impact: calculateCACImpact(baseEbitda, baseRevenue, 0.10) 
+          value: cacShare(0.10), 
+          impact: calculateCACImpact(baseEbitda, acquisitionSpend, 0.10) 
         },
         { 
           change: '+5% CAC increase', 
-          value: Math.round((baseOpex * 0.42 / baseRevenue) * 100), 
-          impact: calculateCACImpact(baseEbitda, baseRevenue, 0.05) 
+          value: cacShare(0.05), 
+          impact: calculateCACImpact(baseEbitda, acquisitionSpend, 0.05) 
         },
         { 
           change: '-5% CAC reduction', 
-          value: Math.round((baseOpex * 0.38 / baseRevenue) * 100), 
-          impact: calculateCACImpact(baseEbitda, baseRevenue, -0.05) 
+          value: cacShare(-0.05), 
+          impact: calculateCACImpact(baseEbitda, acquisitionSpend, -0.05) 
         },
         { 
           change: '-10% CAC reduction', 
-          value: Math.round((baseOpex * 0.36 / baseRevenue) * 100), 
-          impact: calculateCACImpact(baseEbitda, baseRevenue, -0.10) 
+          value: cacShare(-0.10), 
+          impact: calculateCACImpact(baseEbitda, acquisitionSpend, -0.10) 
         }
       ]
     },
@@ -105,8 +108,8 @@ const calculateRevenueImpact = (baseRevenue: number, baseEbitda: number, growthC
   return baseEbitda !== 0 ? (ebitdaChange / Math.abs(baseEbitda)) * 100 : growthChange;
 };
 
-const calculateCACImpact = (baseEbitda: number, baseRevenue: number, cacChange: number): number => {
-  const cacImpact = baseRevenue * 0.4 * cacChange; // 40% of revenue affected by CAC
+const calculateCACImpact = (baseEbitda: number, acquisitionSpend: number, cacChange: number): number => {
+  const cacImpact = acquisitionSpend * cacChange; // Same customers, costlier (or cheaper) to acquire
   return baseEbitda !== 0 ? (-cacImpact / Math.abs(baseEbitda)) * 100 : -cacChange * 100;
 };
 
@@ -0,0 +1,89 @@
+import { ProjectionDrivers } from '../types';
+import { getCountryConfig } from './scenarioGenerator';
+
+export interface TaxPolicy {
+  rate: number;
+  lossCarryForwardYears?: number; // undefined = losses never expire
+  lossOffsetCap: number; // share of a year's profit that carried-forward losses may shield
+  startupHolidayYears: number; // length of the startup exemption available to eligible companies
+}
+
+// Loss rules that differ from the default of indefinite, uncapped carry-forward
+const LOSS_RULES: Record<string, Partial<TaxPolicy>> = {
+  'India': { lossCarryForwardYears: 8, startupHolidayYears: 3 },
+  'USA': { lossOffsetCap: 0.8 },
+  'Germany': { lossOffsetCap: 0.6 },
+  'France': { lossOffsetCap: 0.5 },
+  'Spain': { lossOffsetCap: 0.7 },
+  'Italy': { lossOffsetCap: 0.8 },
+  'Brazil': { lossOffsetCap: 0.3 },
+  'Japan': { lossCarryForwardYears: 10 },
+  'South Korea': { lossCarryForwardYears: 15 },
+  'China': { lossCarryForwardYears: 5 },
+  'Canada': { lossCarryForwardYears: 20 },
+  'Mexico': { lossCarryForwardYears: 10 },
+  'Switzerland': { lossCarryForwardYears: 7 },
+  'Poland': { lossCarryForwardYears: 5 },
+  'Czech Republic': { lossCarryForwardYears: 5 },
+  'Greece': { lossCarryForwardYears: 5 },
+  'Turkey': { lossCarryForwardYears: 5 }
+};
+
+/**
+ * Corporate tax rules for a country, falling back to the country's headline rate with indefinite loss relief
+ */
+export const getTaxPolicy = (country: string): TaxPolicy => ({
+  rate: getCountryConfig(country).taxRate,
+  lossCarryForwardYears: undefined,
+  lossOffsetCap: 1,
+  startupHolidayYears: 0,
+  ...LOSS_RULES[country]
+});
+
+// A year's unused tax loss, tracked by the projection year it arose in so it can expire
+export interface TaxLoss {
+  year: number;
+  amount: number;
+}
+
+/**
+ * Losses from earlier years that may still be set off in the given year
+ */
+export const availableLosses = (losses: TaxLoss[], year: number, carryForwardYears?: number): number =>
+  losses
+    .filter(loss => carryForwardYears === undefined || year - loss.year <= carryForwardYears)
+    .reduce((total, loss) => total + loss.amount, 0);
+
+/**
+ * Tax due on a (year-to-date) profit after loss relief; nothing is due during a tax holiday
+ */
+export const taxOnProfit = (profit: number, losses: number, drivers: Pick<ProjectionDrivers, 'taxRate' | 'lossOffsetCap'>, inHoliday: boolean): number => {
+  if (inHoliday || profit <= 0) return 0;
+  const relief = Math.min(losses, profit * (drivers.lossOffsetCap ?? 1));
+  return (profit - relief) * drivers.taxRate;
+};
+
+/**
+ * Carry a closed year into the loss pool: losses are added, and profits use up the oldest losses first
+ */
+export const closeTaxYear = (
+  losses: TaxLoss[],
+  year: number,
+  profit: number,
+  drivers: Pick<ProjectionDrivers, 'lossCarryForwardYears' | 'lossOffsetCap'>,
+  inHoliday: boolean
+): TaxLoss[] => {
+  const live = losses.filter(loss => drivers.lossCarryForwardYears === undefined || year - loss.year <= drivers.lossCarryForwardYears);
+  if (profit < 0) return [...live, { year, amount: -profit }];
+  // Exempt holiday profits don't need relief, so losses are kept for later years
+  if (inHoliday) return live;
+
+  let toUse = Math.min(availableLosses(live, year), profit * (drivers.lossOffsetCap ?? 1));
+  return live
+    .map(loss => {
+      const used = Math.min(loss.amount, toUse);
+      toUse -= used;
+      return { ...loss, amount: loss.amount - used };
+    })
+    .filter(loss => loss.amount > 0);
+};
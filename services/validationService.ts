@@ -1,5 +1,17 @@
-import { ScenarioData } from '../types';
+import { HistoricalYear, ScenarioData } from '../types';
 import { getIndustryBenchmarks } from './marketBenchmarks';
+import { balanceSheetImbalance } from './financialStatements';
+import { calculateRevenueCagr } from './ratiosService';
+import { DEFAULT_CURRENCY, currenciesInUse, missingFxRates } from './currencyService';
+import { findCashLowPoint } from './runwayUtils';
+import { historicalGrowthRate, latestHistoricalYear } from './historyService';
+
+// Statement lines are rounded independently, so allow a few units of drift
+const STATEMENT_TOLERANCE = 5;
+
+// Percentage points year 1 may run ahead of the reported track record before it needs explaining
+const HISTORY_GROWTH_GAP = 30;
+const HISTORY_MARGIN_GAP = 10;
 
 export interface ValidationResult {
   isValid: boolean;
@@ -9,7 +21,11 @@ export interface ValidationResult {
   reliability: 'High' | 'Medium' | 'Low';
 }
 
-export const validateFinancialModel = (scenario: ScenarioData, industry: string = 'SaaS'): ValidationResult => {
+/**
+ * Check a scenario's statements for consistency and its assumptions against industry benchmarks and, when
+ * accounts have been imported, the company's own reported history
+ */
+export const validateFinancialModel = (scenario: ScenarioData, industry: string = 'SaaS', history: HistoricalYear[] = []): ValidationResult => {
   const warnings: string[] = [];
   const errors: string[] = [];
   const recommendations: string[] = [];
@@ -52,6 +68,29 @@ export const validateFinancialModel = (scenario: ScenarioData, industry: string
       errors.push(`Year ${proj.year}: EBITDA calculation error (${proj.ebitda} vs ${calculatedEbitda})`);
     }
     
+    // Three-statement consistency
+    if (proj.balanceSheet) {
+      const imbalance = balanceSheetImbalance(proj.balanceSheet);
+      if (Math.abs(imbalance) > STATEMENT_TOLERANCE) {
+        errors.push(`Year ${proj.year}: Balance sheet does not balance (assets differ from liabilities + equity by ${Math.round(imbalance)})`);
+      }
+      if (Math.abs(proj.balanceSheet.cash - proj.cashBalance) > STATEMENT_TOLERANCE) {
+        errors.push(`Year ${proj.year}: Balance sheet cash (${proj.balanceSheet.cash}) does not match cash balance (${proj.cashBalance})`);
+      }
+    }
+
+    if (proj.cashFlow) {
+      if (Math.abs(proj.cashFlow.netIncome - proj.netIncome) > STATEMENT_TOLERANCE) {
+        errors.push(`Year ${proj.year}: Cash flow statement starts from ${proj.cashFlow.netIncome} but net income is ${proj.netIncome}`);
+      }
+      if (index > 0) {
+        const cashMovement = proj.cashBalance - projections[index - 1].cashBalance;
+        if (Math.abs(proj.cashFlow.netChangeInCash - cashMovement) > STATEMENT_TOLERANCE) {
+          errors.push(`Year ${proj.year}: Net change in cash (${proj.cashFlow.netChangeInCash}) does not reconcile to the cash balance movement (${cashMovement})`);
+        }
+      }
+    }
+
     // Margin validation with scenario context
     const grossMargin = (proj.grossProfit / proj.revenue) * 100;
     if (grossMargin < 0) {
@@ -87,12 +126,45 @@ export const validateFinancialModel = (scenario: ScenarioData, industry: string
     }
   });
   
+  // Year-end balances hide intra-year troughs, such as the months before a seasonal peak
+  const lowPoint = findCashLowPoint(scenario.monthlyProjections || []);
+  if (lowPoint && lowPoint.cashBalance < 0 && projections.every(proj => proj.cashBalance >= 0)) {
+    warnings.push(`Cash falls to ${Math.round(lowPoint.cashBalance).toLocaleString()} in ${lowPoint.period} although every year closes with cash in hand: plan a buffer or credit line for the trough`);
+  }
+
+  // The reported track record is the best reality check on year 1
+  const reported = latestHistoricalYear(history);
+  const firstYear = projections[0];
+  if (reported && reported.revenue > 0 && firstYear && firstYear.revenue > 0) {
+    const reportedRevenue = (reported.revenue * 12) / reported.months;
+    const firstYearGrowth = (firstYear.revenue / reportedRevenue - 1) * 100;
+    const reportedGrowth = historicalGrowthRate(history);
+    if (reportedGrowth !== undefined && !isPessimistic && firstYearGrowth - reportedGrowth * 100 > HISTORY_GROWTH_GAP) {
+      warnings.push(`Year 1 revenue growth (${firstYearGrowth.toFixed(1)}%) is well ahead of the ${(reportedGrowth * 100).toFixed(1)}% reported for ${reported.label}`);
+    }
+    if (!isPessimistic && firstYearGrowth < -50) {
+      warnings.push(`Year 1 revenue is less than half of ${reported.label}'s reported ${Math.round(reportedRevenue).toLocaleString()}`);
+    }
+    const reportedMargin = (1 - reported.cogs / reported.revenue) * 100;
+    const firstYearMargin = (firstYear.grossProfit / firstYear.revenue) * 100;
+    if (firstYearMargin - reportedMargin > HISTORY_MARGIN_GAP) {
+      warnings.push(`Year 1 gross margin (${firstYearMargin.toFixed(1)}%) is well above the ${reportedMargin.toFixed(1)}% reported for ${reported.label}: explain the improvement`);
+    }
+  }
+
+  // Lines in a currency without a rate are counted 1:1, which silently misstates the totals
+  if (scenario.drivers) {
+    const missing = missingFxRates(currenciesInUse(scenario.drivers), scenario.drivers.fxRates);
+    if (missing.length > 0) {
+      warnings.push(`No FX rate for ${missing.join(', ')}: those amounts are counted 1:1 in ${scenario.drivers.currency || DEFAULT_CURRENCY}`);
+    }
+  }
+
   // Scenario-aware market alignment validation
   const lastYear = projections[projections.length - 1];
-  const firstYear = projections[0];
   const avgGrossMargin = (lastYear.grossProfit / lastYear.revenue) * 100;
   const avgEbitdaMargin = (lastYear.ebitda / lastYear.revenue) * 100;
-  const cagr = ((Math.pow(lastYear.revenue / firstYear.revenue, 1/3) - 1) * 100);
+  const cagr = calculateRevenueCagr(projections);
   
   // Industry benchmark comparisons with scenario context
   if (avgGrossMargin < adjustedBenchmarks.metrics.grossMargin.avg * 0.8) {
@@ -1,4 +1,7 @@
 import { ScenarioData } from '../types';
+import { getTaxPolicy } from './taxService';
+import { createDefaultCapTable, totalShares } from './capTableService';
+import { npv } from './financialMath';
 
 export interface ValuationMetrics {
   dcfValuation: number;
@@ -24,11 +27,14 @@ export const calculateValuation = (scenario: ScenarioData, assumptions: {
   terminalGrowthRate?: number;
   sharesOutstanding?: number;
   industryMultiples?: { revenue: number; ebitda: number; pe: number };
+  country?: string;
 }): ValuationMetrics => {
   const wacc = assumptions.wacc || 0.15; // Higher WACC for early-stage startups
   const terminalGrowthRate = assumptions.terminalGrowthRate || 0.025;
-  const sharesOutstanding = assumptions.sharesOutstanding || 1000000;
+  const sharesOutstanding = assumptions.sharesOutstanding || totalShares(scenario.drivers?.capTable || createDefaultCapTable()) || 1000000;
   const multiples = assumptions.industryMultiples || { revenue: 4, ebitda: 20, pe: 25 }; // Lower multiples for early stage
+  // Statutory rate for years without a modelled tax charge and for the terminal year, once losses and holidays have run out
+  const taxRate = scenario.drivers?.taxRate ?? getTaxPolicy(assumptions.country || 'India').rate;
 
   const lastYear = scenario.projections[scenario.projections.length - 1];
   const firstYear = scenario.projections[0];
@@ -37,31 +43,36 @@ export const calculateValuation = (scenario: ScenarioData, assumptions: {
   const isEarlyStage = firstYear.revenue < 1000000 && firstYear.ebitda < 0; // < ₹10L and loss-making
   const stageMultiplier = isEarlyStage ? 0.6 : 1.0; // 40% discount for early stage
   
-  // Calculate present value of free cash flows
-  let presentValue = 0;
-  scenario.projections.forEach((proj, index) => {
-    const year = index + 1;
-    const discountFactor = Math.pow(1 + wacc, year);
-    const taxRate = 0.30; // India corporate tax rate
-    const capexRate = 0.03; // Lower CapEx for SaaS
-    const workingCapitalChange = Math.max(0, proj.revenue * 0.05); // 5% of revenue
+  // Calculate present value of free cash flows, each received at the end of its year
+  const freeCashFlows = scenario.projections.map(proj => {
+    const tax = proj.tax ?? Math.max(0, proj.ebitda - (proj.depreciation ?? 0)) * taxRate;
+    const capex = proj.capex ?? proj.revenue * 0.03; // Asset register when modelled, else lower CapEx for SaaS
+    // Cash tied up in receivables and stock net of payables; 5% of revenue without a modelled cash flow
+    const workingCapitalChange = proj.cashFlow ? -proj.cashFlow.changeInWorkingCapital : proj.revenue * 0.05;
     
     // For negative EBITDA companies, use revenue-based valuation
     const fcf = proj.ebitda > 0 ? 
-      proj.ebitda * (1 - taxRate) - (proj.revenue * capexRate) - workingCapitalChange :
+      proj.ebitda - tax - capex - workingCapitalChange :
       proj.revenue * 0.1; // 10% of revenue for loss-making companies
     
-    presentValue += Math.max(fcf, 0) / discountFactor;
+    return Math.max(fcf, 0);
   });
+  const presentValue = npv(wacc, [0, ...freeCashFlows]);
 
-  // Terminal value calculation
+  // Terminal value calculation; in steady state capex just replaces what depreciates
+  // and working capital only grows with the business
+  const terminalCapex = lastYear.depreciation ?? lastYear.revenue * 0.03;
+  const closingSheet = lastYear.balanceSheet;
+  const terminalWorkingCapital = closingSheet ?
+    (closingSheet.accountsReceivable + closingSheet.inventory - closingSheet.accountsPayable) * terminalGrowthRate :
+    lastYear.revenue * 0.05;
   const finalFCF = lastYear.ebitda > 0 ? 
-    lastYear.ebitda * (1 - 0.30) - (lastYear.revenue * 0.03) - (lastYear.revenue * 0.05) :
+    lastYear.ebitda - Math.max(0, lastYear.ebitda - (lastYear.depreciation ?? 0)) * taxRate - terminalCapex - terminalWorkingCapital :
     lastYear.revenue * 0.15; // 15% of revenue for terminal
     
   const terminalFCF = finalFCF * (1 + terminalGrowthRate);
   const terminalValue = terminalFCF / (wacc - terminalGrowthRate);
-  const discountedTerminalValue = terminalValue / Math.pow(1 + wacc, scenario.projections.length);
+  const discountedTerminalValue = npv(wacc, [...freeCashFlows.map(() => 0), terminalValue]);
 
   // For early-stage companies, use revenue multiples as primary valuation method
   // DCF is less reliable for loss-making companies
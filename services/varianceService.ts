@@ -0,0 +1,216 @@
+import { ActualPeriod, MonthlyPeriod, ScenarioData } from '../types';
+import { normalizeHeader, parseAmount, parseCsvRows, usesDecimalComma } from './csvUtils';
+import { parseMonth } from './periodUtils';
+import { getMonthlyProjections, isReportedActual } from './projectionEngine';
+import { baselineScenario } from './rollingForecastService';
+
+export type VarianceLine = 'revenue' | 'cogs' | 'grossProfit' | 'opex' | 'ebitda' | 'netIncome' | 'cashBalance';
+
+// FinancialYear lines compared; costs are favourable when actuals come in below plan
+export const VARIANCE_LINES: { line: VarianceLine; label: string; higherIsBetter: boolean }[] = [
+  { line: 'revenue', label: 'Revenue', higherIsBetter: true },
+  { line: 'cogs', label: 'COGS', higherIsBetter: false },
+  { line: 'grossProfit', label: 'Gross Profit', higherIsBetter: true },
+  { line: 'opex', label: 'OpEx', higherIsBetter: false },
+  { line: 'ebitda', label: 'EBITDA', higherIsBetter: true },
+  { line: 'netIncome', label: 'Net Income', higherIsBetter: true },
+  { line: 'cashBalance', label: 'Cash Balance', higherIsBetter: true }
+];
+
+export interface LineVariance {
+  line: VarianceLine;
+  label: string;
+  plan: number;
+  actual: number;
+  variance: number; // Actual less plan
+  variancePercent: number | null; // Of the plan; null when the plan is zero
+  favorable: boolean;
+}
+
+export interface PeriodVariance {
+  label: string; // "YYYY-MM" for a month, "Year N" for a projection year
+  months: string[]; // Months with actuals the comparison covers
+  lines: LineVariance[];
+}
+
+export interface VarianceReport {
+  total: PeriodVariance | null; // Every month with actuals inside the projection; cash is at the latest one reporting it
+  byYear: PeriodVariance[];
+  byMonth: PeriodVariance[];
+  outsidePlan: string[]; // Months with actuals the projection does not cover
+}
+
+type LineTotals = Record<VarianceLine, number>;
+
+// Column names recognised when importing actuals
+const ACTUALS_COLUMNS: Record<keyof ActualPeriod, string[]> = {
+  period: ['period', 'month', 'date'],
+  revenue: ['revenue', 'sales', 'total revenue', 'net sales', 'turnover'],
+  cogs: ['cogs', 'cost of sales', 'cost of goods sold', 'cost of revenue', 'direct costs'],
+  opex: ['opex', 'operating expenses', 'total operating expenses', 'expenses'],
+  netIncome: ['net income', 'net profit', 'profit', 'net profit loss', 'profit after tax'],
+  cashBalance: ['cash', 'cash balance', 'closing cash', 'bank balance', 'cash at bank']
+};
+
+const actualTotals = (month: ActualPeriod): LineTotals => ({
+  revenue: month.revenue,
+  cogs: month.cogs,
+  grossProfit: month.revenue - month.cogs,
+  opex: month.opex,
+  ebitda: month.revenue - month.cogs - month.opex,
+  netIncome: month.netIncome,
+  cashBalance: month.cashBalance ?? 0
+});
+
+const planTotals = (month: MonthlyPeriod): LineTotals => ({
+  revenue: month.revenue,
+  cogs: month.cogs,
+  grossProfit: month.grossProfit,
+  opex: month.opex,
+  ebitda: month.ebitda,
+  netIncome: month.netIncome,
+  cashBalance: month.cashBalance
+});
+
+// Flows add up over the months; cash is the latest month's closing balance
+const sumTotals = (totals: LineTotals[]): LineTotals => {
+  const sum = VARIANCE_LINES.reduce((result, { line }) => ({
+    ...result,
+    [line]: totals.reduce((total, months) => total + months[line], 0)
+  }), {} as LineTotals);
+  return { ...sum, cashBalance: totals[totals.length - 1]?.cashBalance ?? 0 };
+};
+
+// Cash is only compared when the actuals report a balance
+const compare = (label: string, months: string[], plan: LineTotals, actual: LineTotals, withCash: boolean): PeriodVariance => ({
+  label,
+  months,
+  lines: VARIANCE_LINES.filter(({ line }) => withCash || line !== 'cashBalance').map(({ line, label: lineLabel, higherIsBetter }) => {
+    const variance = actual[line] - plan[line];
+    return {
+      line,
+      label: lineLabel,
+      plan: plan[line],
+      actual: actual[line],
+      variance,
+      variancePercent: plan[line] !== 0 ? (variance / Math.abs(plan[line])) * 100 : null,
+      favorable: higherIsBetter ? variance >= 0 : variance <= 0
+    };
+  })
+});
+
+/**
+ * Actuals against the scenario's plan for the same calendar months, by month, by projection year and in total.
+ * Once the forecast has been rolled forward the plan is the original baseline, not the re-projected forecast.
+ * Rows still all zero are not compared, and cash only where a month reports its balance.
+ */
+export const calculateVariance = (scenario: ScenarioData): VarianceReport => {
+  const planMonths = getMonthlyProjections(baselineScenario(scenario));
+  const actuals = [...(scenario.actuals || [])]
+    .filter(actual => parseMonth(actual.period) === actual.period && isReportedActual(actual))
+    .sort((a, b) => a.period.localeCompare(b.period));
+  const matched = actuals
+    .map(actual => ({ actual, plan: planMonths.find(month => month.period === actual.period) }))
+    .filter((pair): pair is { actual: ActualPeriod; plan: MonthlyPeriod } => !!pair.plan);
+
+  // Flows cover every month; cash is compared at the latest month with a reported balance
+  const compareMonths = (label: string, pairs: typeof matched) => {
+    const cashPair = [...pairs].reverse().find(pair => pair.actual.cashBalance !== undefined);
+    return compare(
+      label,
+      pairs.map(pair => pair.actual.period),
+      { ...sumTotals(pairs.map(pair => planTotals(pair.plan))), cashBalance: cashPair?.plan.cashBalance ?? 0 },
+      { ...sumTotals(pairs.map(pair => actualTotals(pair.actual))), cashBalance: cashPair?.actual.cashBalance ?? 0 },
+      !!cashPair
+    );
+  };
+
+  const years = [...new Set(matched.map(pair => pair.plan.year))];
+  return {
+    total: matched.length > 0 ? compareMonths('All tracked months', matched) : null,
+    byYear: years.map(year => compareMonths(`Year ${year}`, matched.filter(pair => pair.plan.year === year))),
+    byMonth: matched.map(pair => compareMonths(pair.actual.period, [pair])),
+    outsidePlan: actuals.filter(actual => !planMonths.some(month => month.period === actual.period)).map(actual => actual.period)
+  };
+};
+
+/**
+ * Lines furthest off plan, largest absolute variance first; cash is left out as it compounds every other line
+ */
+export const largestVariances = (period: PeriodVariance, count: number = 3): LineVariance[] =>
+  period.lines
+    .filter(line => line.line !== 'cashBalance' && line.variance !== 0)
+    .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance))
+    .slice(0, count);
+
+/**
+ * New actuals row with the figures left at zero and no cash balance; it counts once a figure is entered
+ */
+export const createActualPeriod = (period: string): ActualPeriod => ({
+  period,
+  revenue: 0,
+  cogs: 0,
+  opex: 0,
+  netIncome: 0
+});
+
+/**
+ * Clamp entered actuals into shape; rows with an unfinished month are kept but not compared
+ */
+export const sanitizeActuals = (actuals: ActualPeriod[] | undefined): ActualPeriod[] | undefined => {
+  if (!Array.isArray(actuals)) return undefined;
+
+  const amount = (value: unknown) => Number.isFinite(Number(value)) ? Number(value) : 0;
+  return actuals.filter(Boolean).map(actual => ({
+    period: String(actual.period ?? ''),
+    revenue: Math.max(0, amount(actual.revenue)),
+    cogs: Math.max(0, amount(actual.cogs)),
+    opex: Math.max(0, amount(actual.opex)),
+    netIncome: amount(actual.netIncome),
+    ...(actual.cashBalance !== undefined && actual.cashBalance !== null && Number.isFinite(Number(actual.cashBalance))
+      ? { cashBalance: Number(actual.cashBalance) }
+      : {})
+  }));
+};
+
+/**
+ * Read monthly actuals from CSV with a header row. Columns are matched by name ("Month", "Revenue", "COGS",
+ * "Operating Expenses", "Net Income", "Cash"...); net income defaults to EBITDA when there is no such column.
+ * Months without a cash figure are left without a balance. Rows without a recognisable month are skipped.
+ */
+export const parseActualsCsv = (text: string): ActualPeriod[] => {
+  const [header = [], ...rows] = parseCsvRows(text);
+  const decimalComma = usesDecimalComma(text);
+  const headers = header.map(normalizeHeader);
+  const columnOf = (field: keyof ActualPeriod) => headers.findIndex(name => ACTUALS_COLUMNS[field].includes(name));
+  const columns = Object.fromEntries(Object.keys(ACTUALS_COLUMNS).map(field => [field, columnOf(field as keyof ActualPeriod)])) as Record<keyof ActualPeriod, number>;
+  if (columns.period < 0) return [];
+
+  const byPeriod = new Map<string, ActualPeriod>();
+  rows.forEach(cells => {
+    const period = parseMonth(cells[columns.period] || '');
+    if (!period) return;
+    const cell = (field: keyof ActualPeriod) => columns[field] >= 0 ? parseAmount(cells[columns[field]], decimalComma) : NaN;
+    const value = (field: keyof ActualPeriod) => Number.isFinite(cell(field)) ? cell(field) : 0;
+    const cashBalance = cell('cashBalance');
+    const revenue = value('revenue');
+    const cogs = Math.abs(value('cogs'));
+    const opex = Math.abs(value('opex'));
+    byPeriod.set(period, {
+      period,
+      revenue,
+      cogs,
+      opex,
+      netIncome: columns.netIncome >= 0 ? value('netIncome') : revenue - cogs - opex,
+      ...(Number.isFinite(cashBalance) ? { cashBalance } : {})
+    });
+  });
+  return [...byPeriod.values()];
+};
+
+/**
+ * Imported months replace entered months with the same period; the result is in calendar order
+ */
+export const mergeActuals = (existing: ActualPeriod[], imported: ActualPeriod[]): ActualPeriod[] =>
+  [...existing.filter(actual => !imported.some(other => other.period === actual.period)), ...imported]
+    .sort((a, b) => a.period.localeCompare(b.period));
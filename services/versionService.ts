@@ -0,0 +1,246 @@
+import { FinancialYear, ModelVersion, ProjectionDrivers, ScenarioData, UserInput } from '../types';
+import { calculateScenarioRunway } from './runwayUtils';
+import { calculateValuation } from './valuationService';
+import { getIndustryBenchmarks } from './marketBenchmarks';
+
+// Oldest snapshots beyond this are dropped, apart from the model as generated
+const MAX_VERSIONS = 50;
+
+// Differences smaller than this are rounding, not changes
+const CELL_TOLERANCE = 0.5;
+
+type ValueFormat = 'amount' | 'percent' | 'number' | 'text';
+
+// One assumption that differs between two versions, with both values already formatted
+export interface AssumptionChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface CellChange {
+  field: keyof FinancialYear;
+  label: string;
+  before: number;
+  after: number;
+}
+
+export interface YearDiff {
+  year: number;
+  cells: CellChange[]; // Every compared line, changed or not
+}
+
+// Runway and DCF valuation of a scenario in each version
+export interface ScenarioImpact {
+  runwayBefore: number; // Months
+  runwayAfter: number;
+  valuationBefore: number;
+  valuationAfter: number;
+}
+
+export interface ScenarioDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  assumptions: AssumptionChange[];
+  years: YearDiff[];
+  impact?: ScenarioImpact; // When the scenario is in both versions
+}
+
+export interface VersionDiff {
+  inputs: AssumptionChange[];
+  scenarios: ScenarioDiff[];
+}
+
+// Inputs from the input form compared between versions
+const INPUT_FIELDS: { field: keyof UserInput; label: string; format: ValueFormat }[] = [
+  { field: 'companyName', label: 'Company name', format: 'text' },
+  { field: 'industry', label: 'Industry', format: 'text' },
+  { field: 'country', label: 'Country', format: 'text' },
+  { field: 'currency', label: 'Currency', format: 'text' },
+  { field: 'currentRevenue', label: 'Current annual revenue', format: 'amount' },
+  { field: 'currentExpenses', label: 'Monthly expenses', format: 'amount' },
+  { field: 'currentCash', label: 'Cash in bank', format: 'amount' },
+  { field: 'projectionYears', label: 'Projection years', format: 'number' },
+  { field: 'businessContext', label: 'Business context', format: 'text' }
+];
+
+// Scalar drivers compared value by value
+const DRIVER_FIELDS: { field: keyof ProjectionDrivers; label: string; format: ValueFormat }[] = [
+  { field: 'baseRevenue', label: 'Base revenue', format: 'amount' },
+  { field: 'revenueGrowthRate', label: 'Revenue growth', format: 'percent' },
+  { field: 'cogsRatio', label: 'COGS ratio', format: 'percent' },
+  { field: 'baseOpex', label: 'Base OpEx', format: 'amount' },
+  { field: 'opexGrowthRate', label: 'OpEx growth', format: 'percent' },
+  { field: 'taxRate', label: 'Tax rate', format: 'percent' },
+  { field: 'taxHolidayYears', label: 'Tax holiday years', format: 'number' },
+  { field: 'lossCarryForwardYears', label: 'Loss carry-forward years', format: 'number' },
+  { field: 'lossOffsetCap', label: 'Loss offset cap', format: 'percent' },
+  { field: 'startingCash', label: 'Starting cash', format: 'amount' },
+  { field: 'startMonth', label: 'Start month', format: 'text' },
+  { field: 'receivableDays', label: 'Receivable days', format: 'number' },
+  { field: 'payableDays', label: 'Payable days', format: 'number' },
+  { field: 'inventoryDays', label: 'Inventory days', format: 'number' }
+];
+
+// Plans and registers compared as a whole; lists report their length
+const DRIVER_SECTIONS: { field: keyof ProjectionDrivers; label: string }[] = [
+  { field: 'revenueStreams', label: 'Revenue streams' },
+  { field: 'opexLines', label: 'OpEx lines' },
+  { field: 'headcount', label: 'Headcount plan' },
+  { field: 'fixedAssets', label: 'Fixed assets' },
+  { field: 'debt', label: 'Debt facilities' },
+  { field: 'capTable', label: 'Cap table' },
+  { field: 'fxRates', label: 'Exchange rates' },
+  { field: 'inflation', label: 'Inflation' },
+  { field: 'seasonality', label: 'Seasonality' }
+];
+
+// Annual lines shown in the diff; optional lines only when either version has them
+const YEAR_FIELDS: { field: keyof FinancialYear; label: string }[] = [
+  { field: 'revenue', label: 'Revenue' },
+  { field: 'cogs', label: 'COGS' },
+  { field: 'grossProfit', label: 'Gross Profit' },
+  { field: 'opex', label: 'OpEx' },
+  { field: 'payroll', label: 'Payroll' },
+  { field: 'ebitda', label: 'EBITDA' },
+  { field: 'depreciation', label: 'Depreciation' },
+  { field: 'interest', label: 'Interest' },
+  { field: 'tax', label: 'Tax' },
+  { field: 'netIncome', label: 'Net Income' },
+  { field: 'cashBalance', label: 'Cash Balance' },
+  { field: 'headcount', label: 'Headcount' }
+];
+
+const formatValue = (value: unknown, format: ValueFormat): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  if (format === 'text') return String(value);
+  const number = Number(value);
+  if (format === 'percent') return `${(number * 100).toFixed(1)}%`;
+  return Math.round(number).toLocaleString();
+};
+
+const describeSection = (value: unknown): string =>
+  value === undefined ? 'none' : Array.isArray(value) ? `${value.length} ${value.length === 1 ? 'entry' : 'entries'}` : 'set';
+
+/**
+ * Snapshot of the model's current inputs and scenarios
+ */
+export const createVersion = (userInput: UserInput, scenarios: ScenarioData[], note: string): ModelVersion => ({
+  id: crypto.randomUUID(),
+  createdAt: new Date().toISOString(),
+  note: note.trim() || 'Saved version',
+  userInput,
+  scenarios
+});
+
+/**
+ * Versions with a new snapshot appended; past the limit the oldest after the first are dropped
+ */
+export const addVersion = (versions: ModelVersion[], version: ModelVersion): ModelVersion[] => {
+  const all = [...versions, version];
+  return all.length > MAX_VERSIONS ? [all[0], ...all.slice(all.length - MAX_VERSIONS + 1)] : all;
+};
+
+/**
+ * Runway in months and DCF valuation of a scenario, valued the way the dashboard values it; a rolled-forward
+ * scenario's runway runs from the months after its latest actuals
+ */
+export const scenarioImpact = (scenario: ScenarioData, userInput: UserInput): { runway: number; valuation: number } => {
+  const benchmarks = getIndustryBenchmarks(userInput.industry || 'SaaS');
+  const valuation = calculateValuation(scenario, {
+    wacc: 0.12,
+    terminalGrowthRate: 0.025,
+    country: userInput.country,
+    industryMultiples: {
+      revenue: benchmarks.valuation.revenueMultiple.avg,
+      ebitda: benchmarks.valuation.ebitdaMultiple.avg,
+      pe: 25
+    }
+  });
+  return { runway: calculateScenarioRunway(scenario).months, valuation: valuation.dcfValuation };
+};
+
+// Drivers and written assumptions of one scenario that differ between versions
+const diffAssumptions = (before: ScenarioData, after: ScenarioData): AssumptionChange[] => {
+  const drivers = DRIVER_FIELDS
+    .filter(({ field }) => before.drivers?.[field] !== after.drivers?.[field])
+    .map(({ label, field, format }) => ({ label, before: formatValue(before.drivers?.[field], format), after: formatValue(after.drivers?.[field], format) }));
+  const sections = DRIVER_SECTIONS
+    .filter(({ field }) => JSON.stringify(before.drivers?.[field]) !== JSON.stringify(after.drivers?.[field]))
+    .map(({ label, field }) => {
+      const [was, now] = [describeSection(before.drivers?.[field]), describeSection(after.drivers?.[field])];
+      return { label, before: was, after: was === now ? `${now}, edited` : now };
+    });
+  const removed = before.assumptions.filter(text => !after.assumptions.includes(text));
+  const added = after.assumptions.filter(text => !before.assumptions.includes(text));
+  const written = [
+    ...removed.map(text => ({ label: 'Assumption removed', before: text, after: '-' })),
+    ...added.map(text => ({ label: 'Assumption added', before: '-', after: text }))
+  ];
+  return [...drivers, ...sections, ...written];
+};
+
+// Every annual line in both versions, matched by projection year; a year only one version reaches reads as zero
+const diffYears = (before: FinancialYear[], after: FinancialYear[]): YearDiff[] => {
+  const fields = YEAR_FIELDS.filter(({ field }) => [...before, ...after].some(year => year[field] !== undefined));
+  const years = [...new Set([...before, ...after].map(year => year.year))].sort((a, b) => a - b);
+  return years.map(year => {
+    const was = before.find(other => other.year === year);
+    const now = after.find(other => other.year === year);
+    return {
+      year,
+      cells: fields.map(({ field, label }) => ({
+        field,
+        label,
+        before: Number(was?.[field] ?? 0),
+        after: Number(now?.[field] ?? 0)
+      }))
+    };
+  });
+};
+
+/**
+ * Whether a cell differs by more than rounding
+ */
+export const isCellChanged = (cell: CellChange): boolean => Math.abs(cell.after - cell.before) > CELL_TOLERANCE;
+
+/**
+ * What changed from one version to another: the inputs, and per scenario (matched by name) the assumptions,
+ * every annual cell and the effect on runway and valuation
+ */
+export const diffVersions = (
+  before: Pick<ModelVersion, 'userInput' | 'scenarios'>,
+  after: Pick<ModelVersion, 'userInput' | 'scenarios'>
+): VersionDiff => {
+  const inputs = INPUT_FIELDS
+    .filter(({ field }) => JSON.stringify(before.userInput[field]) !== JSON.stringify(after.userInput[field]))
+    .map(({ label, field, format }) => ({ label, before: formatValue(before.userInput[field], format), after: formatValue(after.userInput[field], format) }));
+
+  const names = [...new Set([...before.scenarios, ...after.scenarios].map(scenario => scenario.name))];
+  const scenarios = names.map((name): ScenarioDiff => {
+    const was = before.scenarios.find(scenario => scenario.name === name);
+    const now = after.scenarios.find(scenario => scenario.name === name);
+    if (!was || !now) {
+      return { name, status: was ? 'removed' : 'added', assumptions: [], years: diffYears(was?.projections ?? [], now?.projections ?? []) };
+    }
+    const assumptions = diffAssumptions(was, now);
+    const years = diffYears(was.projections, now.projections);
+    const impactBefore = scenarioImpact(was, before.userInput);
+    const impactAfter = scenarioImpact(now, after.userInput);
+    const changed = assumptions.length > 0 || years.some(year => year.cells.some(isCellChanged));
+    return {
+      name,
+      status: changed ? 'changed' : 'unchanged',
+      assumptions,
+      years,
+      impact: {
+        runwayBefore: impactBefore.runway,
+        runwayAfter: impactAfter.runway,
+        valuationBefore: impactBefore.valuation,
+        valuationAfter: impactAfter.valuation
+      }
+    };
+  });
+
+  return { inputs, scenarios };
+};
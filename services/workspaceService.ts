@@ -0,0 +1,128 @@
+import { SavedModel, ScenarioData, UserInput } from '../types';
+import { createVersion } from './versionService';
+
+const DB_NAME = 'finvision-workspace';
+const DB_VERSION = 1;
+const MODEL_STORE = 'models';
+
+// Model reopened after a page refresh
+const OPEN_MODEL_KEY = 'finvision-open-model';
+
+let database: Promise<IDBDatabase> | undefined;
+
+// One connection for the session, created with the model store on first use
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(MODEL_STORE)) {
+          request.result.createObjectStore(MODEL_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open is retried on the next call
+    database.catch(() => { database = undefined; });
+  }
+  return database;
+};
+
+// Run one request against the model store and resolve with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(MODEL_STORE, mode).objectStore(MODEL_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * A new, unsaved model named after the company and the day it was generated, with the generated numbers as its
+ * first version
+ */
+export const createModel = (userInput: UserInput, scenarios: ScenarioData[]): SavedModel => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: `${userInput.companyName?.trim() || 'Untitled model'} (${now.slice(0, 10)})`,
+    createdAt: now,
+    updatedAt: now,
+    userInput,
+    scenarios,
+    aiAnalysis: {},
+    chatHistory: [],
+    versions: [createVersion(userInput, scenarios, 'Generated')]
+  };
+};
+
+/**
+ * Every saved model, most recently changed first
+ */
+export const listModels = async (): Promise<SavedModel[]> => {
+  const models = await withStore<SavedModel[]>('readonly', store => store.getAll());
+  return models.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * A saved model by id; undefined when it has been deleted
+ */
+export const loadModel = async (id: string): Promise<SavedModel | undefined> =>
+  withStore<SavedModel | undefined>('readonly', store => store.get(id));
+
+/**
+ * Store a model, replacing any earlier version, and stamp when it changed
+ */
+export const saveModel = async (model: SavedModel): Promise<SavedModel> => {
+  const saved = { ...model, updatedAt: new Date().toISOString() };
+  await withStore('readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Save a copy of a model under a new id; the copy starts with the original's AI text and chat
+ */
+export const duplicateModel = async (model: SavedModel): Promise<SavedModel> => {
+  const now = new Date().toISOString();
+  return saveModel({ ...model, id: crypto.randomUUID(), name: `${model.name} (copy)`, createdAt: now });
+};
+
+/**
+ * Rename a saved model; blank names are ignored
+ */
+export const renameModel = async (model: SavedModel, name: string): Promise<SavedModel> =>
+  name.trim() ? saveModel({ ...model, name: name.trim() }) : model;
+
+/**
+ * Remove a model from the workspace
+ */
+export const deleteModel = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  if (getOpenModelId() === id) setOpenModelId(undefined);
+};
+
+/**
+ * Id of the model open in the dashboard, remembered across page refreshes
+ */
+export const getOpenModelId = (): string | undefined => localStorage.getItem(OPEN_MODEL_KEY) ?? undefined;
+
+/**
+ * Remember the model open in the dashboard; undefined when back on the input form
+ */
+export const setOpenModelId = (id: string | undefined): void => {
+  if (id) localStorage.setItem(OPEN_MODEL_KEY, id);
+  else localStorage.removeItem(OPEN_MODEL_KEY);
+};
+
+/**
+ * Short fingerprint of a scenario's projections, so cached AI commentary is only reused for the figures it was
+ * written about
+ */
+export const scenarioFingerprint = (scenario: ScenarioData): string => {
+  const text = JSON.stringify(scenario.projections);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash * 33) ^ text.charCodeAt(i)) >>> 0;
+  return `${text.length}-${hash.toString(36)}`;
+};
@@ -1,12 +1,291 @@
-export interface FinancialYear {
-  year: number;
+// Closing position at the end of a period; assets always equal liabilities plus equity
+export interface BalanceSheet {
+  cash: number;
+  accountsReceivable: number;
+  inventory: number;
+  fixedAssets: number; // Net of accumulated depreciation
+  totalAssets: number;
+  accountsPayable: number;
+  debt: number;
+  totalLiabilities: number;
+  paidInCapital: number;
+  retainedEarnings: number;
+  totalEquity: number;
+}
+
+// Indirect-method cash flow for a period, starting from net income
+export interface CashFlowStatement {
+  netIncome: number;
+  depreciation: number;
+  stockBasedCompensation: number; // Non-cash expense added back
+  changeInWorkingCapital: number; // Cash released (+) or absorbed (-) by receivables and payables
+  operatingCashFlow: number;
+  capex: number;
+  investingCashFlow: number;
+  netBorrowing: number;
+  equityRaised: number;
+  financingCashFlow: number;
+  netChangeInCash: number;
+}
+
+// Revenue, COGS and gross profit of one revenue stream within a period
+export interface StreamFinancials {
+  streamId: string;
+  name: string;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+}
+
+export type OpexCategory = 'payroll' | 'marketing' | 'rnd' | 'gAndA' | 'rent' | 'cloud';
+
+// Opex by category; the categories always sum to the period's opex
+export type OpexBreakdown = Record<OpexCategory, number>;
+
+// P&L and cash lines shared by every period granularity
+export interface PeriodFinancials {
   revenue: number;
   cogs: number;
   grossProfit: number;
   opex: number;
   ebitda: number;
   netIncome: number;
-  cashBalance: number;
+  cashBalance: number; // Closing balance for the period
+  payroll?: number; // Part of opex generated by the headcount plan
+  headcount?: number; // Employees on payroll at the end of the period
+  revenueStreams?: StreamFinancials[]; // Breakdown of revenue, cogs and grossProfit when the scenario has streams
+  opexBreakdown?: OpexBreakdown; // Present when the scenario has categorized opex lines
+  depreciation?: number; // Charged below EBITDA; present when the scenario has a fixed-asset register
+  capex?: number; // Fixed-asset purchases in the period; present alongside depreciation
+  interest?: number; // Interest expense on borrowings; present when the scenario has debt
+  stockBasedCompensation?: number; // Non-cash part of opex from option grants; present when options are granted
+  tax?: number; // Corporate tax charged after loss relief and any tax holiday
+  taxLossesCarriedForward?: number; // Unused tax losses at the end of the period
+  balanceSheet?: BalanceSheet;
+  cashFlow?: CashFlowStatement;
+}
+
+export interface FinancialYear extends PeriodFinancials {
+  year: number;
+}
+
+export interface MonthlyPeriod extends PeriodFinancials {
+  month: number; // 1-based index from the start of the projection
+  year: number; // Projection year the month belongs to
+  period: string; // Calendar month, "YYYY-MM"
+}
+
+export interface QuarterlyPeriod extends PeriodFinancials {
+  year: number;
+  quarter: number; // 1-4 within the projection year
+  label: string; // "Y1 Q1"
+}
+
+export type Department = 'Engineering' | 'Product' | 'Sales' | 'Marketing' | 'Operations' | 'G&A';
+
+// One line of the headcount plan: `count` people in the same role, hired together
+export interface HeadcountRole {
+  id: string;
+  role: string;
+  department: Department;
+  country: string; // Where the hire is based; drives the default salary via the country salary multiplier
+  count: number;
+  startMonth: string; // First month on payroll, "YYYY-MM"
+  endMonth?: string; // Last month on payroll, "YYYY-MM"; open-ended when omitted
+  annualSalary?: number; // Per person; defaults to the department benchmark for the country
+  benefitsLoad: number; // Employer costs on top of salary, as a decimal (0.2 = 20%)
+  currency?: string; // Currency annualSalary is entered in; the model currency when omitted
+  optionsPerHead?: number; // Options granted to each hire in their start month, on the ESOP plan's standard terms
+}
+
+// A named source of revenue with its own growth and margin profile
+export interface RevenueStream {
+  id: string;
+  name: string; // "Subscription", "Services", "Usage"
+  baseRevenue: number; // Trailing annual revenue of the stream
+  growthRate: number;
+  cogsRatio: number; // COGS as a share of the stream's revenue
+  currency?: string; // Currency baseRevenue is entered in; the model currency when omitted
+}
+
+// Driver for one opex category: either a growing annual amount or a share of revenue
+export interface OpexLine {
+  category: OpexCategory;
+  method: 'growth' | 'percentOfRevenue';
+  baseAmount: number; // Trailing annual amount ('growth' method)
+  growthRate?: number; // Annual growth ('growth' method); follows opexGrowthRate when omitted
+  revenueShare: number; // Share of revenue ('percentOfRevenue' method)
+  currency?: string; // Currency baseAmount is entered in; the model currency when omitted
+}
+
+export type DepreciationMethod = 'straightLine' | 'decliningBalance';
+
+// One entry in the fixed-asset register
+export interface FixedAsset {
+  id: string;
+  name: string;
+  cost: number;
+  purchaseMonth: string; // "YYYY-MM"; assets bought before the projection start are on the opening balance sheet
+  usefulLifeYears: number;
+  method: DepreciationMethod; // 'decliningBalance' is double-declining, written down to salvage in the final month
+  salvageValue: number;
+  currency?: string; // Currency cost and salvageValue are entered in; the model currency when omitted
+}
+
+export type DebtRepayment = 'amortizing' | 'straightLine' | 'bullet';
+
+// A borrowing facility. Term loans are drawn in full in their start month; credit lines are drawn
+// automatically whenever cash would go negative, up to `amount`, and repaid from surplus cash.
+export interface DebtFacility {
+  id: string;
+  name: string;
+  kind: 'termLoan' | 'creditLine';
+  amount: number; // Principal of a term loan, or the limit of a credit line
+  annualRate: number; // Interest as a decimal, charged monthly on the opening balance
+  startMonth: string; // "YYYY-MM"
+  termMonths: number; // Months until the facility must be fully repaid
+  repayment: DebtRepayment; // Term loans: equal instalments, equal principal, or all principal at maturity
+  currency?: string; // Currency the facility is denominated in; the model currency when omitted
+}
+
+export interface ShareClass {
+  id: string;
+  name: string; // e.g. "Common", "Seed Preferred"
+  kind: 'common' | 'preferred';
+  // Liquidation preference terms, used by preferred classes only
+  investedAmount?: number; // Capital paid in for the class
+  preferenceMultiple?: number; // Preference paid at exit as a multiple of investedAmount; 1 when omitted
+  participating?: boolean; // Also shares in the residual after taking the preference
+  seniority?: number; // Higher ranks are paid first; classes of equal rank share pro rata
+}
+
+export type ShareholderRole = 'founder' | 'employee' | 'investor' | 'esop';
+
+// A line of the cap table; the unallocated option pool is a holder with the 'esop' role
+export interface Shareholder {
+  id: string;
+  name: string;
+  role: ShareholderRole;
+  shareClassId: string;
+  shares: number;
+}
+
+export type ConvertibleKind = 'postMoneySafe' | 'preMoneySafe' | 'note';
+
+// A SAFE or convertible note, outstanding until the next priced round converts it into that round's shares
+export interface ConvertibleInstrument {
+  id: string;
+  name: string;
+  kind: ConvertibleKind;
+  amount: number; // Amount invested, or the note's principal
+  valuationCap: number; // 0 when uncapped
+  discount: number; // Discount to the round price as a decimal; 0 when none
+  annualInterestRate: number; // Notes only: simple interest accrued until conversion
+  issueMonth: string; // "YYYY-MM"
+}
+
+// Options granted out of the pool; expensed straight-line over vesting at their grant-date fair value
+export interface OptionGrant {
+  id: string;
+  name: string;
+  options: number;
+  grantMonth: string; // "YYYY-MM"
+  vestingMonths: number;
+  cliffMonths: number; // Nothing vests before the cliff; the cliff month vests everything accrued so far
+  fairValuePerOption: number;
+}
+
+// Enlarges the unallocated pool just before a priced round, at the existing holders' expense
+export interface PoolTopUp {
+  id: string;
+  round: string; // Name of the round, e.g. "Series A"
+  targetPercent: number; // Unallocated pool as a decimal share of the post-money fully diluted shares
+}
+
+export interface EsopPlan {
+  fairValuePerOption: number; // Standard terms for grants made through the headcount plan
+  vestingMonths: number;
+  cliffMonths: number;
+  grants: OptionGrant[];
+  topUps: PoolTopUp[];
+}
+
+export interface CapTable {
+  shareClasses: ShareClass[];
+  holders: Shareholder[];
+  convertibles?: ConvertibleInstrument[]; // Outstanding SAFEs and notes
+  esop?: EsopPlan; // Grants are made out of the 'esop' holder's shares
+}
+
+// Exchange rate quoted against the US dollar, e.g. 83 for INR
+export interface FxRate {
+  currency: string; // ISO 4217 code
+  unitsPerUsd: number;
+}
+
+// Annual consumer price inflation assumed for a country
+export interface CountryInflation {
+  country: string;
+  annualRate: number; // Decimal, e.g. 0.05
+}
+
+export interface InflationAssumptions {
+  enabled: boolean; // Index payroll and growth-driven opex to inflation; their growth rates are then real growth on top
+  country: string; // Where non-payroll costs are incurred; also the price level real-terms views deflate by
+  rates?: CountryInflation[]; // Overrides of the indicative country rates
+}
+
+// Calendar-month shape of a year's revenue, January first
+export interface SeasonalityProfile {
+  name: string; // Industry preset it started from, or 'Custom' once edited
+  weights: number[]; // 12 relative weights; an average month is 1
+}
+
+// Structured assumptions the projection engine turns into FinancialYear[].
+// Rates are decimals (0.25 = 25%); amounts are annual, in the model currency.
+export interface ProjectionDrivers {
+  baseRevenue: number; // Trailing annual revenue the projection grows from
+  revenueGrowthRate: number;
+  cogsRatio: number; // COGS as a share of revenue
+  baseOpex: number; // Trailing annual operating expenses outside the headcount plan
+  opexGrowthRate: number;
+  taxRate: number; // Applied to positive year-to-date EBITDA after loss relief
+  lossCarryForwardYears?: number; // Years a tax loss can be carried forward; unlimited when omitted
+  lossOffsetCap?: number; // Share of a year's profit carried-forward losses may shield; 1 when omitted
+  taxHolidayYears?: number; // Opening projection years exempt from corporate tax
+  startingCash: number;
+  currency?: string; // Model currency, ISO 4217; lines entered in other currencies are converted into it
+  fxRates?: FxRate[]; // Rates for converting lines into the model currency and the model into the reporting currency
+  inflation?: InflationAssumptions; // Prices held flat when omitted or disabled
+  seasonality?: SeasonalityProfile; // Spreads revenue, and the COGS and OpEx that track it, across each year; even when omitted
+  receivableDays?: number; // Days of revenue outstanding as receivables
+  payableDays?: number; // Days of COGS and OpEx outstanding as payables
+  inventoryDays?: number; // Days of COGS held as inventory
+  startMonth?: string; // First projected month, "YYYY-MM"; defaults to next month
+  headcount?: HeadcountRole[]; // Planned team; its payroll is added to opex
+  revenueStreams?: RevenueStream[]; // When present, replace baseRevenue/revenueGrowthRate/cogsRatio as the revenue model
+  opexLines?: OpexLine[]; // When present, replace baseOpex as the opex model; headcount payroll adds to the payroll line
+  fixedAssets?: FixedAsset[]; // Register driving capex and depreciation
+  debt?: DebtFacility[]; // Borrowings; interest is charged below EBITDA and principal flows through financing
+  capTable?: CapTable; // Ownership today; funding rounds are simulated on top of it
+}
+
+// Reported results for one calendar month, tracked against a scenario's plan; amounts in the model currency
+export interface ActualPeriod {
+  period: string; // "YYYY-MM"
+  revenue: number;
+  cogs: number;
+  opex: number;
+  netIncome: number;
+  cashBalance?: number; // Month-end; omitted when not reported
+}
+
+// Forecast rolled forward over actuals: closed months are locked, the rest re-projects from the latest actuals
+export interface RollingForecast {
+  planStartMonth: string; // First month of the original plan; months and years keep counting from it
+  closedThrough: string; // Last month locked to actuals, "YYYY-MM"; the drivers project from the month after
+  rolledAt: string; // ISO timestamp of the latest roll-forward
+  baseline: Pick<ScenarioData, 'projections' | 'monthlyProjections' | 'drivers'>; // Original plan, kept for comparison
 }
 
 export interface ScenarioData {
@@ -14,6 +293,10 @@ export interface ScenarioData {
   description: string;
   assumptions: string[];
   projections: FinancialYear[];
+  monthlyProjections?: MonthlyPeriod[]; // Source of the annual and quarterly roll-ups
+  drivers?: ProjectionDrivers; // Present when projections come from the engine
+  actuals?: ActualPeriod[]; // Reported months to compare with the plan
+  rollingForecast?: RollingForecast; // Present once the forecast has been rolled forward over actuals
 }
 
 export interface BenchmarkData {
@@ -23,15 +306,96 @@ export interface BenchmarkData {
   sources: { title: string; uri: string }[];
 }
 
+// Reported results for one past financial year, imported from the accounts; amounts in the input currency
+export interface HistoricalYear {
+  label: string; // "FY2025"; the year the period ends in
+  months: number; // Months the figures cover; fewer than 12 for a year to date
+  revenue: number;
+  cogs: number;
+  opex: number;
+  netIncome: number; // After other income and expenses, as reported
+  cashBalance?: number; // At the period end, when the export includes cash or bank balances
+}
+
+export type TransactionCategory = 'revenue' | 'payroll' | 'vendors' | 'tax' | 'transfer';
+
+// One line of an imported bank statement; transfers cover moves between own accounts, loans and equity
+export interface BankTransaction {
+  date: string; // As written on the statement
+  month: string; // "YYYY-MM"
+  description: string;
+  amount: number; // Money in is positive, money out negative
+  balance?: number; // Running balance after the line, when the statement has one
+  category: TransactionCategory;
+  categorizedBy: 'rule' | 'default' | 'ai' | 'user'; // 'default' when no rule matched the description
+}
+
+// Average monthly cash flows over a trailing window of bank statements
+export interface BurnMeasure {
+  months: number; // Calendar months averaged
+  revenue: number; // Money in from customers
+  grossBurn: number; // Money out on payroll, vendors and tax
+  netBurn: number; // Gross burn less revenue; negative when the business generates cash
+}
+
+// Burn measured from bank statements, used in place of the typed-in monthly expenses
+export interface MeasuredBurn {
+  throughMonth: string; // Latest month in the statements, "YYYY-MM"
+  trailing3: BurnMeasure;
+  trailing6: BurnMeasure; // Covers fewer months when less than six are loaded
+  basis: 3 | 6; // Window that feeds runway and the founder scenarios
+  cashBalance?: number; // Closing balance of the latest statement line, when the statements carry balances
+}
+
 export interface UserInput {
   companyName: string;
   industry: string;
   country: string;
   currency: string;
+  reportingCurrency?: string; // Currency views, exports and the PDF are rendered in; `currency` when omitted
+  realTerms?: boolean; // Show projections in year-1 prices of the model's home country rather than nominal
   currentRevenue: number;
   currentExpenses: number;
   currentCash: number;
   businessContext: string; // Description for AI context
+  projectionYears?: number; // Projection horizon, 3 to 10 years (defaults to 3)
+  history?: HistoricalYear[]; // Past results from imported accounts, oldest first
+  measuredBurn?: MeasuredBurn; // From imported bank statements; currentExpenses is set from its gross burn
+}
+
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'bot';
+  message: string;
+  timestamp: Date;
+}
+
+// AI commentary kept with the scenario it was written for
+export interface CachedAnalysis {
+  fingerprint: string; // Of the projections analysed; a changed scenario needs fresh commentary
+  text: string;
+}
+
+// Snapshot of a model's inputs and scenarios, kept so earlier numbers can be compared or restored
+export interface ModelVersion {
+  id: string;
+  createdAt: string; // ISO timestamp
+  note: string;
+  userInput: UserInput;
+  scenarios: ScenarioData[];
+}
+
+// A model kept in the local workspace, with everything needed to reopen it without regenerating
+export interface SavedModel {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+  userInput: UserInput;
+  scenarios: ScenarioData[];
+  aiAnalysis: Record<string, CachedAnalysis>; // Keyed by scenario name
+  chatHistory: ChatMessage[];
+  versions?: ModelVersion[]; // Oldest first, starting with the model as generated
 }
 
 export enum LoadingState {